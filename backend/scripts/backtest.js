@@ -0,0 +1,91 @@
+const { BacktestService } = require('../dist/services/BacktestService');
+const { createClient } = require('@supabase/supabase-js');
+const winston = require('winston');
+
+// Initialize logger
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'backtest' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.simple()
+    })
+  ],
+});
+
+// Initialize Supabase client
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Initialize backtest service
+const backtestService = new BacktestService(supabase, logger);
+
+// Usage: node scripts/backtest.js --league=39 --from=2023-08-01 --to=2024-05-31
+//   [--models=poisson,ensemble@1] [--odds=closing.csv] [--bookmaker=Pinnacle] [--min-edge=0.03]
+function parseArgs(argv) {
+  const options = {};
+
+  argv.forEach(arg => {
+    const [key, value] = arg.replace(/^--/, '').split('=');
+    if (!value) return;
+
+    if (key === 'league') {
+      options.leagueId = parseInt(value);
+    } else if (key === 'models') {
+      options.models = value.split(',');
+    } else if (key === 'odds') {
+      options.oddsFile = value;
+    } else if (key === 'min-edge') {
+      options.minEdge = Number(value);
+    } else if (['from', 'to', 'bookmaker'].includes(key)) {
+      options[key] = value;
+    }
+  });
+
+  return options;
+}
+
+async function runBacktest() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.leagueId || !options.from || !options.to) {
+    logger.error('Usage: node scripts/backtest.js --league=ID --from=YYYY-MM-DD --to=YYYY-MM-DD [--models=a,b] [--odds=FILE] [--bookmaker=NAME] [--min-edge=0.03]');
+    process.exit(1);
+  }
+
+  try {
+    logger.info('Starting backtest...');
+
+    const backtest = await backtestService.run(options);
+
+    if (backtest.status !== 'completed') {
+      logger.error(`Backtest ${backtest.id} failed: ${backtest.error}`);
+      process.exit(1);
+    }
+
+    logger.info(`Backtest ${backtest.id} completed: ${backtest.matches} matches`);
+    console.log(JSON.stringify(backtest.summary, null, 2));
+  } catch (error) {
+    logger.error('Backtest failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the backtest if this script is executed directly
+if (require.main === module) {
+  runBacktest();
+}
+
+module.exports = { runBacktest };
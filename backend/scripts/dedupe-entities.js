@@ -0,0 +1,55 @@
+const { DataService } = require('../dist/services/DataService');
+const { createClient } = require('@supabase/supabase-js');
+const winston = require('winston');
+
+// Initialize logger
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'duplicate-merger' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.simple()
+    })
+  ],
+});
+
+// Initialize Supabase client
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Initialize data service
+const dataService = new DataService(supabase, logger);
+
+// Usage: node scripts/dedupe-entities.js [--dry-run]
+async function dedupeEntities() {
+  try {
+    const dryRun = process.argv.includes('--dry-run');
+    logger.info(`Starting duplicate merge${dryRun ? ' (dry run)' : ''}...`);
+
+    const report = await dataService.mergeDuplicates(dryRun);
+
+    logger.info('Duplicate merge completed', report);
+  } catch (error) {
+    logger.error('Duplicate merge failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the merge if this script is executed directly
+if (require.main === module) {
+  dedupeEntities();
+}
+
+module.exports = { dedupeEntities };
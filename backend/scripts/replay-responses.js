@@ -0,0 +1,71 @@
+const { DataService } = require('../dist/services/DataService');
+const { createClient } = require('@supabase/supabase-js');
+const winston = require('winston');
+
+// Initialize logger
+const logger = winston.createLogger({
+  level: 'info',
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    winston.format.errors({ stack: true }),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'response-replayer' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.simple()
+    })
+  ],
+});
+
+// Initialize Supabase client
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseKey) {
+  logger.error('Missing Supabase environment variables');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, supabaseKey);
+
+// Initialize data service
+const dataService = new DataService(supabase, logger);
+
+// Usage: node scripts/replay-responses.js [--endpoint=fixtures] [--provider=api-football] [--from=ISO] [--to=ISO] [--ids=1,2,3]
+function parseArgs(argv) {
+  const filters = {};
+
+  argv.forEach(arg => {
+    const [key, value] = arg.replace(/^--/, '').split('=');
+    if (!value) return;
+
+    if (key === 'ids') {
+      filters.ids = value.split(',').map(Number);
+    } else if (['endpoint', 'provider', 'from', 'to'].includes(key)) {
+      filters[key] = value;
+    }
+  });
+
+  return filters;
+}
+
+async function replayResponses() {
+  try {
+    logger.info('Starting response replay...');
+
+    const replayed = await dataService.replayResponses(parseArgs(process.argv.slice(2)));
+
+    logger.info(`Response replay completed: ${replayed} responses`);
+  } catch (error) {
+    logger.error('Response replay failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the replay if this script is executed directly
+if (require.main === module) {
+  replayResponses();
+}
+
+module.exports = { replayResponses };
@@ -0,0 +1,132 @@
+import winston from 'winston';
+import { BackfillService } from '../services/BackfillService';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+const logger = winston.createLogger({ silent: true });
+
+const finished = (...ids: number[]) => ids.map(externalId => ({ externalId, status: 'FINISHED' }));
+const synced = <T>(data: T, complete = true) => ({ data, complete });
+
+// Just the DataService calls a backfill makes, with a quota that drops by one
+// per fixture statistics request
+const createDataService = (quota: { remaining: number }) => ({
+  resolveCurrentSeason: jest.fn(async () => 2025),
+  syncTeams: jest.fn(async () => synced([])),
+  syncFixtures: jest.fn(async () => synced([...finished(1, 2, 3, 4), { externalId: 5, status: 'POSTPONED' }])),
+  getFinishedFixtureIds: jest.fn(async () => [1, 2, 3, 4]),
+  syncFixtureStatistics: jest.fn(async (_league: any, _fixtureId: number) => {
+    quota.remaining--;
+  }),
+  syncFixtureEvents: jest.fn(async () => undefined),
+  getProviderQuota: jest.fn(() => ({ remaining: quota.remaining }))
+});
+
+async function runToEnd(service: BackfillService): Promise<void> {
+  service.start({ leagues: [39], fromSeason: 2023, toSeason: 2023 });
+  while ((await service.getStatus()).running) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('BackfillService', () => {
+  const reserve = process.env.BACKFILL_QUOTA_RESERVE;
+
+  beforeAll(() => {
+    process.env.BACKFILL_QUOTA_RESERVE = '20';
+  });
+
+  afterAll(() => {
+    if (reserve === undefined) {
+      delete process.env.BACKFILL_QUOTA_RESERVE;
+    } else {
+      process.env.BACKFILL_QUOTA_RESERVE = reserve;
+    }
+  });
+
+  test('should pause at the quota reserve and resume after the last processed fixture', async () => {
+    const supabase = new FakeSupabase();
+    const quota = { remaining: 22 };
+    const dataService = createDataService(quota);
+    const service = new BackfillService(supabase as any, logger, dataService as any);
+
+    await runToEnd(service);
+
+    expect(dataService.syncFixtureStatistics.mock.calls.map(call => call[1])).toEqual([1, 2]);
+    expect(supabase.rows('backfill_checkpoints')).toEqual([expect.objectContaining({
+      league_api_id: 39,
+      season: 2023,
+      status: 'paused',
+      stage: 'statistics',
+      last_fixture_id: 2,
+      fixtures_total: 4,
+      fixtures_processed: 2
+    })]);
+
+    quota.remaining = 100;
+    await runToEnd(service);
+
+    expect(dataService.syncTeams).toHaveBeenCalledTimes(1);
+    expect(dataService.syncFixtures).toHaveBeenCalledTimes(1);
+    expect(dataService.syncFixtureStatistics.mock.calls.map(call => call[1])).toEqual([1, 2, 3, 4]);
+    expect(supabase.rows('backfill_checkpoints')).toEqual([expect.objectContaining({
+      status: 'completed',
+      stage: 'done',
+      last_fixture_id: 4,
+      fixtures_processed: 4
+    })]);
+  });
+
+  test('should stay at the fixtures stage until every fixture is saved', async () => {
+    const supabase = new FakeSupabase();
+    const dataService = createDataService({ remaining: 100 });
+    dataService.syncFixtures.mockResolvedValueOnce(synced(finished(1, 2), false));
+    const service = new BackfillService(supabase as any, logger, dataService as any);
+
+    await runToEnd(service);
+
+    expect(dataService.syncFixtureStatistics).not.toHaveBeenCalled();
+    expect(supabase.rows('backfill_checkpoints')).toEqual([expect.objectContaining({
+      status: 'failed',
+      stage: 'fixtures',
+      error: 'Not every fixture of Premier League 2023 could be saved'
+    })]);
+
+    await runToEnd(service);
+
+    expect(dataService.syncFixtures).toHaveBeenCalledTimes(2);
+    expect(supabase.rows('backfill_checkpoints')[0]).toEqual(expect.objectContaining({ status: 'completed', fixtures_processed: 4 }));
+  });
+
+  test('should skip seasons that are already completed', async () => {
+    const supabase = new FakeSupabase({
+      backfill_checkpoints: [{ id: 1, league_api_id: 39, season: 2023, status: 'completed', stage: 'done' }]
+    });
+    const dataService = createDataService({ remaining: 100 });
+    const service = new BackfillService(supabase as any, logger, dataService as any);
+
+    await runToEnd(service);
+
+    expect(dataService.syncTeams).not.toHaveBeenCalled();
+    expect(dataService.syncFixtureStatistics).not.toHaveBeenCalled();
+  });
+
+  test('should record the error and keep the stage when a season fails', async () => {
+    const supabase = new FakeSupabase();
+    const dataService = createDataService({ remaining: 100 });
+    dataService.syncFixtures.mockRejectedValueOnce(new Error('provider down'));
+    const service = new BackfillService(supabase as any, logger, dataService as any);
+
+    await runToEnd(service);
+
+    expect(supabase.rows('backfill_checkpoints')).toEqual([expect.objectContaining({
+      status: 'failed',
+      stage: 'fixtures',
+      error: 'provider down'
+    })]);
+
+    await runToEnd(service);
+
+    expect(dataService.syncTeams).toHaveBeenCalledTimes(1);
+    expect(supabase.rows('backfill_checkpoints')[0].status).toBe('completed');
+  });
+});
@@ -0,0 +1,81 @@
+import { buildTies, BracketMatch } from '../services/BracketService';
+import { parseRound } from '../providers/apiFootballParser';
+
+const teams = {
+  1: { id: 1, name: 'Real Madrid', logo: '' },
+  2: { id: 2, name: 'Manchester City', logo: '' }
+};
+
+function leg(id: number, date: string, home: 1 | 2, away: 1 | 2, homeGoals: number | null, awayGoals: number | null, penalties?: [number, number]): BracketMatch {
+  return {
+    id,
+    date,
+    round: 'Quarter-finals',
+    leg: null,
+    status: homeGoals === null ? 'SCHEDULED' : 'FINISHED',
+    home_team_id: home,
+    away_team_id: away,
+    home_goals: homeGoals,
+    away_goals: awayGoals,
+    home_score_penalty: penalties ? penalties[0] : null,
+    away_score_penalty: penalties ? penalties[1] : null,
+    home_team: teams[home],
+    away_team: teams[away]
+  };
+}
+
+describe('buildTies', () => {
+  test('should add up both legs from the first-leg home side', () => {
+    const [tie] = buildTies([
+      leg(2, '2024-04-17T19:00:00Z', 2, 1, 1, 2),
+      leg(1, '2024-04-09T19:00:00Z', 1, 2, 3, 3)
+    ]);
+
+    expect(tie.home_team.id).toBe(1);
+    expect(tie.legs.map(match => [match.id, match.leg])).toEqual([[1, 1], [2, 2]]);
+    expect(tie.aggregate).toEqual({ home: 5, away: 4 });
+    expect(tie.winner_id).toBe(1);
+    expect(tie.status).toBe('FINISHED');
+  });
+
+  test('should settle a level aggregate on the second-leg shoot-out', () => {
+    const [tie] = buildTies([
+      leg(1, '2024-04-09T19:00:00Z', 1, 2, 1, 1),
+      leg(2, '2024-04-17T19:00:00Z', 2, 1, 1, 1, [3, 4])
+    ]);
+
+    expect(tie.aggregate).toEqual({ home: 2, away: 2 });
+    expect(tie.penalties).toEqual({ home: 4, away: 3 });
+    expect(tie.winner_id).toBe(1);
+  });
+
+  test('should leave the winner open until the second leg is played', () => {
+    const [tie] = buildTies([
+      leg(1, '2024-04-09T19:00:00Z', 1, 2, 2, 0),
+      leg(2, '2024-04-17T19:00:00Z', 2, 1, null, null)
+    ]);
+
+    expect(tie.status).toBe('IN_PROGRESS');
+    expect(tie.aggregate).toEqual({ home: 2, away: 0 });
+    expect(tie.winner_id).toBeNull();
+  });
+
+  test('should treat a single match as a one-legged tie', () => {
+    const [tie] = buildTies([leg(1, '2024-06-01T19:00:00Z', 2, 1, 0, 1)]);
+
+    expect(tie.legs[0].leg).toBeNull();
+    expect(tie.winner_id).toBe(1);
+  });
+});
+
+describe('parseRound', () => {
+  test('should read stage, group and matchday from round names', () => {
+    expect(parseRound('Group C - 2')).toEqual({ stage: 'GROUP', group: 'C', matchday: 2, leg: null });
+    expect(parseRound('League Stage - 8')).toEqual({ stage: 'LEAGUE', group: null, matchday: 8, leg: null });
+    expect(parseRound('2nd Qualifying Round')).toMatchObject({ stage: 'QUALIFYING' });
+    expect(parseRound('Play-offs')).toMatchObject({ stage: 'QUALIFYING' });
+    expect(parseRound('Knockout Round Play-offs')).toMatchObject({ stage: 'KNOCKOUT' });
+    expect(parseRound('Round of 16')).toMatchObject({ stage: 'KNOCKOUT', matchday: null });
+    expect(parseRound('Semi-finals - 2nd Leg')).toMatchObject({ stage: 'KNOCKOUT', leg: 2 });
+  });
+});
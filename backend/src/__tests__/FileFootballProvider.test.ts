@@ -0,0 +1,122 @@
+import path from 'path';
+import winston from 'winston';
+import { FileFootballProvider } from '../providers';
+
+const logger = winston.createLogger({ silent: true });
+const provider = new FileFootballProvider(logger, path.join(__dirname, 'recordings'));
+
+describe('FileFootballProvider', () => {
+  test('should parse league seasons', async () => {
+    const league = await provider.getLeague(39, 2024);
+
+    expect(league?.name).toBe('Premier League');
+    expect(league?.country).toBe('England');
+    expect(league?.seasons).toEqual([
+      { year: 2024, start: '2024-08-16', end: '2025-05-25', current: true }
+    ]);
+  });
+
+  test('should read every season when none is requested', async () => {
+    const league = await provider.getLeague(39);
+
+    expect(league?.seasons.map(season => season.year)).toEqual([2024, 2025]);
+    expect(league?.seasons.find(season => season.current)?.year).toBe(2025);
+  });
+
+  test('should parse teams with their venues', async () => {
+    const teams = await provider.getTeams(39, 2024);
+
+    expect(teams).toHaveLength(2);
+    expect(teams[0].externalId).toBe(33);
+    expect(teams[0].venue?.externalId).toBe(556);
+  });
+
+  test('should filter fixtures to the requested date window', async () => {
+    const fixtures = await provider.getFixtures(39, 2024, '2024-08-01', '2024-12-31');
+
+    expect(fixtures).toHaveLength(1);
+    expect(fixtures[0].externalId).toBe(1208021);
+    expect(fixtures[0].status).toBe('FINISHED');
+    expect(fixtures[0].goals).toEqual({ home: 0, away: 3 });
+    expect(fixtures[0].halftime).toEqual({ home: 0, away: 2 });
+    expect(fixtures[0].stage).toBe('LEAGUE');
+    expect(fixtures[0].matchday).toBe(3);
+  });
+
+  test('should parse percentage and decimal statistics', async () => {
+    const statistics = await provider.getFixtureStatistics(1208021);
+
+    expect(statistics[0].values.ball_possession).toBe(53);
+    expect(statistics[0].values.passes_percentage).toBe(84);
+    expect(statistics[0].values.expected_goals).toBeCloseTo(0.91);
+    expect(statistics[1].values.expected_goals).toBeNull();
+  });
+
+  test('should map fixture event types', async () => {
+    const events = await provider.getFixtureEvents(1208021);
+
+    expect(events.map(event => event.type)).toEqual(['GOAL', 'CARD', 'SUBSTITUTION', 'VAR']);
+    expect(events[0]).toMatchObject({ teamExternalId: 40, elapsed: 14, playerName: 'Mohamed Salah', detail: 'Normal Goal' });
+    expect(events[2].assistName).toBe('Toby Collyer');
+    expect(events[3].extraTime).toBe(4);
+  });
+
+  test('should parse lineups with formation and coach', async () => {
+    const lineups = await provider.getFixtureLineups(1208021);
+
+    expect(lineups[0].formation).toBe('4-2-3-1');
+    expect(lineups[0].coach?.name).toBe('A. Slot');
+    expect(lineups[0].startXI.map(player => player.position)).toEqual(['G', 'F']);
+    expect(lineups[0].substitutes[0]).toEqual({ externalId: 18871, name: 'C. Kelleher', number: 62, position: 'G', grid: null });
+  });
+
+  test('should classify injuries and suspensions', async () => {
+    const absences = await provider.getFixtureAbsences(1208021);
+
+    expect(absences.map(absence => [absence.status, absence.kind])).toEqual([
+      ['MISSING', 'INJURY'],
+      ['MISSING', 'SUSPENSION'],
+      ['QUESTIONABLE', 'OTHER']
+    ]);
+    expect(absences[0]).toMatchObject({ teamExternalId: 33, playerExternalId: 909, reason: 'Hamstring Injury' });
+  });
+
+  test('should normalise bookmaker markets and skip unknown bets', async () => {
+    const odds = await provider.getFixtureOdds(1208021);
+
+    expect(odds).toHaveLength(8);
+    expect(odds[0]).toEqual({
+      bookmaker: 'Bet365',
+      market: 'MATCH_WINNER',
+      selection: 'HOME',
+      line: null,
+      price: 3.4,
+      capturedAt: '2024-08-31T10:00:14+00:00'
+    });
+    expect(odds.find(price => price.market === 'OVER_UNDER')).toMatchObject({ selection: 'OVER', line: 2.5 });
+    expect(odds.find(price => price.market === 'ASIAN_HANDICAP' && price.selection === 'AWAY')?.line).toBe(-0.5);
+    expect(odds.find(price => price.market === 'CORRECT_SCORE')?.selection).toBe('1-2');
+  });
+
+  test('should parse player season statistics', async () => {
+    const players = await provider.getPlayers(39, 2024);
+
+    expect(players[0]).toMatchObject({ externalId: 306, birthDate: '1992-06-15', nationality: 'Egypt' });
+    expect(players[0].statistics[0]).toMatchObject({
+      teamExternalId: 40,
+      position: 'Attacker',
+      appearances: 38,
+      goals: 29,
+      assists: 18,
+      expectedGoals: null,
+      redCards: 0
+    });
+    expect(players[0].statistics[0].rating).toBeCloseTo(7.846);
+  });
+
+  test('should return nothing when no recording exists', async () => {
+    const teams = await provider.getTeams(140, 2024);
+
+    expect(teams).toEqual([]);
+  });
+});
@@ -0,0 +1,157 @@
+import winston from 'winston';
+import { IdMappingService } from '../services/IdMappingService';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+const logger = winston.createLogger({ silent: true });
+
+describe('IdMappingService', () => {
+  test('should insert a row once and update it on later upserts', async () => {
+    const supabase = new FakeSupabase();
+    const service = new IdMappingService(supabase as any, logger);
+
+    const id = await service.upsert('team', 'api-football', 42, { name: 'Arsenal' });
+    expect(await service.upsert('team', 'api-football', 42, { name: 'Arsenal FC' })).toBe(id);
+
+    expect(supabase.rows('teams')).toEqual([{ id, name: 'Arsenal FC' }]);
+    expect(await new IdMappingService(supabase as any, logger).resolve('team', 'api-football', 42)).toBe(id);
+  });
+
+  test('should report a failed update of a mapped row', async () => {
+    const supabase = new FakeSupabase();
+    const service = new IdMappingService(supabase as any, logger);
+
+    await service.upsert('team', 'api-football', 42, { name: 'Arsenal' });
+    supabase.fail('teams', 'update');
+
+    expect(await service.upsert('team', 'api-football', 42, { name: 'Arsenal FC' })).toBeNull();
+    expect(supabase.rows('teams')[0].name).toBe('Arsenal');
+  });
+
+  test('should throw and remove the row when its mapping cannot be stored', async () => {
+    const supabase = new FakeSupabase();
+    supabase.fail('external_ids', 'insert', 'new row violates check constraint');
+    const service = new IdMappingService(supabase as any, logger);
+
+    await expect(service.upsert('player', 'api-football', 276, { name: 'Neymar' }))
+      .rejects.toThrow('Failed to map player api-football:276 to 1: new row violates check constraint');
+
+    expect(supabase.rows('players')).toHaveLength(0);
+    expect(await service.resolve('player', 'api-football', 276)).toBeNull();
+  });
+
+  test('should collapse duplicates into the mapped row and repoint foreign keys', async () => {
+    const supabase = new FakeSupabase({
+      leagues: [
+        { id: 1, name: 'Premier League', country: 'England' },
+        { id: 2, name: 'Premier League', country: 'England' }
+      ],
+      teams: [
+        { id: 10, name: 'Arsenal', country: 'England' },
+        { id: 11, name: 'arsenal ', country: 'England' },
+        { id: 12, name: 'Chelsea', country: 'England' }
+      ],
+      external_ids: [
+        { id: 1, entity_type: 'league', provider: 'api-football', external_id: 39, internal_id: 2 },
+        { id: 2, entity_type: 'team', provider: 'api-football', external_id: 42, internal_id: 10 },
+        { id: 3, entity_type: 'match', provider: 'api-football', external_id: 1208021, internal_id: 101 }
+      ],
+      matches: [
+        { id: 100, date: '2024-09-01T15:00:00Z', league_id: 1, home_team_id: 11, away_team_id: 12 },
+        { id: 101, date: '2024-09-01T15:00:00Z', league_id: 2, home_team_id: 10, away_team_id: 12 }
+      ],
+      predictions: [{ id: 1000, match_id: 100 }],
+      team_ratings: [{ id: 1, team_id: 11, league_id: 1, last_match_id: 100 }],
+      backtests: [{ id: 1, league_id: 1 }]
+    });
+    const service = new IdMappingService(supabase as any, logger);
+
+    const report = await service.mergeDuplicates();
+
+    expect(report).toEqual({ dryRun: false, league: 1, venue: 0, team: 1, match: 1 });
+    expect(supabase.rows('leagues').map(row => row.id)).toEqual([2]);
+    expect(supabase.rows('teams').map(row => row.id)).toEqual([10, 12]);
+    expect(supabase.rows('matches')).toEqual([
+      { id: 101, date: '2024-09-01T15:00:00Z', league_id: 2, home_team_id: 10, away_team_id: 12 }
+    ]);
+    expect(supabase.rows('predictions')).toEqual([{ id: 1000, match_id: 101 }]);
+    expect(supabase.rows('team_ratings')).toEqual([{ id: 1, team_id: 10, league_id: 2, last_match_id: 101 }]);
+    expect(supabase.rows('backtests')).toEqual([{ id: 1, league_id: 2 }]);
+  });
+
+  test('should drop the duplicate\'s rows when the keeper already holds them', async () => {
+    const supabase = new FakeSupabase({
+      leagues: [
+        { id: 1, name: 'Premier League', country: 'England' },
+        { id: 2, name: 'Premier League', country: 'England' }
+      ],
+      published_models: [
+        { id: 1, league_id: 1, model_id: 3 },
+        { id: 2, league_id: 2, model_id: 4 }
+      ]
+    });
+    // One published model per league: the update hits the unique constraint
+    supabase.fail('published_models', 'update', 'duplicate key value violates unique constraint', '23505');
+    const service = new IdMappingService(supabase as any, logger);
+
+    await service.mergeDuplicates();
+
+    expect(supabase.rows('leagues').map(row => row.id)).toEqual([1]);
+    expect(supabase.rows('published_models')).toEqual([{ id: 1, league_id: 1, model_id: 3 }]);
+  });
+
+  test('should keep the duplicates when their references cannot be repointed', async () => {
+    const supabase = new FakeSupabase({
+      teams: [
+        { id: 10, name: 'Arsenal', country: 'England' },
+        { id: 11, name: 'Arsenal', country: 'England' }
+      ],
+      matches: [{ id: 100, date: '2024-09-01T15:00:00Z', home_team_id: 11, away_team_id: 12 }]
+    });
+    supabase.fail('matches', 'update', 'canceling statement due to statement timeout');
+    const service = new IdMappingService(supabase as any, logger);
+
+    const report = await service.mergeDuplicates();
+
+    expect(report.team).toBe(0);
+    expect(supabase.rows('teams').map(row => row.id)).toEqual([10, 11]);
+    expect(supabase.rows('matches')).toEqual([{ id: 100, date: '2024-09-01T15:00:00Z', home_team_id: 11, away_team_id: 12 }]);
+  });
+
+  test('should not merge rows that each have a provider mapping', async () => {
+    const supabase = new FakeSupabase({
+      teams: [
+        { id: 10, name: 'Arsenal', country: 'England' },
+        { id: 11, name: 'Arsenal', country: 'England' },
+        { id: 12, name: 'Arsenal', country: 'England' }
+      ],
+      external_ids: [
+        { id: 1, entity_type: 'team', provider: 'api-football', external_id: 42, internal_id: 10 },
+        { id: 2, entity_type: 'team', provider: 'api-football', external_id: 1234, internal_id: 11 }
+      ]
+    });
+    const service = new IdMappingService(supabase as any, logger);
+
+    const report = await service.mergeDuplicates();
+
+    expect(report.team).toBe(0);
+    expect(supabase.rows('teams').map(row => row.id)).toEqual([10, 11, 12]);
+    expect(supabase.rows('external_ids').map(row => row.internal_id)).toEqual([10, 11]);
+  });
+
+  test('should only report duplicates on a dry run', async () => {
+    const supabase = new FakeSupabase({
+      teams: [
+        { id: 10, name: 'Arsenal', country: 'England' },
+        { id: 11, name: 'Arsenal', country: 'England' }
+      ],
+      matches: [{ id: 100, date: '2024-09-01T15:00:00Z', home_team_id: 11, away_team_id: 12 }]
+    });
+    const service = new IdMappingService(supabase as any, logger);
+
+    const report = await service.mergeDuplicates(true);
+
+    expect(report.team).toBe(1);
+    expect(supabase.rows('teams')).toHaveLength(2);
+    expect(supabase.rows('matches')[0].home_team_id).toBe(11);
+  });
+});
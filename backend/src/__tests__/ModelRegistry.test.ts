@@ -0,0 +1,45 @@
+import winston from 'winston';
+import { ModelRegistry } from '../services/ModelRegistry';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+const logger = winston.createLogger({ silent: true });
+
+describe('ModelRegistry', () => {
+  test('should only flip the current prediction snapshots when publishing', async () => {
+    const supabase = new FakeSupabase({
+      matches: [
+        { id: 1, league_id: 5, status: 'SCHEDULED' },
+        { id: 2, league_id: 5, status: 'SCHEDULED' }
+      ],
+      predictions: [
+        { id: 10, match_id: 1, model_id: 1, published: true, superseded_at: null },
+        { id: 11, match_id: 1, model_id: 2, published: false, superseded_at: '2024-09-01T10:00:00Z' },
+        { id: 12, match_id: 1, model_id: 2, published: false, superseded_at: null },
+        { id: 13, match_id: 2, model_id: 1, published: true, superseded_at: null }
+      ]
+    });
+    const registry = new ModelRegistry(supabase as any, logger);
+
+    await registry.publishModel(5, 2);
+
+    expect(supabase.rows('published_models')).toEqual([expect.objectContaining({ league_id: 5, model_id: 2 })]);
+    // Match 2 has no output from model 2 and keeps its prediction
+    expect(supabase.rows('predictions').map(row => [row.id, row.published])).toEqual([
+      [10, false],
+      [11, false],
+      [12, true],
+      [13, true]
+    ]);
+  });
+
+  test('should fail when the predictions cannot be flipped', async () => {
+    const supabase = new FakeSupabase({
+      matches: [{ id: 1, league_id: 5, status: 'SCHEDULED' }],
+      predictions: [{ id: 10, match_id: 1, model_id: 2, published: false, superseded_at: null }]
+    });
+    supabase.fail('predictions', 'update');
+    const registry = new ModelRegistry(supabase as any, logger);
+
+    await expect(registry.publishModel(5, 2)).rejects.toThrow('Failed to unpublish other predictions for league 5');
+  });
+});
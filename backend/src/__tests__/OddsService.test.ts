@@ -0,0 +1,46 @@
+import winston from 'winston';
+import { IdMappingService } from '../services/IdMappingService';
+import { latestPrices, OddsService, parseCsv } from '../services/OddsService';
+import { Odds } from '../types';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+const logger = winston.createLogger({ silent: true });
+
+describe('OddsService', () => {
+  test('should parse quoted CSV fields', () => {
+    const rows = parseCsv('fixture_id,bookmaker,market,selection,line,price\n1208021,"Smith, Jones & Co",OVER_UNDER,over,2.5,1.91\r\n');
+
+    expect(rows).toEqual([
+      { fixture_id: '1208021', bookmaker: 'Smith, Jones & Co', market: 'OVER_UNDER', selection: 'over', line: '2.5', price: '1.91' }
+    ]);
+  });
+
+  test('should keep the most recent price per selection and line', () => {
+    const history = [
+      { bookmaker: 'Bet365', market: 'MATCH_WINNER', selection: 'HOME', line: null, price: 2.1 },
+      { bookmaker: 'Bet365', market: 'OVER_UNDER', selection: 'OVER', line: 2.5, price: 1.9 },
+      { bookmaker: 'Bet365', market: 'OVER_UNDER', selection: 'OVER', line: 3.5, price: 2.8 },
+      { bookmaker: 'Bet365', market: 'MATCH_WINNER', selection: 'HOME', line: null, price: 2.0 }
+    ] as Odds[];
+
+    expect(latestPrices(history).map(row => row.price)).toEqual([2.0, 1.9, 2.8]);
+  });
+
+  test('should only insert prices that moved since the stored DECIMAL strings', async () => {
+    const supabase = new FakeSupabase({
+      odds: [
+        { id: 1, match_id: 7, bookmaker: 'Bet365', market: 'MATCH_WINNER', selection: 'HOME', line: null, price: '2.10', captured_at: '2024-08-30T10:00:00Z' },
+        { id: 2, match_id: 7, bookmaker: 'Bet365', market: 'OVER_UNDER', selection: 'OVER', line: '2.50', price: '1.90', captured_at: '2024-08-30T10:00:00Z' }
+      ]
+    });
+    const service = new OddsService(supabase as any, logger, new IdMappingService(supabase as any, logger));
+
+    const added = await service.saveOdds(7, [
+      { bookmaker: 'Bet365', market: 'MATCH_WINNER', selection: 'HOME', line: null, price: 2.1, capturedAt: '2024-08-31T10:00:00Z' },
+      { bookmaker: 'Bet365', market: 'OVER_UNDER', selection: 'OVER', line: 2.5, price: 1.85, capturedAt: '2024-08-31T10:00:00Z' }
+    ]);
+
+    expect(added).toBe(1);
+    expect(supabase.rows('odds').map(row => Number(row.price))).toEqual([2.1, 1.9, 1.85]);
+  });
+});
@@ -0,0 +1,76 @@
+import { SettledPrediction, summarisePerformance } from '../services/PerformanceService';
+
+function prediction(matchId: number, date: string, leagueId: number, markets: any[]): SettledPrediction {
+  return { match_id: matchId, date, league_id: leagueId, league_name: `League ${leagueId}`, markets };
+}
+
+// 1X2 on a home win priced 0.5 / 0.3 / 0.2
+const homeWin = [
+  { market: 'MATCH_WINNER', selection: 'HOME', line: null, probability: 0.5, outcome: 'HIT' },
+  { market: 'MATCH_WINNER', selection: 'DRAW', line: null, probability: 0.3, outcome: 'MISS' },
+  { market: 'MATCH_WINNER', selection: 'AWAY', line: null, probability: 0.2, outcome: 'MISS' }
+];
+
+// Same prices on an away win
+const awayWin = homeWin.map(row => ({ ...row, outcome: row.selection === 'AWAY' ? 'HIT' : 'MISS' }));
+
+describe('PerformanceService helpers', () => {
+  test('should score picks, Brier and calibration per market and league', () => {
+    const summary = summarisePerformance([
+      prediction(1, '2024-08-10T14:00:00+00:00', 39, homeWin),
+      prediction(2, '2024-08-11T14:00:00+00:00', 140, awayWin)
+    ]);
+
+    expect(summary.matches).toBe(2);
+    expect(summary.picks).toBe(2);
+    expect(summary.hit_rate).toBe(0.5);
+    // (0.25 + 0.09 + 0.04 + 0.25 + 0.09 + 0.64) / 2
+    expect(summary.brier_score).toBeCloseTo(0.68);
+    expect(summary.markets).toEqual([{ market: 'MATCH_WINNER', picks: 2, hit_rate: 0.5, brier_score: 0.68 }]);
+    expect(summary.leagues.map(league => [league.league_id, league.hit_rate])).toEqual([[39, 1], [140, 0]]);
+
+    const fifty = summary.calibration[5];
+    expect(fifty).toEqual({ from: 0.5, to: 0.6, selections: 2, predicted: 0.5, observed: 0.5 });
+    expect(summary.calibration[2]).toMatchObject({ selections: 2, observed: 0.5 });
+    expect(summary.calibration[9].selections).toBe(0);
+
+    expect(summary.rolling_accuracy.map(point => point.hit_rate)).toEqual([1, 0.5]);
+  });
+
+  test('should pair handicap sides and count half results as half a pick', () => {
+    const summary = summarisePerformance([
+      prediction(1, '2024-08-10T14:00:00+00:00', 39, [
+        { market: 'ASIAN_HANDICAP', selection: 'HOME', line: -0.25, probability: 0.55, outcome: 'HALF_MISS' },
+        { market: 'ASIAN_HANDICAP', selection: 'AWAY', line: 0.25, probability: 0.4, outcome: 'HALF_HIT' },
+        { market: 'OVER_UNDER', selection: 'OVER', line: 2, probability: 0.45, outcome: 'PUSH' },
+        { market: 'OVER_UNDER', selection: 'UNDER', line: 2, probability: 0.4, outcome: 'PUSH' }
+      ])
+    ]);
+
+    const handicap = summary.markets.find(market => market.market === 'ASIAN_HANDICAP');
+    expect(handicap).toEqual({ market: 'ASIAN_HANDICAP', picks: 0.5, hit_rate: 0, brier_score: null });
+
+    // Pushes are left out of the hit rate altogether
+    expect(summary.markets.find(market => market.market === 'OVER_UNDER').hit_rate).toBeNull();
+    expect(summary.calibration.every(bucket => bucket.selections === 0)).toBe(true);
+  });
+
+  test('should only count the main line of a market in the overall figures', () => {
+    const summary = summarisePerformance([
+      prediction(1, '2024-08-10T14:00:00+00:00', 39, [
+        { market: 'OVER_UNDER', selection: 'OVER', line: 0.5, probability: 0.93, outcome: 'HIT' },
+        { market: 'OVER_UNDER', selection: 'UNDER', line: 0.5, probability: 0.07, outcome: 'MISS' },
+        { market: 'OVER_UNDER', selection: 'OVER', line: 1.5, probability: 0.75, outcome: 'HIT' },
+        { market: 'OVER_UNDER', selection: 'UNDER', line: 1.5, probability: 0.25, outcome: 'MISS' },
+        { market: 'OVER_UNDER', selection: 'OVER', line: 2.5, probability: 0.52, outcome: 'MISS' },
+        { market: 'OVER_UNDER', selection: 'UNDER', line: 2.5, probability: 0.48, outcome: 'HIT' }
+      ])
+    ]);
+
+    expect(summary.picks).toBe(1);
+    expect(summary.hit_rate).toBe(0);
+    expect(summary.leagues[0]).toMatchObject({ picks: 1, hit_rate: 0 });
+    expect(summary.rolling_accuracy.map(point => point.hit_rate)).toEqual([0]);
+    expect(summary.markets).toEqual([expect.objectContaining({ market: 'OVER_UNDER', picks: 3, hit_rate: 0.6667 })]);
+  });
+});
@@ -0,0 +1,58 @@
+import winston from 'winston';
+import { PredictionService } from '../services/PredictionService';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+const logger = winston.createLogger({ silent: true });
+
+const generated = (inputsHash: string, published = true) => ({
+  prediction: {
+    match_id: 1,
+    model_id: 2,
+    inputs_hash: inputsHash,
+    published,
+    generated_at: '2024-09-02T10:00:00Z'
+  },
+  scorelines: { correct_scores: [] },
+  markets: [{ market: '1X2', selection: 'HOME', probability: 0.5 }]
+});
+
+const current = { id: 10, match_id: 1, model_id: 2, inputs_hash: 'old', published: true, superseded_at: null };
+
+const save = (service: PredictionService, prediction: ReturnType<typeof generated>) =>
+  (service as any).savePrediction(prediction) as Promise<void>;
+
+describe('PredictionService', () => {
+  test('should supersede the current snapshot once the new one is fully saved', async () => {
+    const supabase = new FakeSupabase({ predictions: [{ ...current }] });
+    const service = new PredictionService(supabase as any, logger);
+
+    await save(service, generated('new'));
+
+    expect(supabase.rows('predictions').map(row => [row.id, row.inputs_hash, row.superseded_at])).toEqual([
+      [10, 'old', '2024-09-02T10:00:00Z'],
+      [11, 'new', null]
+    ]);
+    expect(supabase.rows('prediction_scorelines')).toEqual([expect.objectContaining({ prediction_id: 11 })]);
+    expect(supabase.rows('prediction_markets')).toEqual([expect.objectContaining({ prediction_id: 11 })]);
+  });
+
+  test('should keep the current snapshot when the markets cannot be saved', async () => {
+    const supabase = new FakeSupabase({ predictions: [{ ...current }] });
+    supabase.fail('prediction_markets', 'insert');
+    const service = new PredictionService(supabase as any, logger);
+
+    await save(service, generated('new'));
+
+    expect(supabase.rows('predictions')).toEqual([current]);
+  });
+
+  test('should only flip the published flag when the inputs are unchanged', async () => {
+    const supabase = new FakeSupabase({ predictions: [{ ...current }] });
+    const service = new PredictionService(supabase as any, logger);
+
+    await save(service, generated('old', false));
+
+    expect(supabase.rows('predictions')).toEqual([{ ...current, published: false }]);
+    expect(supabase.rows('prediction_markets')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,77 @@
+import winston from 'winston';
+import { RequestScheduler } from '../services/RequestScheduler';
+
+const logger = winston.createLogger({ silent: true });
+
+// Just enough of the Supabase query builder for the quota bookkeeping
+const createSupabaseStub = (): any => {
+  const query: any = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: async () => ({ data: null, error: null }),
+    upsert: async () => ({ error: null })
+  };
+  return { from: () => query };
+};
+
+const okResponse = (headers: Record<string, string> = {}): any => ({ status: 200, data: {}, headers });
+
+describe('RequestScheduler', () => {
+  test('should run queued requests in priority order', async () => {
+    const scheduler = new RequestScheduler(createSupabaseStub(), logger, 'test', { minIntervalMs: 0 });
+    const order: string[] = [];
+    const task = (name: string) => async () => {
+      order.push(name);
+      return okResponse();
+    };
+
+    await Promise.all([
+      scheduler.schedule(task('first'), 3),
+      scheduler.schedule(task('low'), 3),
+      scheduler.schedule(task('high'), 1)
+    ]);
+
+    expect(order).toEqual(['high', 'first', 'low']);
+  });
+
+  test('should retry on 429 and 5xx responses', async () => {
+    const scheduler = new RequestScheduler(createSupabaseStub(), logger, 'test', { minIntervalMs: 0, backoffMs: 1 });
+    let attempts = 0;
+
+    const response = await scheduler.schedule(async () => {
+      attempts++;
+      if (attempts < 3) {
+        throw { response: { status: attempts === 1 ? 429 : 503, headers: {} } };
+      }
+      return okResponse();
+    });
+
+    expect(response.status).toBe(200);
+    expect(attempts).toBe(3);
+  });
+
+  test('should track the budget from rate limit headers', async () => {
+    const scheduler = new RequestScheduler(createSupabaseStub(), logger, 'test', { minIntervalMs: 0 });
+
+    await scheduler.schedule(async () => okResponse({
+      'x-ratelimit-requests-limit': '100',
+      'x-ratelimit-requests-remaining': '42',
+      'x-ratelimit-limit': '10',
+      'x-ratelimit-remaining': '9'
+    }));
+
+    const status = scheduler.getStatus();
+    expect(status.remaining).toBe(42);
+    expect(status.used).toBe(58);
+    expect(status.minuteRemaining).toBe(9);
+    expect(status.queueDepth).toBe(0);
+  });
+
+  test('should reject requests once the daily quota is exhausted', async () => {
+    const scheduler = new RequestScheduler(createSupabaseStub(), logger, 'test', { minIntervalMs: 0, dailyLimit: 1 });
+
+    await scheduler.schedule(async () => okResponse());
+
+    await expect(scheduler.schedule(async () => okResponse())).rejects.toThrow('quota exhausted');
+  });
+});
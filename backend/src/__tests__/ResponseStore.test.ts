@@ -0,0 +1,97 @@
+import path from 'path';
+import winston from 'winston';
+import { FileFootballProvider } from '../providers';
+import { DataService } from '../services/DataService';
+import { ResponseStore } from '../services/ResponseStore';
+import { SUPPORTED_LEAGUES } from '../types';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+const logger = winston.createLogger({ silent: true });
+const premierLeague = SUPPORTED_LEAGUES.find(league => league.apiId === 39)!;
+
+const createDataService = (supabase: FakeSupabase) => new DataService(supabase as any, logger, {
+  file: new FileFootballProvider(logger, path.join(__dirname, 'recordings'))
+});
+
+describe('ResponseStore', () => {
+  const dataProvider = process.env.DATA_PROVIDER;
+
+  beforeAll(() => {
+    process.env.DATA_PROVIDER = 'file';
+  });
+
+  afterAll(() => {
+    if (dataProvider === undefined) {
+      delete process.env.DATA_PROVIDER;
+    } else {
+      process.env.DATA_PROVIDER = dataProvider;
+    }
+  });
+
+  test('should only report a body as unchanged once it was recorded', async () => {
+    const supabase = new FakeSupabase();
+    const store = new ResponseStore(supabase as any, logger);
+    const body = { response: [{ team: { id: 33 } }] };
+
+    expect(await store.check('file', 'teams', { league: 39, season: 2024 }, body)).toEqual({ changed: true });
+    expect(supabase.rows('provider_responses')).toHaveLength(0);
+
+    await store.record('file', 'teams', { season: 2024, league: 39 }, body);
+    const [stored] = supabase.rows('provider_responses');
+    stored.last_seen_at = '2024-01-01T00:00:00.000Z';
+
+    expect(await store.check('file', 'teams', { league: 39, season: 2024 }, body)).toEqual({ changed: false });
+    expect(stored.last_seen_at).not.toBe('2024-01-01T00:00:00.000Z');
+
+    expect(await store.check('file', 'teams', { league: 39, season: 2024 }, { response: [] })).toEqual({ changed: true });
+    expect(await store.check('file', 'teams', { league: 39, season: 2025 }, body)).toEqual({ changed: true });
+  });
+
+  test('should not record fixtures that could not all be saved', async () => {
+    const supabase = new FakeSupabase();
+    const dataService = createDataService(supabase);
+
+    // Teams are not ingested yet, so every match is skipped
+    await dataService.syncFixtures(premierLeague, 2024, '2024-08-01', '2025-05-31');
+    expect(supabase.rows('matches')).toHaveLength(0);
+    expect(supabase.rows('provider_responses')).toHaveLength(0);
+
+    await dataService.syncTeams(premierLeague, 2024);
+    await dataService.syncFixtures(premierLeague, 2024, '2024-08-01', '2025-05-31');
+
+    expect(supabase.rows('matches')).toHaveLength(2);
+    expect(supabase.rows('provider_responses').map(row => row.endpoint)).toEqual(['teams', 'fixtures']);
+  });
+
+  test('should list the finished fixtures held for a season', async () => {
+    const supabase = new FakeSupabase({
+      leagues: [{ id: 1, name: 'Premier League' }],
+      external_ids: [{ id: 1, entity_type: 'league', provider: 'file', external_id: 39, internal_id: 1 }]
+    });
+    const dataService = createDataService(supabase);
+
+    await dataService.syncTeams(premierLeague, 2024);
+    await dataService.syncFixtures(premierLeague, 2024, '2024-08-01', '2025-05-31');
+
+    expect(await dataService.getFinishedFixtureIds(premierLeague, 2024)).toEqual([1208021]);
+    expect(await dataService.getFinishedFixtureIds(premierLeague, 2023)).toEqual([]);
+  });
+
+  test('should keep raw bodies and parse them again on replay', async () => {
+    const supabase = new FakeSupabase();
+    const dataService = createDataService(supabase);
+
+    await dataService.syncTeams(premierLeague, 2024);
+
+    const [stored] = supabase.rows('provider_responses');
+    expect(stored.payload.response.map((entry: any) => entry.team.id)).toEqual([33, 40]);
+
+    supabase.tables.teams = [];
+    supabase.tables.venues = [];
+    supabase.tables.external_ids = [];
+
+    expect(await createDataService(supabase).replayResponses()).toBe(1);
+    expect(supabase.rows('teams').map(team => team.name)).toEqual(['Manchester United', 'Liverpool']);
+    expect(supabase.rows('venues')).toHaveLength(2);
+  });
+});
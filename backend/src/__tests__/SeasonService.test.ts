@@ -0,0 +1,30 @@
+import winston from 'winston';
+import { SeasonService } from '../services/SeasonService';
+import { SUPPORTED_LEAGUES } from '../types';
+
+const logger = winston.createLogger({ silent: true });
+const service = new SeasonService({} as any, logger);
+
+const premierLeague = SUPPORTED_LEAGUES.find(league => league.apiId === 39)!;
+const allsvenskan = SUPPORTED_LEAGUES.find(league => league.apiId === 113)!;
+
+describe('SeasonService', () => {
+  test('should keep the starting year for August-May leagues until the summer break', () => {
+    expect(service.fallbackSeason(premierLeague, new Date('2026-03-14T12:00:00Z'))).toBe(2025);
+    expect(service.fallbackSeason(premierLeague, new Date('2026-08-20T12:00:00Z'))).toBe(2026);
+  });
+
+  test('should use the calendar year for calendar-year leagues', () => {
+    expect(service.fallbackSeason(allsvenskan, new Date('2026-03-14T12:00:00Z'))).toBe(2026);
+  });
+
+  test('should cache the season flagged as current by the provider', () => {
+    service.rememberCurrentSeason(premierLeague, [
+      { year: 2024, start: '2024-08-16', end: '2025-05-25', current: false },
+      { year: 2025, start: '2025-08-15', end: '2026-05-24', current: true }
+    ]);
+
+    expect(service.getCachedSeason(premierLeague)).toBe(2025);
+    expect(service.getCachedSeason(allsvenskan)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import winston from 'winston';
+import { SettlementService, settleMarketRows } from '../services/SettlementService';
+import { PredictionMarket } from '../types';
+import { FakeSupabase } from './helpers/fakeSupabase';
+
+const logger = winston.createLogger({ silent: true });
+
+describe('SettlementService helpers', () => {
+  const rows = [
+    { id: 1, market: 'MATCH_WINNER', selection: 'HOME', line: null },
+    { id: 2, market: 'MATCH_WINNER', selection: 'DRAW', line: null },
+    { id: 3, market: 'BOTH_TEAMS_SCORE', selection: 'YES', line: null },
+    { id: 4, market: 'OVER_UNDER', selection: 'OVER', line: 2.75 },
+    { id: 5, market: 'OVER_UNDER', selection: 'UNDER', line: 2.25 },
+    { id: 6, market: 'ASIAN_HANDICAP', selection: 'HOME', line: -1 },
+    { id: 7, market: 'CORRECT_SCORE', selection: '2-1', line: null }
+  ] as Pick<PredictionMarket, 'id' | 'market' | 'selection' | 'line'>[];
+
+  test('should group markets by how they settled on a 2-1 home win', () => {
+    const outcomes = settleMarketRows(rows, 2, 1);
+
+    expect(outcomes.get('HIT')).toEqual([1, 3]);
+    // Three goals: over 2.75 wins on 2.5 and pushes on 3, under 2.25 loses on both
+    expect(outcomes.get('HALF_HIT')).toEqual([4]);
+    expect(outcomes.get('MISS')).toEqual([2, 5]);
+    expect(outcomes.get('PUSH')).toEqual([6]);
+    // Correct scores are not priced as markets, so they are left unsettled
+    expect([...outcomes.values()].flat()).not.toContain(7);
+  });
+
+  test('should read handicap lines stored as strings', () => {
+    const outcomes = settleMarketRows([{ id: 8, market: 'ASIAN_HANDICAP', selection: 'AWAY', line: '0.25' as any }], 1, 1);
+
+    expect(outcomes.get('HALF_HIT')).toEqual([8]);
+  });
+});
+
+describe('SettlementService', () => {
+  // The fake ignores embedded selects, so each prediction carries its match
+  const prediction = (id: number, match: Record<string, any>) => ({
+    id,
+    match_id: match.id,
+    is_closing: false,
+    superseded_at: null,
+    settled_at: null,
+    match
+  });
+
+  test('should settle a tie decided in extra time on the 90-minute score', async () => {
+    const match = {
+      id: 1,
+      status: 'FINISHED',
+      date: '2024-09-01T15:00:00Z',
+      home_goals: 2,
+      away_goals: 1,
+      home_score_fulltime: 1,
+      away_score_fulltime: 1
+    };
+    const supabase = new FakeSupabase({
+      predictions: [prediction(10, match)],
+      prediction_markets: [
+        { id: 1, prediction_id: 10, market: 'MATCH_WINNER', selection: 'HOME', line: null },
+        { id: 2, prediction_id: 10, market: 'MATCH_WINNER', selection: 'DRAW', line: null },
+        { id: 3, prediction_id: 10, market: 'OVER_UNDER', selection: 'OVER', line: 2.5 }
+      ]
+    });
+
+    expect(await new SettlementService(supabase as any, logger).settlePredictions()).toBe(1);
+
+    expect(supabase.rows('prediction_markets').map(row => row.outcome)).toEqual(['MISS', 'HIT', 'MISS']);
+    expect(supabase.rows('predictions')[0]).toEqual(expect.objectContaining({ is_closing: true, settled_at: expect.any(String) }));
+  });
+
+  test('should void predictions of cancelled and long postponed matches', async () => {
+    const supabase = new FakeSupabase({
+      predictions: [
+        prediction(10, { id: 1, status: 'CANCELLED', date: '2024-09-01T15:00:00Z' }),
+        prediction(11, { id: 2, status: 'POSTPONED', date: '2024-09-01T15:00:00Z' }),
+        prediction(12, { id: 3, status: 'POSTPONED', date: new Date().toISOString() })
+      ],
+      prediction_markets: [{ id: 1, prediction_id: 10, market: 'MATCH_WINNER', selection: 'HOME', line: null }]
+    });
+
+    expect(await new SettlementService(supabase as any, logger).settlePredictions()).toBe(2);
+
+    expect(supabase.rows('predictions').map(row => [row.id, row.is_closing, row.settled_at !== null])).toEqual([
+      [10, false, true],
+      [11, false, true],
+      [12, false, false]
+    ]);
+    expect(supabase.rows('prediction_markets')[0].outcome).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { computeStandings, StandingMatch } from '../services/StandingsService';
+
+const teams = {
+  1: { id: 1, name: 'Arsenal', logo: '' },
+  2: { id: 2, name: 'Brighton', logo: '' },
+  3: { id: 3, name: 'Chelsea', logo: '' },
+  4: { id: 4, name: 'Everton', logo: '' }
+};
+
+let nextId = 1;
+
+function match(home: keyof typeof teams, away: keyof typeof teams, homeGoals: number, awayGoals: number): StandingMatch {
+  const id = nextId++;
+  return {
+    id,
+    date: `2024-08-${String(id).padStart(2, '0')}T15:00:00Z`,
+    home_team_id: home,
+    away_team_id: away,
+    home_goals: homeGoals,
+    away_goals: awayGoals,
+    home_team: teams[home],
+    away_team: teams[away]
+  };
+}
+
+describe('computeStandings', () => {
+  test('should tally points, goals, home/away splits and form', () => {
+    const table = computeStandings([
+      match(1, 2, 2, 0),
+      match(2, 1, 1, 1),
+      match(1, 3, 0, 1)
+    ], ['goal_difference', 'goals_for']);
+
+    const arsenal = table.find(row => row.team.id === 1);
+    expect(arsenal).toMatchObject({ played: 3, won: 1, drawn: 1, lost: 1, goals_for: 3, goals_against: 2, goal_difference: 1, points: 4 });
+    expect(arsenal.home).toMatchObject({ played: 2, points: 3, goals_for: 2, goals_against: 1 });
+    expect(arsenal.away).toMatchObject({ played: 1, points: 1 });
+    expect(arsenal.form).toEqual(['L', 'D', 'W']);
+    expect(table[0].team.id).toBe(1);
+  });
+
+  // Arsenal and Chelsea finish level on points; Arsenal have the better goal
+  // difference but lost the match between them
+  const levelOnPoints = [
+    match(1, 4, 5, 0),
+    match(3, 1, 1, 0),
+    match(1, 2, 1, 0),
+    match(3, 2, 1, 0),
+    match(2, 4, 0, 0)
+  ];
+
+  test('should separate teams level on points by goal difference first', () => {
+    const table = computeStandings(levelOnPoints, ['goal_difference', 'goals_for', 'head_to_head_points']);
+
+    expect(table.slice(0, 2).map(row => row.team.name)).toEqual(['Arsenal', 'Chelsea']);
+    expect(table.map(row => row.position)).toEqual([1, 2, 3, 4]);
+  });
+
+  test('should separate teams level on points by head-to-head first', () => {
+    const table = computeStandings(levelOnPoints, ['head_to_head_points', 'head_to_head_goal_difference', 'goal_difference']);
+
+    expect(table.slice(0, 2).map(row => row.team.name)).toEqual(['Chelsea', 'Arsenal']);
+  });
+
+  test('should fall back to team name when every tiebreaker is level', () => {
+    const table = computeStandings([match(4, 2, 1, 1)], ['goal_difference', 'head_to_head_points']);
+
+    expect(table.map(row => row.team.name)).toEqual(['Brighton', 'Everton']);
+  });
+});
@@ -0,0 +1,79 @@
+import { bestPrices, evaluatePrices, removeMargin } from '../services/ValueBetService';
+import { MarketPrice } from '../services/predictionMarkets';
+import { OddsMarket } from '../types';
+
+function market(market: OddsMarket, selection: string, line: number | null, probability: number, rest: Partial<MarketPrice> = {}): MarketPrice {
+  return { market, selection, line, probability, half_win_probability: 0, push_probability: 0, half_loss_probability: 0, ...rest };
+}
+
+const markets = [
+  market('MATCH_WINNER', 'HOME', null, 0.5),
+  market('MATCH_WINNER', 'DRAW', null, 0.25),
+  market('MATCH_WINNER', 'AWAY', null, 0.25),
+  market('BOTH_TEAMS_SCORE', 'YES', null, 0.6),
+  market('ASIAN_HANDICAP', 'HOME', -1.5, 0.3),
+  market('ASIAN_HANDICAP', 'AWAY', 1.5, 0.7),
+  market('ASIAN_HANDICAP', 'HOME', -0.75, 0.3, { half_win_probability: 0.2 })
+];
+
+const capturedAt = '2024-08-31T10:00:00Z';
+
+describe('ValueBetService', () => {
+  test('should remove the bookmaker margin proportionally', () => {
+    const fair = removeMargin([2.0, 3.4, 3.8]);
+
+    expect(fair.reduce((sum, value) => sum + value, 0)).toBeCloseTo(1);
+    expect(fair[0]).toBeCloseTo(0.5 / (0.5 + 1 / 3.4 + 1 / 3.8));
+  });
+
+  test('should compute edge and expected value against fair probabilities', () => {
+    const prices = evaluatePrices(markets, [
+      { bookmaker: 'Bet365', market: 'MATCH_WINNER', selection: 'HOME', line: null, price: 2.2, captured_at: capturedAt },
+      { bookmaker: 'Bet365', market: 'MATCH_WINNER', selection: 'DRAW', line: null, price: 3.4, captured_at: capturedAt },
+      { bookmaker: 'Bet365', market: 'MATCH_WINNER', selection: 'AWAY', line: null, price: 3.3, captured_at: capturedAt }
+    ]);
+
+    const home = prices.find(price => price.selection === 'HOME')!;
+    const fairHome = removeMargin([2.2, 3.4, 3.3])[0];
+
+    expect(home.fair_probability).toBeCloseTo(fairHome);
+    expect(home.edge).toBeCloseTo(0.5 - fairHome);
+    expect(home.expected_value).toBeCloseTo(0.5 * 2.2 - 1);
+  });
+
+  test('should pair handicap lines and skip lines we do not price', () => {
+    const prices = evaluatePrices(markets, [
+      { bookmaker: 'Bet365', market: 'ASIAN_HANDICAP', selection: 'HOME', line: -1.5, price: 3.0, captured_at: capturedAt },
+      { bookmaker: 'Bet365', market: 'ASIAN_HANDICAP', selection: 'AWAY', line: 1.5, price: 1.4, captured_at: capturedAt },
+      { bookmaker: 'Bet365', market: 'OVER_UNDER', selection: 'OVER', line: 3.5, price: 2.5, captured_at: capturedAt }
+    ]);
+
+    expect(prices).toHaveLength(2);
+    expect(prices.find(price => price.selection === 'HOME')!.fair_probability).toBeCloseTo(removeMargin([3.0, 1.4])[0]);
+    expect(prices.find(price => price.selection === 'AWAY')!.model_probability).toBeCloseTo(0.7);
+  });
+
+  test('should count half wins at half the profit on quarter lines', () => {
+    const [price] = evaluatePrices(markets, [
+      { bookmaker: 'Bet365', market: 'ASIAN_HANDICAP', selection: 'HOME', line: -0.75, price: 2.0, captured_at: capturedAt }
+    ]);
+
+    // 0.3 full wins, 0.2 half wins, 0.5 losses
+    expect(price.expected_value).toBeCloseTo(0.3 + 0.1 - 0.5);
+    expect(price.model_probability).toBeCloseTo(0.45);
+  });
+
+  test('should keep the best price across bookmakers', () => {
+    const prices = evaluatePrices(markets, [
+      { bookmaker: 'Bet365', market: 'BOTH_TEAMS_SCORE', selection: 'YES', line: null, price: 1.8, captured_at: capturedAt },
+      { bookmaker: 'Pinnacle', market: 'BOTH_TEAMS_SCORE', selection: 'YES', line: null, price: 1.9, captured_at: capturedAt }
+    ]);
+
+    const best = bestPrices(prices);
+
+    expect(best).toHaveLength(1);
+    expect(best[0].bookmaker).toBe('Pinnacle');
+    // Partial books are compared on raw implied probability
+    expect(best[0].fair_probability).toBeCloseTo(1 / 1.9);
+  });
+});
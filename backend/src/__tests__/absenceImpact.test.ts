@@ -0,0 +1,51 @@
+import { applyAbsenceImpact, calculateAbsenceImpact } from '../services/absenceImpact';
+import { TeamFormStats } from '../types';
+
+const seasonStats = [
+  { player_id: 1, position: 'Attacker', minutes: 2700, goals: 20 },
+  { player_id: 2, position: 'Midfielder', minutes: 2500, goals: 10 },
+  { player_id: 3, position: 'Defender', minutes: 3000, goals: 0 },
+  { player_id: 4, position: 'Defender', minutes: 1000, goals: 0 },
+  { player_id: 5, position: 'Goalkeeper', minutes: 3000, goals: 0 }
+];
+
+const formStats: TeamFormStats = {
+  recentForm: ['W', 'W', 'D', 'L', 'W'],
+  goalsScored: 20,
+  goalsConceded: 10,
+  cleanSheets: 3,
+  failedToScore: 1,
+  averageGoalsScored: 2,
+  averageGoalsConceded: 1
+};
+
+describe('absenceImpact', () => {
+  test('should weigh a missing striker by the share of goals they scored', () => {
+    const impact = calculateAbsenceImpact([{ player_id: 1, status: 'MISSING' }], seasonStats);
+
+    expect(impact.attack).toBeCloseTo(20 / 30);
+    expect(impact.defence).toBe(0);
+  });
+
+  test('should count doubtful defenders as half missing', () => {
+    const impact = calculateAbsenceImpact([{ player_id: 3, status: 'QUESTIONABLE' }], seasonStats);
+
+    expect(impact.attack).toBe(0);
+    expect(impact.defence).toBeCloseTo(1500 / 7000);
+  });
+
+  test('should ignore absentees without season statistics', () => {
+    const impact = calculateAbsenceImpact([{ player_id: null, status: 'MISSING' }, { player_id: 99, status: 'MISSING' }], seasonStats);
+
+    expect(impact).toEqual({ attack: 0, defence: 0, absentPlayers: 2 });
+    expect(applyAbsenceImpact(formStats, impact)).toBe(formStats);
+  });
+
+  test('should lower goals scored and raise goals conceded', () => {
+    const adjusted = applyAbsenceImpact(formStats, { attack: 0.5, defence: 0.2, absentPlayers: 2 });
+
+    expect(adjusted.averageGoalsScored).toBeCloseTo(1.5);
+    expect(adjusted.averageGoalsConceded).toBeCloseTo(1.1);
+    expect(adjusted.recentForm).toEqual(formStats.recentForm);
+  });
+});
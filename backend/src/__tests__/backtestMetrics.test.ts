@@ -0,0 +1,70 @@
+import {
+  brierScore,
+  isCorrect,
+  logLoss,
+  matchResult,
+  ModelScorecard,
+  rankedProbabilityScore,
+  ResultProbabilities
+} from '../services/backtestMetrics';
+import { settledProfit, settleSelection } from '../services/predictionMarkets';
+
+describe('backtestMetrics', () => {
+  const favourite: ResultProbabilities = [0.6, 0.25, 0.15];
+
+  test('should score a home win', () => {
+    const result = matchResult(2, 1);
+
+    expect(result).toBe(0);
+    expect(brierScore(favourite, result)).toBeCloseTo(0.16 + 0.0625 + 0.0225);
+    expect(logLoss(favourite, result)).toBeCloseTo(-Math.log(0.6));
+    expect(rankedProbabilityScore(favourite, result)).toBeCloseTo((0.16 + 0.0225) / 2);
+    expect(isCorrect(favourite, result)).toBe(true);
+  });
+
+  test('should rank a draw closer to a home win than an away win', () => {
+    const homeWin = matchResult(1, 0);
+
+    expect(rankedProbabilityScore([0.2, 0.6, 0.2], homeWin)).toBeLessThan(rankedProbabilityScore([0.2, 0.2, 0.6], homeWin));
+    // Brier treats both misses the same
+    expect(brierScore([0.2, 0.6, 0.2], homeWin)).toBeCloseTo(brierScore([0.2, 0.2, 0.6], homeWin));
+    expect(logLoss([1, 0, 0], matchResult(0, 1))).toBeLessThan(Infinity);
+  });
+
+  test('should settle bets on the final score', () => {
+    expect(settledProfit(settleSelection('MATCH_WINNER', 'AWAY', null, 0, 1), 3.2)).toBeCloseTo(2.2);
+    expect(settledProfit(settleSelection('BOTH_TEAMS_SCORE', 'YES', null, 0, 1), 1.9)).toBe(-1);
+    expect(settledProfit(settleSelection('OVER_UNDER', 'OVER', 2.25, 1, 1), 2)).toBe(-0.5);
+    expect(settledProfit(settleSelection('ASIAN_HANDICAP', 'AWAY', 0.75, 1, 1), 1.9)).toBeCloseTo(0.9);
+    expect(settledProfit(settleSelection('ASIAN_HANDICAP', 'HOME', -1, 2, 1), 1.9)).toBe(0);
+    expect(settleSelection('CORRECT_SCORE', '1-1', null, 1, 1)).toBeNull();
+  });
+
+  test('should average scores and report ROI per market', () => {
+    const scorecard = new ModelScorecard('poisson@1');
+    scorecard.addPrediction(favourite, 0);
+    scorecard.addPrediction(favourite, 2);
+    scorecard.addBet('MATCH_WINNER', 1.5);
+    scorecard.addBet('MATCH_WINNER', -1);
+    scorecard.addBet('OVER_UNDER', -0.5);
+
+    const summary = scorecard.summary();
+
+    expect(summary.model).toBe('poisson@1');
+    expect(summary.matches).toBe(2);
+    expect(summary.accuracy).toBe(0.5);
+    expect(summary.log_loss).toBeCloseTo((-Math.log(0.6) - Math.log(0.15)) / 2, 4);
+    expect(summary.markets).toEqual([
+      { market: 'MATCH_WINNER', bets: 2, profit: 0.5, roi: 0.25 },
+      { market: 'OVER_UNDER', bets: 1, profit: -0.5, roi: -0.5 }
+    ]);
+  });
+
+  test('should leave scores empty without predictions', () => {
+    const summary = new ModelScorecard('xg@1').summary();
+
+    expect(summary.brier_score).toBeNull();
+    expect(summary.accuracy).toBeNull();
+    expect(summary.markets).toHaveLength(0);
+  });
+});
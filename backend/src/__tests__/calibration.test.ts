@@ -0,0 +1,121 @@
+import {
+  applyCalibration,
+  calibrateMarkets,
+  CalibrationSample,
+  fitIsotonic,
+  fitPlatt,
+  reliabilityDiagram
+} from '../services/calibration';
+import { CalibrationPrediction, fitCalibrations } from '../services/CalibrationService';
+import { findMarket, priceMarkets } from '../services/predictionMarkets';
+
+// Selections at each probability that hit as often as the given rate
+function samplesAt(probability: number, hitRate: number, count: number = 100): CalibrationSample[] {
+  return Array.from({ length: count }, (_, index) => ({ probability, hit: index < Math.round(hitRate * count) }));
+}
+
+describe('calibration', () => {
+  test('should pool adjacent violators into a non-decreasing curve', () => {
+    const curve = fitIsotonic([
+      { probability: 0.1, hit: false },
+      { probability: 0.2, hit: true },
+      { probability: 0.3, hit: false },
+      { probability: 0.4, hit: true }
+    ]);
+
+    expect(curve.x).toEqual([0.1, 0.25, 0.4]);
+    expect(curve.y).toEqual([0, 0.5, 1]);
+  });
+
+  test('should interpolate isotonic curves and clamp their ends', () => {
+    const parameters = { x: [0.2, 0.6], y: [0.1, 0.5] };
+
+    expect(applyCalibration('isotonic', parameters, 0.4)).toBeCloseTo(0.3);
+    expect(applyCalibration('isotonic', parameters, 0.05)).toBeCloseTo(0.1);
+    expect(applyCalibration('isotonic', { x: [0.5], y: [1] }, 0.9)).toBe(0.99);
+  });
+
+  test('should shrink overconfident predictions with Platt scaling', () => {
+    // Said 20% and 80%, hit 35% and 65% of the time
+    const parameters = fitPlatt([...samplesAt(0.2, 0.35), ...samplesAt(0.8, 0.65)]);
+
+    expect(parameters.a).toBeGreaterThan(0);
+    expect(parameters.a).toBeLessThan(1);
+    expect(applyCalibration('platt', parameters, 0.2)).toBeCloseTo(0.35, 2);
+    expect(applyCalibration('platt', parameters, 0.8)).toBeCloseTo(0.65, 2);
+  });
+
+  test('should leave well calibrated predictions alone with Platt scaling', () => {
+    const parameters = fitPlatt([...samplesAt(0.25, 0.25), ...samplesAt(0.75, 0.75)]);
+
+    expect(parameters.a).toBeCloseTo(1, 2);
+    expect(parameters.b).toBeCloseTo(0, 2);
+  });
+
+  test('should bucket predicted against observed hit rates', () => {
+    const buckets = reliabilityDiagram([...samplesAt(0.22, 0.5, 10), ...samplesAt(1, 1, 2)]);
+
+    expect(buckets).toHaveLength(10);
+    expect(buckets[2]).toEqual({ from: 0.2, to: 0.3, selections: 10, predicted: 0.22, observed: 0.5 });
+    expect(buckets[9].selections).toBe(2);
+    expect(buckets[0].predicted).toBeNull();
+  });
+
+  test('should keep calibrated markets consistent', () => {
+    const matrix = [
+      [0.1, 0.08, 0.03],
+      [0.15, 0.12, 0.05],
+      [0.12, 0.1, 0.04],
+      [0.08, 0.06, 0.07]
+    ];
+    const markets = priceMarkets(matrix);
+    const calibrated = calibrateMarkets(markets, (market, selection) => {
+      if (market === 'MATCH_WINNER') return selection === 'DRAW' ? p => p + 0.1 : p => p;
+      if (market === 'OVER_UNDER' || market === 'ASIAN_HANDICAP') return () => 0.4;
+      return null;
+    });
+    const probability = (market: any, selection: string, line: number | null) =>
+      findMarket(calibrated, market, selection, line).probability;
+
+    const home = probability('MATCH_WINNER', 'HOME', null);
+    const draw = probability('MATCH_WINNER', 'DRAW', null);
+    const away = probability('MATCH_WINNER', 'AWAY', null);
+    expect(home + draw + away).toBeCloseTo(1, 3);
+    expect(draw).toBeGreaterThan(findMarket(markets, 'MATCH_WINNER', 'DRAW', null).probability);
+    expect(probability('DOUBLE_CHANCE', 'HOME_DRAW', null)).toBeCloseTo(home + draw, 3);
+
+    expect(probability('OVER_UNDER', 'OVER', 2.5)).toBe(0.4);
+    expect(probability('OVER_UNDER', 'UNDER', 2.5)).toBe(0.6);
+    expect(probability('ASIAN_HANDICAP', 'HOME', -0.5)).toBe(0.4);
+    expect(probability('ASIAN_HANDICAP', 'AWAY', 0.5)).toBe(0.6);
+
+    // Lines that can push keep the model's prices, as do markets without a curve
+    const whole = findMarket(calibrated, 'OVER_UNDER', 'OVER', 2);
+    expect(whole.probability).toBe(whole.raw_probability);
+    const bothScore = findMarket(calibrated, 'BOTH_TEAMS_SCORE', 'YES', null);
+    expect(bothScore.probability).toBe(bothScore.raw_probability);
+  });
+
+  test('should fit curves per league and across leagues from plain hits and misses', () => {
+    const predictions: CalibrationPrediction[] = Array.from({ length: 400 }, (_, index) => ({
+      league_id: index < 300 ? 1 : 2,
+      markets: [
+        { market: 'BOTH_TEAMS_SCORE', selection: 'YES', line: null, probability: 0.9, raw_probability: 0.6, outcome: index % 2 === 0 ? 'HIT' : 'MISS' },
+        { market: 'BOTH_TEAMS_SCORE', selection: 'NO', line: null, probability: 0.1, raw_probability: 0.4, outcome: index % 2 === 0 ? 'MISS' : 'HIT' },
+        { market: 'OVER_UNDER', selection: 'OVER', line: 2.25, probability: 0.5, raw_probability: 0.5, outcome: 'HALF_HIT' }
+      ]
+    }));
+
+    const fitted = fitCalibrations('platt', predictions);
+
+    expect(fitted.map(calibration => [calibration.league_id, calibration.market, calibration.selection])).toEqual([
+      [null, 'BOTH_TEAMS_SCORE', 'YES'],
+      [1, 'BOTH_TEAMS_SCORE', 'YES']
+    ]);
+    expect(fitted[0].samples).toBe(400);
+    // Fitted on the raw probability, which said 60% for a coin flip
+    expect(applyCalibration('platt', fitted[1].parameters, 0.6)).toBeCloseTo(0.5, 2);
+    expect(fitted[1].reliability_before[6].observed).toBe(0.5);
+    expect(fitted[1].reliability_after[5].predicted).toBeCloseTo(0.5, 2);
+  });
+});
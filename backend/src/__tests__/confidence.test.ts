@@ -0,0 +1,46 @@
+import { confidenceAccuracy, confidenceScore, ConfidenceSample, modelAgreement, sampleSize } from '../services/confidence';
+
+describe('confidence', () => {
+  const components = { sample_size: 0.9, strength_certainty: 0.8, model_agreement: 0.85 };
+
+  test('should scale sample size by the less experienced team', () => {
+    expect(sampleSize(38, 19)).toBe(0.5);
+    expect(sampleSize(60, 50)).toBe(1);
+    expect(sampleSize(0, 30)).toBe(0);
+  });
+
+  test('should measure how far predictors are from their consensus', () => {
+    expect(modelAgreement([[0.5, 0.3, 0.2], [0.5, 0.3, 0.2]])).toBe(1);
+    expect(modelAgreement([[0.6, 0.25, 0.15], [0.4, 0.3, 0.3]])).toBeCloseTo(0.5);
+    expect(modelAgreement([[0.9, 0.05, 0.05], [0.1, 0.2, 0.7]])).toBe(0);
+    expect(modelAgreement([[0.5, 0.3, 0.2]])).toBeNull();
+  });
+
+  test('should leave history out until enough picks settled at that level', () => {
+    const { score, breakdown } = confidenceScore(components, confidenceAccuracy([]));
+
+    expect(breakdown.historical_accuracy).toBeNull();
+    expect(breakdown.history_picks).toBe(0);
+    expect(score).toBe(0.85);
+  });
+
+  test('should add the hit rate of picks with similar components', () => {
+    const samples: ConfidenceSample[] = Array.from({ length: 100 }, (_, index) => ({
+      components: { sample_size: 0.85, strength_certainty: 0.75, model_agreement: 0.85 },
+      hit: index < 60
+    }));
+    // A different level that must not count
+    samples.push(...Array.from({ length: 100 }, () => ({
+      components: { sample_size: 0.1, strength_certainty: 0.2, model_agreement: null },
+      hit: false
+    })));
+
+    const history = confidenceAccuracy(samples);
+    const { score, breakdown } = confidenceScore(components, history);
+
+    expect(history[8]).toEqual({ from: 0.8, to: 0.9, picks: 100, hit_rate: 0.6 });
+    expect(history[1].picks).toBe(100);
+    expect(breakdown).toEqual({ ...components, historical_accuracy: 0.6, history_picks: 100 });
+    expect(score).toBe(0.79);
+  });
+});
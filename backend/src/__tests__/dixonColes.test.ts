@@ -0,0 +1,135 @@
+import {
+  expectedGoals,
+  fitDixonColes,
+  marketProbabilities,
+  scorelineMatrix,
+  strengthUncertainty,
+  summariseScorelines
+} from '../services/dixonColes';
+import { GoalModelMatch } from '../types';
+
+// Deterministic generator so the simulated league is the same on every run
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+}
+
+function poisson(rate: number, next: () => number): number {
+  const limit = Math.exp(-rate);
+  let goals = 0;
+  let product = next();
+  while (product > limit) {
+    goals++;
+    product *= next();
+  }
+  return goals;
+}
+
+// Ten teams from strong (1) to weak (10), two seasons of double round robins
+function simulateLeague(): GoalModelMatch[] {
+  const next = random(42);
+  const strength = (team: number) => 0.4 - team * 0.08;
+  const matches: GoalModelMatch[] = [];
+  let day = 0;
+
+  for (let round = 0; round < 4; round++) {
+    for (let home = 1; home <= 10; home++) {
+      for (let away = 1; away <= 10; away++) {
+        if (home === away) continue;
+        day++;
+        matches.push({
+          date: new Date(Date.UTC(2023, 0, 1) + day * 86400000).toISOString(),
+          home_team_id: home,
+          away_team_id: away,
+          home_goals: poisson(Math.exp(0.1 + 0.3 + strength(home) - strength(away)), next),
+          away_goals: poisson(Math.exp(0.1 + strength(away) - strength(home)), next)
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+describe('dixonColes', () => {
+  const matches = simulateLeague();
+  const asOf = new Date(new Date(matches[matches.length - 1].date).getTime() + 86400000);
+  const model = fitDixonColes(matches, asOf);
+
+  test('should recover home advantage and the order of team strengths', () => {
+    expect(model.matches).toBe(360);
+    expect(model.homeAdvantage).toBeGreaterThan(0.15);
+    expect(model.homeAdvantage).toBeLessThan(0.45);
+    expect(model.attack[1]).toBeGreaterThan(model.attack[5]);
+    expect(model.attack[5]).toBeGreaterThan(model.attack[10]);
+    expect(model.defence[1]).toBeLessThan(model.defence[10]);
+  });
+
+  test('should favour the stronger side in the scoreline matrix', () => {
+    const goals = expectedGoals(model, 1, 10);
+    const matrix = scorelineMatrix(goals, model.rho);
+    const markets = marketProbabilities(matrix);
+
+    const total = matrix.reduce((sum, row) => sum + row.reduce((acc, p) => acc + p, 0), 0);
+    expect(total).toBeCloseTo(1);
+    expect(markets.homeWin + markets.draw + markets.awayWin).toBeCloseTo(1);
+    expect(markets.homeWin).toBeGreaterThan(0.6);
+    expect(markets.bothTeamsScore).toBeLessThan(1);
+  });
+
+  test('should inflate low draws with a negative rho', () => {
+    const goals = { home: 1.3, away: 1.1 };
+    const independent = scorelineMatrix(goals, 0);
+    const adjusted = scorelineMatrix(goals, -0.1);
+
+    expect(adjusted[0][0]).toBeGreaterThan(independent[0][0]);
+    expect(adjusted[1][1]).toBeGreaterThan(independent[1][1]);
+    expect(adjusted[1][0]).toBeLessThan(independent[1][0]);
+  });
+
+  test('should ignore matches after the fit date and weigh recent ones more', () => {
+    const early = fitDixonColes(matches, new Date(matches[99].date));
+    expect(early.matches).toBe(100);
+
+    const noDecay = fitDixonColes(matches, asOf, 0);
+    expect(noDecay.matches).toBe(360);
+    expect(noDecay.attack[1]).not.toBeCloseTo(model.attack[1], 5);
+  });
+
+  test('should be less certain of strengths fitted on fewer matches', () => {
+    const early = fitDixonColes(matches, new Date(matches[99].date));
+
+    expect(model.played[1]).toBe(72);
+    expect(strengthUncertainty(model, 1, 10)).toBeLessThan(strengthUncertainty(early, 1, 10));
+    expect(strengthUncertainty(model, 1, 10)).toBeGreaterThan(0);
+    // A team the model has never seen keeps the prior's uncertainty
+    expect(strengthUncertainty(model, 99, 98)).toBe(1);
+  });
+
+  test('should publish a correct-score grid and goal buckets that each sum to one', () => {
+    const matrix = scorelineMatrix({ home: 1.6, away: 1.1 }, -0.05);
+    const summary = summariseScorelines(matrix);
+    const sum = (values: number[]) => values.reduce((acc, value) => acc + value, 0);
+
+    expect(summary.correct_scores).toHaveLength(36);
+    expect(sum(summary.correct_scores.map(score => score.probability)) + summary.other_score_probability).toBeCloseTo(1);
+    expect(Object.keys(summary.total_goals)).toEqual(['0', '1', '2', '3', '4', '5', '6+']);
+    expect(sum(Object.values(summary.total_goals))).toBeCloseTo(1);
+    expect(sum(Object.values(summary.home_goals))).toBeCloseTo(1);
+    expect(summary.total_goals['0']).toBeCloseTo(matrix[0][0]);
+
+    const markets = marketProbabilities(matrix);
+    expect(summary.winning_margin.draw).toBeCloseTo(markets.draw);
+    expect(summary.winning_margin['home_1'] + summary.winning_margin['home_2'] + summary.winning_margin['home_3+']).toBeCloseTo(markets.homeWin);
+  });
+
+  test('should fall back to league-average rates without results', () => {
+    const empty = fitDixonColes([]);
+    const goals = expectedGoals(empty, 1, 2);
+
+    expect(empty.matches).toBe(0);
+    expect(goals.home).toBeGreaterThan(goals.away);
+  });
+});
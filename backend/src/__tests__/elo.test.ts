@@ -0,0 +1,91 @@
+import { computeElo, expectedScore, HOME_ADVANTAGE, INITIAL_RATING, K_FACTOR, LEAGUE_SHARE, marginMultiplier } from '../services/elo';
+import { EloMatch } from '../types';
+
+let nextId = 1;
+
+function match(date: string, leagueId: number, home: number, away: number, homeGoals: number, awayGoals: number): EloMatch {
+  return { id: nextId++, date, league_id: leagueId, home_team_id: home, away_team_id: away, home_goals: homeGoals, away_goals: awayGoals };
+}
+
+describe('elo', () => {
+  test('should scale rating changes by the margin of victory', () => {
+    expect(marginMultiplier(0)).toBe(1);
+    expect(marginMultiplier(-1)).toBe(1);
+    expect(marginMultiplier(2)).toBe(1.5);
+    expect(marginMultiplier(4)).toBeCloseTo(15 / 8);
+
+    const narrow = computeElo([match('2024-08-10', 1, 1, 2, 1, 0)]);
+    const wide = computeElo([match('2024-08-10', 1, 1, 2, 3, 0)]);
+    const gain = (result: typeof narrow) => result.ratings.find(rating => rating.team_id === 1).rating - INITIAL_RATING;
+
+    expect(gain(narrow)).toBeCloseTo(K_FACTOR * (1 - expectedScore(HOME_ADVANTAGE)));
+    expect(gain(wide)).toBeCloseTo(gain(narrow) * 1.75);
+  });
+
+  test('should replay matches in date order and record the history', () => {
+    const result = computeElo([
+      match('2024-08-17', 1, 2, 1, 2, 2),
+      match('2024-08-10', 1, 1, 2, 0, 1),
+      match('2024-08-24', 1, 1, 2, 1, 1)
+    ]);
+
+    const team1 = result.history.filter(change => change.team_id === 1);
+    expect(team1.map(change => change.date)).toEqual(['2024-08-10', '2024-08-17', '2024-08-24']);
+    expect(team1[1].rating_before).toBeCloseTo(team1[0].rating_after);
+    expect(team1[0].expected_score).toBeCloseTo(expectedScore(HOME_ADVANTAGE));
+
+    // Ratings are zero-sum between two teams of the same league
+    const total = result.ratings.reduce((sum, rating) => sum + rating.rating, 0);
+    expect(total).toBeCloseTo(INITIAL_RATING * 2);
+    expect(result.ratings.find(rating => rating.team_id === 1).matches_played).toBe(3);
+  });
+
+  test('should move the whole domestic league on cross-league results', () => {
+    // Teams 1 and 2 play in league 1, teams 3 and 4 in league 2
+    const domestic = [
+      match('2024-08-10', 1, 1, 2, 1, 1),
+      match('2024-08-10', 2, 3, 4, 1, 1),
+      match('2024-08-17', 1, 2, 1, 1, 1),
+      match('2024-08-17', 2, 4, 3, 1, 1)
+    ];
+    // Champions League: team 1 beats team 3 away
+    const cup = match('2024-09-18', 7, 3, 1, 0, 2);
+
+    const before = computeElo(domestic);
+    const after = computeElo([...domestic, cup]);
+    const rating = (result: typeof before, teamId: number) => result.ratings.find(row => row.team_id === teamId);
+    const shift = (teamId: number) => rating(after, teamId).rating - rating(before, teamId).rating;
+
+    const team1 = after.history.find(change => change.match_id === cup.id && change.team_id === 1);
+    const change = K_FACTOR * 1.5 * (1 - team1.expected_score);
+
+    expect(rating(after, 1).league_id).toBe(1);
+    expect(shift(1)).toBeCloseTo(change * (1 + LEAGUE_SHARE));
+    expect(shift(2)).toBeCloseTo(change * LEAGUE_SHARE);
+    expect(shift(4)).toBeCloseTo(-change * LEAGUE_SHARE);
+  });
+
+  test('should not take a cup for a team\'s domestic league', () => {
+    // Team 1 has played more Champions League than league matches so far
+    const matches = [
+      match('2024-08-17', 1, 1, 2, 1, 0),
+      match('2024-09-18', 7, 3, 1, 0, 2),
+      match('2024-10-01', 7, 1, 4, 1, 1)
+    ];
+    const leagueOf = (result: ReturnType<typeof computeElo>, teamId: number) =>
+      result.ratings.find(rating => rating.team_id === teamId).league_id;
+
+    expect(leagueOf(computeElo(matches), 1)).toBe(7);
+
+    const result = computeElo(matches, [7]);
+    expect(leagueOf(result, 1)).toBe(1);
+    expect(leagueOf(result, 3)).toBeNull();
+  });
+
+  test('should skip matches without a score', () => {
+    const result = computeElo([{ ...match('2024-08-10', 1, 1, 2, 0, 0), home_goals: null, away_goals: null }]);
+
+    expect(result.ratings).toHaveLength(0);
+    expect(result.history).toHaveLength(0);
+  });
+});
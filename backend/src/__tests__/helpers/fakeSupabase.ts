@@ -0,0 +1,238 @@
+// In-memory stand-in for the parts of the Supabase query builder the services
+// use: filters, ordering, paging and single-row reads over plain table arrays.
+// Embedded selects (joins) are not supported; columns are ignored and whole
+// rows come back.
+
+type Row = Record<string, any>;
+type Operation = 'select' | 'insert' | 'update' | 'delete' | 'upsert';
+
+export class FakeSupabase {
+  tables: Record<string, Row[]> = {};
+  private nextIds: Record<string, number> = {};
+  private failures: { table: string; operation: Operation; message: string; code?: string }[] = [];
+
+  constructor(tables: Record<string, Row[]> = {}) {
+    for (const [table, rows] of Object.entries(tables)) {
+      this.tables[table] = rows.map(row => ({ ...row }));
+    }
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables[table]) this.tables[table] = [];
+    return this.tables[table];
+  }
+
+  // Makes every later operation of the kind on the table return an error,
+  // optionally with a Postgres error code
+  fail(table: string, operation: Operation, message: string = `${operation} on ${table} failed`, code?: string): void {
+    this.failures.push({ table, operation, message, code });
+  }
+
+  failure(table: string, operation: Operation): { message: string; code?: string } | null {
+    const failure = this.failures.find(entry => entry.table === table && entry.operation === operation);
+    return failure ? { message: failure.message, code: failure.code } : null;
+  }
+
+  nextId(table: string): number {
+    const used = Math.max(0, ...this.rows(table).map(row => Number(row.id) || 0));
+    this.nextIds[table] = Math.max(this.nextIds[table] || 0, used) + 1;
+    return this.nextIds[table];
+  }
+}
+
+class FakeQuery implements PromiseLike<{ data: any; error: any }> {
+  private operation: Operation | null = null;
+  private values: Row[] = [];
+  private changes: Row = {};
+  private onConflict: string[] = [];
+  private ignoreDuplicates = false;
+  private filters: ((row: Row) => boolean)[] = [];
+  private orderings: { column: string; ascending: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+  private maxRows: number | null = null;
+  private returning = false;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private db: FakeSupabase, private table: string) {}
+
+  select(_columns?: string): this {
+    if (this.operation) {
+      this.returning = true;
+    } else {
+      this.operation = 'select';
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.operation = 'upsert';
+    this.values = Array.isArray(values) ? values : [values];
+    this.onConflict = (options.onConflict || 'id').split(',').map(column => column.trim());
+    this.ignoreDuplicates = options.ignoreDuplicates || false;
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.operation = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: any): this {
+    this.filters.push(row => same(row[column], value));
+    return this;
+  }
+
+  neq(column: string, value: any): this {
+    this.filters.push(row => !same(row[column], value));
+    return this;
+  }
+
+  in(column: string, values: any[]): this {
+    this.filters.push(row => values.some(value => same(row[column], value)));
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  not(column: string, operator: string, value: any): this {
+    if (operator !== 'is') throw new Error(`FakeSupabase does not support not(${operator})`);
+    this.filters.push(row => (row[column] ?? null) !== value);
+    return this;
+  }
+
+  gte(column: string, value: any): this {
+    this.filters.push(row => row[column] !== null && row[column] !== undefined && row[column] >= value);
+    return this;
+  }
+
+  lte(column: string, value: any): this {
+    this.filters.push(row => row[column] !== null && row[column] !== undefined && row[column] <= value);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orderings.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.mode = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = { data: any; error: any }, TResult2 = never>(
+    onfulfilled?: ((value: { data: any; error: any }) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): { data: any; error: any } {
+    const operation = this.operation || 'select';
+    const error = this.db.failure(this.table, operation);
+    if (error) return { data: null, error };
+
+    const table = this.db.rows(this.table);
+    const matches = (row: Row) => this.filters.every(filter => filter(row));
+    let result: Row[];
+
+    switch (operation) {
+      case 'select':
+        result = table.filter(matches);
+        break;
+      case 'insert':
+        result = this.values.map(values => this.add(table, values));
+        break;
+      case 'upsert':
+        result = [];
+        for (const values of this.values) {
+          const existing = table.find(row => this.onConflict.every(column => same(row[column], values[column] ?? null)));
+          if (!existing) {
+            result.push(this.add(table, values));
+          } else if (!this.ignoreDuplicates) {
+            Object.assign(existing, values);
+            result.push(existing);
+          }
+        }
+        break;
+      case 'update':
+        result = table.filter(matches);
+        result.forEach(row => Object.assign(row, this.changes));
+        break;
+      case 'delete':
+        result = table.filter(matches);
+        this.db.tables[this.table] = table.filter(row => !matches(row));
+        break;
+    }
+
+    if (operation !== 'select' && !this.returning && this.mode === 'many') {
+      return { data: null, error: null };
+    }
+
+    let rows = this.sort(result).map(row => ({ ...row }));
+    if (this.window) rows = rows.slice(this.window.from, this.window.to + 1);
+    if (this.maxRows !== null) rows = rows.slice(0, this.maxRows);
+
+    if (this.mode === 'many') return { data: rows, error: null };
+    if (rows.length > 1) return { data: null, error: { message: 'multiple rows returned' } };
+    if (rows.length === 0 && this.mode === 'single') return { data: null, error: { message: 'no rows returned' } };
+    return { data: rows[0] || null, error: null };
+  }
+
+  private add(table: Row[], values: Row): Row {
+    const row = { ...values, id: values.id ?? this.db.nextId(this.table) };
+    table.push(row);
+    return row;
+  }
+
+  private sort(rows: Row[]): Row[] {
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orderings) {
+        if (a[column] === b[column]) continue;
+        const order = a[column] < b[column] ? -1 : 1;
+        return ascending ? order : -order;
+      }
+      return 0;
+    });
+  }
+}
+
+// Ids and numeric columns come back from PostgREST as numbers or strings
+function same(a: any, b: any): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) return (a ?? null) === (b ?? null);
+  return String(a) === String(b);
+}
@@ -0,0 +1,58 @@
+import { scorelineMatrix } from '../services/dixonColes';
+import { ASIAN_HANDICAP_LINES, findMarket, GOAL_LINES, lossProbability, priceMarkets, settleLine } from '../services/predictionMarkets';
+
+describe('predictionMarkets', () => {
+  const matrix = scorelineMatrix({ home: 1.7, away: 1.0 }, -0.05);
+  const markets = priceMarkets(matrix);
+  const find = (market: any, selection: string, line: number | null) => findMarket(markets, market, selection, line)!;
+
+  test('should settle whole, half and quarter lines', () => {
+    expect(settleLine(1, 0)).toBe(1);
+    expect(settleLine(0, 0)).toBe(0);
+    expect(settleLine(-0.5, -0.5)).toBe(-1);
+    // Home -0.25 on a draw: half on 0 pushes, half on -0.5 loses
+    expect(settleLine(-0.25, -0.25)).toBe(-0.5);
+    // Home -0.75 winning by one: half on -0.5 wins, half on -1 pushes
+    expect(settleLine(0.25, -0.75)).toBe(0.5);
+  });
+
+  test('should price every goal line and handicap in quarter steps', () => {
+    expect(GOAL_LINES[0]).toBe(0.5);
+    expect(GOAL_LINES[GOAL_LINES.length - 1]).toBe(5.5);
+    expect(ASIAN_HANDICAP_LINES).toHaveLength(29);
+    expect(markets).toHaveLength(8 + GOAL_LINES.length * 2 + ASIAN_HANDICAP_LINES.length * 2);
+  });
+
+  test('should split a quarter line between its neighbouring lines', () => {
+    const homeWin = find('MATCH_WINNER', 'HOME', null).probability;
+    const draw = find('MATCH_WINNER', 'DRAW', null).probability;
+
+    const level = find('ASIAN_HANDICAP', 'HOME', 0);
+    expect(level.probability).toBeCloseTo(homeWin);
+    expect(level.push_probability).toBeCloseTo(draw);
+
+    const quarter = find('ASIAN_HANDICAP', 'HOME', -0.25);
+    expect(quarter.probability).toBeCloseTo(homeWin);
+    expect(quarter.half_loss_probability).toBeCloseTo(draw);
+    expect(lossProbability(quarter)).toBeCloseTo(1 - homeWin - draw);
+
+    const away = find('ASIAN_HANDICAP', 'AWAY', 0.25);
+    expect(away.half_win_probability).toBeCloseTo(draw);
+    expect(lossProbability(away)).toBeCloseTo(homeWin);
+  });
+
+  test('should mirror overs and unders on each goal line', () => {
+    const over = find('OVER_UNDER', 'OVER', 2.5);
+    const under = find('OVER_UNDER', 'UNDER', 2.5);
+    expect(over.probability + under.probability).toBeCloseTo(1);
+
+    const whole = find('OVER_UNDER', 'OVER', 2);
+    const exactlyTwo = matrix[2][0] + matrix[1][1] + matrix[0][2];
+    expect(whole.push_probability).toBeCloseTo(exactlyTwo);
+    expect(whole.probability).toBeCloseTo(over.probability);
+
+    const quarter = find('OVER_UNDER', 'UNDER', 2.75);
+    expect(quarter.probability).toBeCloseTo(under.probability);
+    expect(quarter.half_loss_probability).toBeCloseTo(matrix[3][0] + matrix[2][1] + matrix[1][2] + matrix[0][3]);
+  });
+});
@@ -0,0 +1,83 @@
+import { fitDixonColes, marketProbabilities } from '../services/dixonColes';
+import { blendMatrices, matrixExpectedGoals, PredictorInput, runPredictors } from '../services/predictors';
+import { fitXgStrengths } from '../services/xgStrength';
+import { NO_ABSENCE_IMPACT } from '../services/absenceImpact';
+import { PredictionModel, PredictorKind, TeamFormStats } from '../types';
+
+function model(id: number, name: string, kind: PredictorKind, weights?: Record<string, number>): PredictionModel {
+  return {
+    id,
+    name,
+    version: '1',
+    kind,
+    config: weights ? { weights } : {},
+    active: true,
+    description: null,
+    created_at: '2024-08-01T00:00:00Z',
+    updated_at: '2024-08-01T00:00:00Z'
+  };
+}
+
+function form(scored: number, conceded: number): TeamFormStats {
+  return {
+    recentForm: ['W', 'D', 'W', 'L', 'W'],
+    goalsScored: scored * 5,
+    goalsConceded: conceded * 5,
+    cleanSheets: 0,
+    failedToScore: 0,
+    averageGoalsScored: scored,
+    averageGoalsConceded: conceded
+  };
+}
+
+const input: PredictorInput = {
+  homeTeamId: 1,
+  awayTeamId: 2,
+  goalModel: fitDixonColes([]),
+  xgStrengths: fitXgStrengths([]),
+  homeForm: form(2, 0.8),
+  awayForm: form(1, 1.6),
+  ratingDifference: 150,
+  homeAbsences: NO_ABSENCE_IMPACT,
+  awayAbsences: NO_ABSENCE_IMPACT
+};
+
+const models = [
+  model(1, 'heuristic', 'heuristic'),
+  model(2, 'poisson', 'poisson'),
+  model(3, 'elo', 'elo'),
+  model(4, 'xg', 'xg'),
+  model(5, 'ensemble', 'ensemble', { poisson: 0.5, xg: 0.3, elo: 0.2 })
+];
+
+describe('predictors', () => {
+  test('should run every model that has the data it needs', () => {
+    const matrices = runPredictors(models, input);
+
+    // No team has enough xG matches
+    expect([...matrices.keys()].sort()).toEqual([1, 2, 3, 5]);
+    expect(marketProbabilities(matrices.get(3)).homeWin).toBeGreaterThan(marketProbabilities(matrices.get(2)).homeWin);
+    expect(matrixExpectedGoals(matrices.get(1)).home).toBeCloseTo(1.8, 1);
+  });
+
+  test('should blend ensemble components by weight, skipping missing ones', () => {
+    const matrices = runPredictors(models, input);
+    const expected = blendMatrices([
+      { matrix: matrices.get(2), weight: 0.5 },
+      { matrix: matrices.get(3), weight: 0.2 }
+    ]);
+
+    expect(matrices.get(5)[1][0]).toBeCloseTo(expected[1][0]);
+    expect(matrices.get(5)[1][0]).toBeCloseTo((matrices.get(2)[1][0] * 0.5 + matrices.get(3)[1][0] * 0.2) / 0.7);
+
+    const total = matrices.get(5).reduce((sum, row) => sum + row.reduce((acc, p) => acc + p, 0), 0);
+    expect(total).toBeCloseTo(1);
+  });
+
+  test('should leave out the Elo model until both teams are rated', () => {
+    const matrices = runPredictors(models, { ...input, ratingDifference: null });
+
+    expect(matrices.has(3)).toBe(false);
+    expect(matrices.get(5)).toEqual(matrices.get(2));
+  });
+});
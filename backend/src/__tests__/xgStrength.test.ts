@@ -0,0 +1,58 @@
+import { expectedGoalsFromXg, fitXgStrengths, ROLLING_MATCHES, SHOT_ON_TARGET_XG, statisticsXg } from '../services/xgStrength';
+import { XgMatch } from '../types';
+
+function day(n: number): string {
+  return new Date(Date.UTC(2024, 7, 1) + n * 86400000).toISOString();
+}
+
+// Team 1 creates a lot and concedes little against teams 2 and 3, who are even
+function season(): XgMatch[] {
+  const matches: XgMatch[] = [];
+  for (let n = 0; n < 12; n++) {
+    matches.push({ date: day(n * 3), home_team_id: 1, away_team_id: 2 + (n % 2), home_xg: 2.4, away_xg: 0.6 });
+    matches.push({ date: day(n * 3 + 1), home_team_id: 2 + (n % 2), away_team_id: 1, home_xg: 0.8, away_xg: 1.8 });
+    matches.push({ date: day(n * 3 + 2), home_team_id: 2, away_team_id: 3, home_xg: 1.4, away_xg: 1.2 });
+  }
+  return matches;
+}
+
+describe('xgStrength', () => {
+  test('should fall back to shots on target when xG is missing', () => {
+    expect(statisticsXg({ expected_goals: 1.7, shots_on_goal: 9 })).toBeCloseTo(1.7);
+    expect(statisticsXg({ expected_goals: null, shots_on_goal: 5 })).toBeCloseTo(5 * SHOT_ON_TARGET_XG);
+    expect(statisticsXg({ expected_goals: null, shots_on_goal: null })).toBeNull();
+    expect(statisticsXg(undefined)).toBeNull();
+  });
+
+  test('should rate the side that creates more and concedes less above average', () => {
+    const strengths = fitXgStrengths(season(), new Date(day(40)));
+
+    expect(strengths.teams[1].attack).toBeGreaterThan(1);
+    expect(strengths.teams[1].defence).toBeLessThan(1);
+    expect(strengths.teams[2].attack).toBeLessThan(1);
+    expect(strengths.teams[1].matches).toBe(ROLLING_MATCHES);
+
+    const goals = expectedGoalsFromXg(strengths, 1, 2);
+    expect(goals.home).toBeGreaterThan(strengths.homeAverage);
+    expect(goals.away).toBeLessThan(strengths.awayAverage);
+  });
+
+  test('should ignore matches without xG and after the fit date', () => {
+    const matches = season();
+    matches.push({ date: day(0.5), home_team_id: 4, away_team_id: 1, home_xg: null, away_xg: 1.0 });
+
+    const strengths = fitXgStrengths(matches, new Date(day(3)));
+
+    expect(strengths.matches).toBe(3);
+    expect(strengths.teams[4]).toBeUndefined();
+  });
+
+  test('should use league averages for unknown teams', () => {
+    const strengths = fitXgStrengths([]);
+    const goals = expectedGoalsFromXg(strengths, 1, 2);
+
+    expect(strengths.matches).toBe(0);
+    expect(goals.home).toBeCloseTo(strengths.homeAverage);
+    expect(goals.away).toBeCloseTo(strengths.awayAverage);
+  });
+});
@@ -15,10 +15,23 @@ import matchesRoutes from './routes/matches';
 import teamsRoutes from './routes/teams';
 import leaguesRoutes from './routes/leagues';
 import authRoutes from './routes/auth';
+import adminRoutes from './routes/admin';
+import playersRoutes from './routes/players';
+import ratingsRoutes from './routes/ratings';
 
 // Import services
 import { DataService } from './services/DataService';
 import { PredictionService } from './services/PredictionService';
+import { BackfillService } from './services/BackfillService';
+import { ValueBetService } from './services/ValueBetService';
+import { StandingsService } from './services/StandingsService';
+import { BracketService } from './services/BracketService';
+import { RatingService } from './services/RatingService';
+import { ModelRegistry } from './services/ModelRegistry';
+import { BacktestService } from './services/BacktestService';
+import { SettlementService } from './services/SettlementService';
+import { PerformanceService } from './services/PerformanceService';
+import { CalibrationService } from './services/CalibrationService';
 
 // Load environment variables
 dotenv.config();
@@ -44,20 +57,34 @@ if (process.env.NODE_ENV !== 'production') {
   }));
 }
 
-// Initialize Supabase client
+// Initialize Supabase clients: the anon one for auth and the routes, the
+// service role one for the services, which replace and merge rows that RLS
+// does not let the public key delete
 const supabaseUrl = process.env.SUPABASE_URL!;
 const supabaseKey = process.env.SUPABASE_ANON_KEY!;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 
-if (!supabaseUrl || !supabaseKey) {
+if (!supabaseUrl || !supabaseKey || !supabaseServiceKey) {
   logger.error('Missing Supabase environment variables');
   process.exit(1);
 }
 
 export const supabase = createClient(supabaseUrl, supabaseKey);
+const serviceSupabase = createClient(supabaseUrl, supabaseServiceKey);
 
 // Initialize services
-const dataService = new DataService(supabase, logger);
-const predictionService = new PredictionService(supabase, logger);
+export const dataService = new DataService(serviceSupabase, logger);
+export const predictionService = new PredictionService(serviceSupabase, logger);
+export const backfillService = new BackfillService(serviceSupabase, logger, dataService);
+export const valueBetService = new ValueBetService(serviceSupabase, logger);
+export const standingsService = new StandingsService(serviceSupabase, logger, dataService);
+export const bracketService = new BracketService(serviceSupabase, logger, dataService);
+export const ratingService = new RatingService(serviceSupabase, logger);
+export const modelRegistry = new ModelRegistry(serviceSupabase, logger);
+export const backtestService = new BacktestService(serviceSupabase, logger);
+export const settlementService = new SettlementService(serviceSupabase, logger);
+export const performanceService = new PerformanceService(serviceSupabase, logger);
+export const calibrationService = new CalibrationService(serviceSupabase, logger);
 
 // Create Express app
 const app = express();
@@ -182,7 +209,8 @@ app.get('/api/db-status', async (req, res) => {
     res.json({
       success: true,
       database: 'Supabase',
-      tables: tableStatus
+      tables: tableStatus,
+      apiQuota: dataService.getQuotaStatus()
     });
     
   } catch (error) {
@@ -309,14 +337,12 @@ app.post('/api/add-sample-data', async (req, res) => {
         draw_probability: 0.28,
         away_win_probability: 0.27,
         both_teams_score_probability: 0.65,
-        over_2_5_goals_probability: 0.55,
-        under_2_5_goals_probability: 0.45,
         home_win_or_draw_probability: 0.73,
         away_win_or_draw_probability: 0.55,
-        home_handicap_1_5_probability: 0.35,
-        away_handicap_1_5_probability: 0.25,
         confidence_score: 0.75,
-        prediction_date: new Date().toISOString()
+        published: true,
+        generated_at: new Date().toISOString(),
+        inputs_hash: 'sample'
       })
       .select()
       .single();
@@ -355,7 +381,10 @@ app.use('/api/predictions', predictionsRoutes);
 app.use('/api/matches', matchesRoutes);
 app.use('/api/teams', teamsRoutes);
 app.use('/api/leagues', leaguesRoutes);
+app.use('/api/players', playersRoutes);
+app.use('/api/ratings', ratingsRoutes);
 app.use('/api/auth', authRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -384,6 +413,73 @@ const scheduleDataUpdates = () => {
     }
   });
 
+  // Refresh player season statistics once a day
+  cron.schedule('30 4 * * *', async () => {
+    logger.info('Starting scheduled player statistics update');
+    try {
+      await dataService.updatePlayerData();
+    } catch (error) {
+      logger.error('Scheduled player statistics update failed:', error);
+    }
+  });
+
+  // Poll line-ups for kickoffs in the next 90 minutes every 15 minutes and
+  // regenerate predictions once they are confirmed
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      const matchIds = await dataService.refreshUpcomingLineups();
+      for (const matchId of matchIds) {
+        await predictionService.regeneratePrediction(matchId);
+      }
+
+      if (matchIds.length > 0) {
+        logger.info(`Regenerated predictions for ${matchIds.length} matches with new lineups`);
+      }
+    } catch (error) {
+      logger.error('Scheduled lineup refresh failed:', error);
+    }
+  });
+
+  // Mark closing predictions of matches that kicked off and settle the
+  // markets of finished ones every 15 minutes
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      await settlementService.settlePredictions();
+    } catch (error) {
+      logger.error('Scheduled prediction settlement failed:', error);
+    }
+  });
+
+  // Pick up bookmaker files dropped into ODDS_DROP_DIR
+  cron.schedule('*/10 * * * *', async () => {
+    try {
+      await dataService.importOddsDropFolder();
+    } catch (error) {
+      logger.error('Scheduled odds import failed:', error);
+    }
+  });
+
+  // Refit every active model's calibration curves on its settled predictions
+  cron.schedule('15 5 * * *', async () => {
+    logger.info('Starting scheduled calibration fit');
+    try {
+      await calibrationService.fitActiveModels();
+    } catch (error) {
+      logger.error('Scheduled calibration fit failed:', error);
+    }
+  });
+
+  // Replay every finished match into the Elo ratings once a day, ahead of the
+  // next prediction run
+  cron.schedule('45 5 * * *', async () => {
+    logger.info('Starting scheduled rating rebuild');
+    try {
+      await ratingService.rebuildRatings();
+    } catch (error) {
+      logger.error('Scheduled rating rebuild failed:', error);
+    }
+  });
+
   // Generate predictions every 2 hours
   cron.schedule('0 */2 * * *', async () => {
     logger.info('Starting scheduled prediction generation');
@@ -0,0 +1,130 @@
+import axios from 'axios';
+import winston from 'winston';
+import {
+  FootballDataProvider,
+  ProviderAbsence,
+  ProviderEndpoint,
+  ProviderEndpointData,
+  ProviderFixture,
+  ProviderFixtureEvent,
+  ProviderLeague,
+  ProviderLineup,
+  ProviderOdds,
+  ProviderPlayer,
+  ProviderRequestOptions,
+  ProviderTeam,
+  ProviderTeamStatistics,
+  QuotaStatus
+} from '../types';
+import { RequestScheduler } from '../services/RequestScheduler';
+import { parseResponse } from './apiFootballParser';
+
+export class ApiFootballProvider implements FootballDataProvider {
+  readonly name = 'api-football';
+  private logger: winston.Logger;
+  private scheduler: RequestScheduler;
+  private apiKey: string;
+  private baseUrl = 'https://v3.football.api-sports.io';
+
+  constructor(logger: winston.Logger, scheduler: RequestScheduler, apiKey: string = process.env.API_FOOTBALL_KEY || '') {
+    this.logger = logger;
+    this.scheduler = scheduler;
+    this.apiKey = apiKey;
+
+    if (!this.apiKey) {
+      this.logger.error('API Football key not found in environment variables');
+    }
+  }
+
+  async getLeague(leagueId: number, season?: number, options: ProviderRequestOptions = {}): Promise<ProviderLeague | null> {
+    return this.request('leagues', season ? { id: leagueId, season } : { id: leagueId }, options);
+  }
+
+  async getTeams(leagueId: number, season: number, options: ProviderRequestOptions = {}): Promise<ProviderTeam[]> {
+    return this.request('teams', { league: leagueId, season }, options);
+  }
+
+  async getFixtures(leagueId: number, season: number, fromDate: string, toDate: string, options: ProviderRequestOptions = {}): Promise<ProviderFixture[]> {
+    return this.request('fixtures', {
+      league: leagueId,
+      season,
+      from: fromDate,
+      to: toDate
+    }, options);
+  }
+
+  async getFixtureStatistics(fixtureId: number, options: ProviderRequestOptions = {}): Promise<ProviderTeamStatistics[]> {
+    return this.request('fixtures/statistics', { fixture: fixtureId }, options);
+  }
+
+  async getFixtureEvents(fixtureId: number, options: ProviderRequestOptions = {}): Promise<ProviderFixtureEvent[]> {
+    return this.request('fixtures/events', { fixture: fixtureId }, options);
+  }
+
+  async getFixtureLineups(fixtureId: number, options: ProviderRequestOptions = {}): Promise<ProviderLineup[]> {
+    return this.request('fixtures/lineups', { fixture: fixtureId }, options);
+  }
+
+  async getFixtureAbsences(fixtureId: number, options: ProviderRequestOptions = {}): Promise<ProviderAbsence[]> {
+    return this.request('injuries', { fixture: fixtureId }, options);
+  }
+
+  async getFixtureOdds(fixtureId: number, options: ProviderRequestOptions = {}): Promise<ProviderOdds[]> {
+    return this.request('odds', { fixture: fixtureId }, options);
+  }
+
+  async getPlayers(leagueId: number, season: number, options: ProviderRequestOptions = {}): Promise<ProviderPlayer[]> {
+    return this.request('players', { league: leagueId, season }, options);
+  }
+
+  // Players come back 20 per page; every page costs one request and the
+  // response is the list of page bodies
+  async fetchResponse(endpoint: ProviderEndpoint, params: Record<string, string | number>, options: ProviderRequestOptions = {}): Promise<any> {
+    if (endpoint !== 'players') {
+      return this.makeRawApiRequest(`/${endpoint}`, params, options);
+    }
+
+    const pages: any[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const body = await this.makeRawApiRequest('/players', { ...params, page }, options);
+      pages.push(body);
+      totalPages = body?.paging?.total || 1;
+      page++;
+    } while (page <= totalPages);
+
+    return pages;
+  }
+
+  parseResponse<E extends ProviderEndpoint>(endpoint: E, body: any): ProviderEndpointData[E] {
+    return parseResponse(endpoint, body);
+  }
+
+  getQuotaStatus(): QuotaStatus {
+    return this.scheduler.getStatus();
+  }
+
+  private async request<E extends ProviderEndpoint>(endpoint: E, params: Record<string, string | number>, options: ProviderRequestOptions): Promise<ProviderEndpointData[E]> {
+    return this.parseResponse(endpoint, await this.fetchResponse(endpoint, params, options));
+  }
+
+  // Full response body, including the paging block
+  private async makeRawApiRequest(endpoint: string, params: Record<string, string | number>, options: ProviderRequestOptions): Promise<any> {
+    try {
+      const response = await this.scheduler.schedule(() => axios.get(`${this.baseUrl}${endpoint}`, {
+        params,
+        headers: {
+          'x-rapidapi-host': 'v3.football.api-sports.io',
+          'x-rapidapi-key': this.apiKey
+        }
+      }), options.priority);
+
+      return response.data;
+    } catch (error) {
+      this.logger.error(`API request failed for ${endpoint}:`, error);
+      throw error;
+    }
+  }
+}
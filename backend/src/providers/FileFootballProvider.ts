@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import winston from 'winston';
+import {
+  FootballDataProvider,
+  ProviderAbsence,
+  ProviderEndpoint,
+  ProviderEndpointData,
+  ProviderFixture,
+  ProviderFixtureEvent,
+  ProviderLeague,
+  ProviderLineup,
+  ProviderOdds,
+  ProviderPlayer,
+  ProviderTeam,
+  ProviderTeamStatistics
+} from '../types';
+import { parseResponse } from './apiFootballParser';
+
+// Recording directory of each endpoint
+const RECORDING_DIRS: Record<ProviderEndpoint, string> = {
+  'leagues': 'leagues',
+  'teams': 'teams',
+  'fixtures': 'fixtures',
+  'fixtures/statistics': 'statistics',
+  'fixtures/events': 'events',
+  'fixtures/lineups': 'lineups',
+  'injuries': 'injuries',
+  'odds': 'odds',
+  'players': 'players'
+};
+
+// Reads recorded API-Football response bodies from disk so ingestion can run
+// offline. Expected layout under the recordings directory:
+//   leagues/<leagueId>.json (all seasons) or leagues/<leagueId>-<season>.json
+//   teams/<leagueId>-<season>.json
+//   fixtures/<leagueId>-<season>.json
+//   statistics/<fixtureId>.json
+//   events/<fixtureId>.json
+//   lineups/<fixtureId>.json
+//   injuries/<fixtureId>.json
+//   odds/<fixtureId>.json
+//   players/<leagueId>-<season>.json (all pages merged into one response)
+export class FileFootballProvider implements FootballDataProvider {
+  readonly name = 'file';
+  private logger: winston.Logger;
+  private baseDir: string;
+
+  constructor(logger: winston.Logger, baseDir: string = process.env.DATA_RECORDINGS_DIR || path.join(process.cwd(), 'recordings')) {
+    this.logger = logger;
+    this.baseDir = baseDir;
+  }
+
+  async getLeague(leagueId: number, season?: number): Promise<ProviderLeague | null> {
+    return this.request('leagues', season ? { id: leagueId, season } : { id: leagueId });
+  }
+
+  async getTeams(leagueId: number, season: number): Promise<ProviderTeam[]> {
+    return this.request('teams', { league: leagueId, season });
+  }
+
+  async getFixtures(leagueId: number, season: number, fromDate: string, toDate: string): Promise<ProviderFixture[]> {
+    return this.request('fixtures', { league: leagueId, season, from: fromDate, to: toDate });
+  }
+
+  async getFixtureStatistics(fixtureId: number): Promise<ProviderTeamStatistics[]> {
+    return this.request('fixtures/statistics', { fixture: fixtureId });
+  }
+
+  async getFixtureEvents(fixtureId: number): Promise<ProviderFixtureEvent[]> {
+    return this.request('fixtures/events', { fixture: fixtureId });
+  }
+
+  async getFixtureLineups(fixtureId: number): Promise<ProviderLineup[]> {
+    return this.request('fixtures/lineups', { fixture: fixtureId });
+  }
+
+  async getFixtureAbsences(fixtureId: number): Promise<ProviderAbsence[]> {
+    return this.request('injuries', { fixture: fixtureId });
+  }
+
+  async getFixtureOdds(fixtureId: number): Promise<ProviderOdds[]> {
+    return this.request('odds', { fixture: fixtureId });
+  }
+
+  async getPlayers(leagueId: number, season: number): Promise<ProviderPlayer[]> {
+    return this.request('players', { league: leagueId, season });
+  }
+
+  async fetchResponse(endpoint: ProviderEndpoint, params: Record<string, string | number>): Promise<any> {
+    const body = await this.readRecording(RECORDING_DIRS[endpoint], this.recordingKey(endpoint, params));
+    if (endpoint !== 'fixtures' || !params.from || !params.to) return body;
+
+    // Recordings hold a whole season, so apply the date window the API would
+    const fromDate = String(params.from);
+    const toDate = String(params.to);
+    return {
+      ...body,
+      response: (body.response || []).filter((entry: any) => {
+        const day = String(entry.fixture?.date || '').slice(0, 10);
+        return day >= fromDate && day <= toDate;
+      })
+    };
+  }
+
+  parseResponse<E extends ProviderEndpoint>(endpoint: E, body: any): ProviderEndpointData[E] {
+    return parseResponse(endpoint, body);
+  }
+
+  private async request<E extends ProviderEndpoint>(endpoint: E, params: Record<string, string | number>): Promise<ProviderEndpointData[E]> {
+    return this.parseResponse(endpoint, await this.fetchResponse(endpoint, params));
+  }
+
+  private recordingKey(endpoint: ProviderEndpoint, params: Record<string, string | number>): string {
+    if (endpoint === 'leagues') return params.season ? `${params.id}-${params.season}` : `${params.id}`;
+    if (params.fixture) return `${params.fixture}`;
+    return `${params.league}-${params.season}`;
+  }
+
+  private async readRecording(endpoint: string, key: string): Promise<any> {
+    const filePath = path.join(this.baseDir, endpoint, `${key}.json`);
+
+    try {
+      const contents = await fs.promises.readFile(filePath, 'utf8');
+      return JSON.parse(contents);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.logger.warn(`No recording found at ${filePath}`);
+        return { response: [] };
+      }
+
+      this.logger.error(`Failed to read recording ${filePath}:`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,362 @@
+import {
+  Absence,
+  CompetitionStage,
+  Match,
+  MatchStatisticsValues,
+  ProviderAbsence,
+  ProviderEndpoint,
+  ProviderEndpointData,
+  ProviderFixture,
+  ProviderFixtureEvent,
+  ProviderLeague,
+  ProviderLineup,
+  ProviderLineupPlayer,
+  ProviderOdds,
+  ProviderPlayer,
+  ProviderPlayerStatistics,
+  ProviderScore,
+  ProviderTeam,
+  ProviderTeamStatistics,
+  OddsMarket
+} from '../types';
+
+// API-Football bet names mapped to our markets
+const BET_MARKETS: Record<string, OddsMarket> = {
+  'Match Winner': 'MATCH_WINNER',
+  'Double Chance': 'DOUBLE_CHANCE',
+  'Goals Over/Under': 'OVER_UNDER',
+  'Both Teams Score': 'BOTH_TEAMS_SCORE',
+  'Asian Handicap': 'ASIAN_HANDICAP',
+  'Exact Score': 'CORRECT_SCORE'
+};
+
+const DOUBLE_CHANCE_SELECTIONS: Record<string, string> = {
+  'Home/Draw': 'HOME_DRAW',
+  'Home/Away': 'HOME_AWAY',
+  'Draw/Away': 'DRAW_AWAY'
+};
+
+// API-Football statistic labels mapped to our match_statistics columns
+const STATISTIC_TYPES: Record<string, keyof MatchStatisticsValues> = {
+  'Shots on Goal': 'shots_on_goal',
+  'Shots off Goal': 'shots_off_goal',
+  'Total Shots': 'total_shots',
+  'Blocked Shots': 'blocked_shots',
+  'Shots insidebox': 'shots_inside_box',
+  'Shots outsidebox': 'shots_outside_box',
+  'Fouls': 'fouls',
+  'Corner Kicks': 'corner_kicks',
+  'Offsides': 'offsides',
+  'Ball Possession': 'ball_possession',
+  'Yellow Cards': 'yellow_cards',
+  'Red Cards': 'red_cards',
+  'Goalkeeper Saves': 'goalkeeper_saves',
+  'Total passes': 'total_passes',
+  'Passes accurate': 'passes_accurate',
+  'Passes %': 'passes_percentage',
+  'expected_goals': 'expected_goals',
+  'Expected Goals': 'expected_goals'
+};
+
+const RESPONSE_PARSERS: { [E in ProviderEndpoint]: (response: any[]) => ProviderEndpointData[E] } = {
+  'leagues': response => response.length > 0 ? parseLeague(response[0]) : null,
+  'teams': response => response.map(parseTeam),
+  'fixtures': response => response.map(parseFixture),
+  'fixtures/statistics': response => response.map(parseStatistics),
+  'fixtures/events': response => response.map(parseEvent),
+  'fixtures/lineups': response => response.map(parseLineup),
+  'injuries': response => response.map(parseAbsence),
+  'odds': response => response.flatMap(parseOdds),
+  'players': response => response.map(parsePlayer)
+};
+
+// Parses a whole response body, or the list of page bodies of a paged endpoint
+export function parseResponse<E extends ProviderEndpoint>(endpoint: E, body: any): ProviderEndpointData[E] {
+  const pages: any[] = Array.isArray(body) ? body : [body];
+  return RESPONSE_PARSERS[endpoint](pages.flatMap(page => page?.response || []));
+}
+
+export function parseLeague(data: any): ProviderLeague {
+  return {
+    externalId: data.league.id,
+    name: data.league.name,
+    country: data.country?.name,
+    logo: data.league.logo,
+    flag: data.country?.flag,
+    seasons: (data.seasons || []).map((season: any) => ({
+      year: season.year,
+      start: season.start,
+      end: season.end,
+      current: Boolean(season.current)
+    }))
+  };
+}
+
+export function parseTeam(data: any): ProviderTeam {
+  return {
+    externalId: data.team.id,
+    name: data.team.name,
+    code: data.team.code,
+    country: data.team.country,
+    founded: data.team.founded,
+    national: data.team.national,
+    logo: data.team.logo,
+    venue: data.venue?.id ? {
+      externalId: data.venue.id,
+      name: data.venue.name,
+      city: data.venue.city,
+      capacity: data.venue.capacity,
+      surface: data.venue.surface,
+      image: data.venue.image
+    } : null
+  };
+}
+
+export function parseFixture(data: any): ProviderFixture {
+  const fixture: ProviderFixture = {
+    externalId: data.fixture.id,
+    date: data.fixture.date,
+    referee: data.fixture.referee,
+    venueExternalId: data.fixture.venue?.id || null,
+    leagueExternalId: data.league.id,
+    season: data.league.season,
+    round: data.league.round,
+    ...parseRound(data.league.round),
+    homeTeamExternalId: data.teams.home.id,
+    awayTeamExternalId: data.teams.away.id,
+    goals: parseScore(data.goals),
+    halftime: parseScore(data.score?.halftime),
+    fulltime: parseScore(data.score?.fulltime),
+    extratime: parseScore(data.score?.extratime),
+    penalty: parseScore(data.score?.penalty),
+    status: mapFixtureStatus(data.fixture.status?.short),
+    elapsed: data.fixture.status?.elapsed ?? null
+  };
+
+  if (data.statistics && data.statistics.length > 0) {
+    fixture.statistics = data.statistics.map(parseStatistics);
+  }
+
+  return fixture;
+}
+
+export function parseStatistics(data: any): ProviderTeamStatistics {
+  const values: MatchStatisticsValues = {};
+
+  for (const stat of data.statistics || []) {
+    const column = STATISTIC_TYPES[stat.type];
+    if (column) {
+      values[column] = parseStatisticValue(stat.value);
+    }
+  }
+
+  return {
+    teamExternalId: data.team.id,
+    values
+  };
+}
+
+export function parseEvent(data: any): ProviderFixtureEvent {
+  return {
+    teamExternalId: data.team?.id ?? null,
+    elapsed: data.time?.elapsed ?? 0,
+    extraTime: data.time?.extra ?? null,
+    type: mapEventType(data.type),
+    detail: data.detail ?? null,
+    playerExternalId: data.player?.id ?? null,
+    playerName: data.player?.name ?? null,
+    assistExternalId: data.assist?.id ?? null,
+    assistName: data.assist?.name ?? null,
+    comments: data.comments ?? null
+  };
+}
+
+export function parseLineup(data: any): ProviderLineup {
+  return {
+    teamExternalId: data.team.id,
+    formation: data.formation ?? null,
+    coach: data.coach?.name ? {
+      externalId: data.coach.id ?? null,
+      name: data.coach.name,
+      photo: data.coach.photo ?? null
+    } : null,
+    startXI: (data.startXI || []).map(parseLineupPlayer),
+    substitutes: (data.substitutes || []).map(parseLineupPlayer)
+  };
+}
+
+function parseLineupPlayer(entry: any): ProviderLineupPlayer {
+  return {
+    externalId: entry.player?.id ?? null,
+    name: entry.player?.name,
+    number: entry.player?.number ?? null,
+    position: entry.player?.pos ?? null,
+    grid: entry.player?.grid ?? null
+  };
+}
+
+export function parsePlayer(data: any): ProviderPlayer {
+  return {
+    externalId: data.player.id,
+    name: data.player.name,
+    firstname: data.player.firstname ?? null,
+    lastname: data.player.lastname ?? null,
+    birthDate: data.player.birth?.date ?? null,
+    nationality: data.player.nationality ?? null,
+    photo: data.player.photo ?? null,
+    statistics: (data.statistics || []).map(parsePlayerStatistics)
+  };
+}
+
+function parsePlayerStatistics(data: any): ProviderPlayerStatistics {
+  return {
+    teamExternalId: data.team?.id,
+    leagueExternalId: data.league?.id,
+    season: data.league?.season,
+    position: data.games?.position ?? null,
+    appearances: data.games?.appearences || 0,
+    lineups: data.games?.lineups || 0,
+    minutes: data.games?.minutes || 0,
+    goals: data.goals?.total || 0,
+    assists: data.goals?.assists || 0,
+    // Not part of API-Football's player statistics, other providers may fill it
+    expectedGoals: parseStatisticValue(data.goals?.expected ?? null),
+    yellowCards: data.cards?.yellow || 0,
+    // Second yellows count as dismissals
+    redCards: (data.cards?.red || 0) + (data.cards?.yellowred || 0),
+    rating: parseStatisticValue(data.games?.rating ?? null)
+  };
+}
+
+export function parseAbsence(data: any): ProviderAbsence {
+  return {
+    teamExternalId: data.team.id,
+    playerExternalId: data.player?.id ?? null,
+    playerName: data.player?.name,
+    status: data.player?.type === 'Questionable' ? 'QUESTIONABLE' : 'MISSING',
+    kind: mapAbsenceKind(data.player?.reason),
+    reason: data.player?.reason ?? null
+  };
+}
+
+// API-Football only gives a free-text reason ("Red Card", "Knee Injury", "Illness")
+export function mapAbsenceKind(reason: string | null | undefined): Absence['kind'] {
+  if (!reason) return 'OTHER';
+  if (/suspen|red card|yellow card/i.test(reason)) return 'SUSPENSION';
+  if (/injur|knock|illness|virus|surgery|fracture|strain|sprain|concussion|muscle|ligament/i.test(reason)) return 'INJURY';
+  return 'OTHER';
+}
+
+// Flattens every bookmaker's prices for a fixture; unknown bets are skipped
+export function parseOdds(data: any): ProviderOdds[] {
+  const odds: ProviderOdds[] = [];
+
+  for (const bookmaker of data.bookmakers || []) {
+    for (const bet of bookmaker.bets || []) {
+      const market = BET_MARKETS[bet.name];
+      if (!market) continue;
+
+      for (const value of bet.values || []) {
+        const selection = parseOddsSelection(market, String(value.value));
+        const price = parseFloat(value.odd);
+        if (!selection || isNaN(price)) continue;
+
+        odds.push({
+          bookmaker: bookmaker.name,
+          market,
+          selection: selection.selection,
+          line: selection.line,
+          price,
+          capturedAt: data.update
+        });
+      }
+    }
+  }
+
+  return odds;
+}
+
+// "Home", "Over 2.5", "Away +1.5", "2:1" -> selection and line
+function parseOddsSelection(market: OddsMarket, value: string): { selection: string; line: number | null } | null {
+  switch (market) {
+    case 'MATCH_WINNER':
+    case 'BOTH_TEAMS_SCORE':
+      return { selection: value.toUpperCase(), line: null };
+    case 'DOUBLE_CHANCE':
+      return DOUBLE_CHANCE_SELECTIONS[value] ? { selection: DOUBLE_CHANCE_SELECTIONS[value], line: null } : null;
+    case 'OVER_UNDER':
+    case 'ASIAN_HANDICAP': {
+      const [selection, line] = value.split(' ');
+      const parsedLine = parseFloat(line);
+      return isNaN(parsedLine) ? null : { selection: selection.toUpperCase(), line: parsedLine };
+    }
+    case 'CORRECT_SCORE':
+      return { selection: value.replace(':', '-'), line: null };
+  }
+}
+
+export function mapEventType(type: string): ProviderFixtureEvent['type'] {
+  switch ((type || '').toLowerCase()) {
+    case 'goal': return 'GOAL';
+    case 'card': return 'CARD';
+    case 'subst': return 'SUBSTITUTION';
+    case 'var': return 'VAR';
+    default: return 'OTHER';
+  }
+}
+
+// Round names look like "Regular Season - 3", "Group A - 2", "League Stage - 8",
+// "2nd Qualifying Round", "Round of 16" or "Final"
+export function parseRound(round: string | null | undefined): Pick<ProviderFixture, 'stage' | 'group' | 'matchday' | 'leg'> {
+  const name = (round || '').trim();
+  if (!name) return { stage: null, group: null, matchday: null, leg: null };
+
+  const matchdayMatch = name.match(/ - (\d+)$/);
+  const matchday = matchdayMatch ? parseInt(matchdayMatch[1]) : null;
+  const legMatch = name.match(/(1st|2nd) leg/i);
+  const leg = legMatch ? (legMatch[1].toLowerCase() === '1st' ? 1 : 2) : null;
+
+  let stage: CompetitionStage;
+  let group: string | null = null;
+
+  const groupMatch = name.match(/^Group ([A-Z0-9]{1,2})\b/i);
+  if (groupMatch || /^Group Stage/i.test(name)) {
+    stage = 'GROUP';
+    group = groupMatch ? groupMatch[1].toUpperCase() : null;
+  } else if (/qualifying|preliminary|^play-offs?\b/i.test(name)) {
+    stage = 'QUALIFYING';
+  } else if (/round of|final|knockout|play-off/i.test(name)) {
+    stage = 'KNOCKOUT';
+  } else {
+    stage = 'LEAGUE';
+  }
+
+  return { stage, group, matchday, leg };
+}
+
+export function mapFixtureStatus(status: string): Match['status'] {
+  switch (status) {
+    case 'NS': case 'TBD': return 'SCHEDULED';
+    case '1H': case '2H': case 'HT': case 'ET': case 'BT': case 'P': case 'LIVE': return 'LIVE';
+    case 'FT': case 'AET': case 'PEN': return 'FINISHED';
+    case 'PST': case 'SUSP': case 'INT': return 'POSTPONED';
+    case 'CANC': case 'ABD': case 'AWD': case 'WO': return 'CANCELLED';
+    default: return 'SCHEDULED';
+  }
+}
+
+function parseScore(score: any): ProviderScore {
+  return {
+    home: score?.home ?? null,
+    away: score?.away ?? null
+  };
+}
+
+// Possession and pass accuracy come back as "55%", expected goals as "1.23"
+function parseStatisticValue(value: any): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+
+  const parsed = parseFloat(String(value).replace('%', ''));
+  return isNaN(parsed) ? null : parsed;
+}
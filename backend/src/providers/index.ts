@@ -0,0 +1,27 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import { FootballDataProvider, LeagueConfig } from '../types';
+import { RequestScheduler } from '../services/RequestScheduler';
+import { ApiFootballProvider } from './ApiFootballProvider';
+import { FileFootballProvider } from './FileFootballProvider';
+
+export const DEFAULT_PROVIDER = 'api-football';
+
+// Name of the provider serving a league, which also keys its external ids
+export function providerNameFor(league: LeagueConfig): string {
+  return process.env.DATA_PROVIDER || league.provider || DEFAULT_PROVIDER;
+}
+
+export function createProviders(supabase: SupabaseClient, logger: winston.Logger): Record<string, FootballDataProvider> {
+  const providers: FootballDataProvider[] = [
+    new ApiFootballProvider(logger, new RequestScheduler(supabase, logger, 'api-football')),
+    new FileFootballProvider(logger)
+  ];
+
+  return providers.reduce((map, provider) => {
+    map[provider.name] = provider;
+    return map;
+  }, {} as Record<string, FootballDataProvider>);
+}
+
+export { ApiFootballProvider, FileFootballProvider };
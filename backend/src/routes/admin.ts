@@ -0,0 +1,374 @@
+import express, { NextFunction, Request, Response } from 'express';
+import moment from 'moment';
+import { backfillService, backtestService, calibrationService, modelRegistry } from '../index';
+import {
+  ApiResponse,
+  Backtest,
+  BackfillOptions,
+  BacktestOptions,
+  PredictionCalibration,
+  PredictionModel,
+  PredictionModelConfig,
+  PredictorKind,
+  PublishedModel
+} from '../types';
+
+const router = express.Router();
+
+// Admin endpoints require the x-admin-key header to match ADMIN_API_KEY
+router.use((req: Request, res: Response, next: NextFunction) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    return res.status(503).json({
+      success: false,
+      error: 'Admin API is not configured'
+    } as ApiResponse<null>);
+  }
+
+  if (req.header('x-admin-key') !== adminKey) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid admin key'
+    } as ApiResponse<null>);
+  }
+
+  next();
+});
+
+// Get backfill progress
+router.get('/backfill', async (req: Request, res: Response) => {
+  try {
+    const status = await backfillService.getStatus();
+
+    res.json({
+      success: true,
+      data: status
+    } as ApiResponse<any>);
+
+  } catch (error) {
+    console.error('Error fetching backfill status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Start (or resume) the backfill
+router.post('/backfill/start', async (req: Request, res: Response) => {
+  try {
+    const { leagues, fromSeason, toSeason, includeStatistics } = req.body || {};
+
+    const options: BackfillOptions = {
+      leagues: Array.isArray(leagues) ? leagues.map(Number) : undefined,
+      fromSeason: fromSeason ? parseInt(fromSeason) : undefined,
+      toSeason: toSeason ? parseInt(toSeason) : undefined,
+      includeStatistics: includeStatistics === undefined ? undefined : Boolean(includeStatistics)
+    };
+
+    if (!backfillService.start(options)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Backfill is already running'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      message: 'Backfill started'
+    } as ApiResponse<null>);
+
+  } catch (error) {
+    console.error('Error starting backfill:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Stop the backfill after the current request
+router.post('/backfill/stop', async (req: Request, res: Response) => {
+  try {
+    if (!backfillService.stop()) {
+      return res.status(409).json({
+        success: false,
+        error: 'Backfill is not running'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      message: 'Backfill stopping'
+    } as ApiResponse<null>);
+
+  } catch (error) {
+    console.error('Error stopping backfill:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+const PREDICTOR_KINDS: PredictorKind[] = ['heuristic', 'poisson', 'elo', 'xg', 'ensemble'];
+const CALIBRATION_METHODS: PredictionModelConfig['calibration'][] = ['isotonic', 'platt', 'none'];
+
+// List registered prediction models, newest version first per name
+router.get('/models', async (req: Request, res: Response) => {
+  try {
+    const models = await modelRegistry.getModels();
+
+    res.json({
+      success: true,
+      data: models
+    } as ApiResponse<PredictionModel[]>);
+
+  } catch (error) {
+    console.error('Error fetching models:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Register a model version, e.g. an ensemble with new weights
+router.post('/models', async (req: Request, res: Response) => {
+  try {
+    const { name, version, kind, config, description } = req.body || {};
+
+    if (!name || !version || !PREDICTOR_KINDS.includes(kind)) {
+      return res.status(400).json({
+        success: false,
+        error: `name, version and a kind of ${PREDICTOR_KINDS.join(', ')} are required`
+      } as ApiResponse<null>);
+    }
+
+    const weights = config && config.weights;
+    const calibration = config && config.calibration;
+    if (kind === 'ensemble' && (!weights || Object.values(weights).some(weight => typeof weight !== 'number' || weight < 0))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Ensembles need config.weights with a non-negative weight per model name'
+      } as ApiResponse<null>);
+    }
+
+    if (calibration !== undefined && !CALIBRATION_METHODS.includes(calibration)) {
+      return res.status(400).json({
+        success: false,
+        error: `config.calibration must be one of ${CALIBRATION_METHODS.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    const model = await modelRegistry.createModel({
+      name: String(name),
+      version: String(version),
+      kind,
+      config: {
+        ...(kind === 'ensemble' ? { weights } : {}),
+        ...(calibration !== undefined ? { calibration } : {})
+      },
+      description: description || null
+    });
+
+    res.status(201).json({
+      success: true,
+      data: model
+    } as ApiResponse<PredictionModel>);
+
+  } catch (error) {
+    console.error('Error creating model:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Publish a model for a league
+router.post('/models/:id/publish', async (req: Request, res: Response) => {
+  try {
+    const modelId = parseInt(req.params.id);
+    const leagueId = parseInt((req.body || {}).league);
+
+    if (!modelId || !leagueId) {
+      return res.status(400).json({
+        success: false,
+        error: 'A model id and a league are required'
+      } as ApiResponse<null>);
+    }
+
+    const published = await modelRegistry.publishModel(leagueId, modelId);
+
+    res.json({
+      success: true,
+      data: published
+    } as ApiResponse<PublishedModel>);
+
+  } catch (error) {
+    console.error('Error publishing model:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Active calibration curves of a model with their reliability diagrams before
+// and after calibration, optionally for one league (plus the curves across
+// leagues)
+router.get('/models/:id/calibration', async (req: Request, res: Response) => {
+  try {
+    const modelId = parseInt(req.params.id);
+    const leagueId = req.query.league ? parseInt(req.query.league as string) : undefined;
+
+    if (!modelId || Number.isNaN(leagueId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A model id and a numeric league are required'
+      } as ApiResponse<null>);
+    }
+
+    const calibrations = await calibrationService.getCalibrations(modelId, leagueId);
+
+    res.json({
+      success: true,
+      data: calibrations
+    } as ApiResponse<PredictionCalibration[]>);
+
+  } catch (error) {
+    console.error('Error fetching calibration:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Refit a model's calibration now rather than at the daily run
+router.post('/models/:id/calibration', async (req: Request, res: Response) => {
+  try {
+    const model = await modelRegistry.getModel(parseInt(req.params.id));
+
+    if (!model) {
+      return res.status(404).json({
+        success: false,
+        error: 'Model not found'
+      } as ApiResponse<null>);
+    }
+
+    const calibrations = await calibrationService.fitModel(model);
+
+    res.json({
+      success: true,
+      data: calibrations,
+      message: calibrations.length > 0
+        ? `Fitted calibration version ${calibrations[0].version}`
+        : 'Not enough settled predictions to calibrate this model'
+    } as ApiResponse<PredictionCalibration[]>);
+
+  } catch (error) {
+    console.error('Error fitting calibration:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// List recent backtests, newest first
+router.get('/backtests', async (req: Request, res: Response) => {
+  try {
+    const backtests = await backtestService.getBacktests();
+
+    res.json({
+      success: true,
+      data: backtests
+    } as ApiResponse<Backtest[]>);
+
+  } catch (error) {
+    console.error('Error fetching backtests:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Start a backtest; it runs in the background, poll GET /backtests/:id
+router.post('/backtests', async (req: Request, res: Response) => {
+  try {
+    const { league, from, to, models, oddsFile, bookmaker, minEdge } = req.body || {};
+
+    const options: BacktestOptions = {
+      leagueId: parseInt(league),
+      from,
+      to,
+      models: Array.isArray(models) ? models.map(String) : undefined,
+      oddsFile: oddsFile || undefined,
+      bookmaker: bookmaker || undefined,
+      minEdge: minEdge === undefined ? undefined : Number(minEdge)
+    };
+
+    if (!options.leagueId || !moment(from, 'YYYY-MM-DD', true).isValid() || !moment(to, 'YYYY-MM-DD', true).isValid() || from > to) {
+      return res.status(400).json({
+        success: false,
+        error: 'A league and from/to dates (YYYY-MM-DD) are required'
+      } as ApiResponse<null>);
+    }
+
+    if (options.minEdge !== undefined && !Number.isFinite(options.minEdge)) {
+      return res.status(400).json({
+        success: false,
+        error: 'minEdge must be a number'
+      } as ApiResponse<null>);
+    }
+
+    const backtest = await backtestService.createBacktest(options);
+    backtestService.execute(backtest, options).catch(error => {
+      console.error(`Error running backtest ${backtest.id}:`, error);
+    });
+
+    res.status(202).json({
+      success: true,
+      data: backtest
+    } as ApiResponse<Backtest>);
+
+  } catch (error) {
+    console.error('Error starting backtest:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get a backtest with its scores and ROI per model and market
+router.get('/backtests/:id', async (req: Request, res: Response) => {
+  try {
+    const backtest = await backtestService.getBacktest(parseInt(req.params.id));
+
+    if (!backtest) {
+      return res.status(404).json({
+        success: false,
+        error: 'Backtest not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: backtest
+    } as ApiResponse<Backtest>);
+
+  } catch (error) {
+    console.error('Error fetching backtest:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+export default router;
@@ -1,6 +1,6 @@
 import express, { Request, Response } from 'express';
-import { supabase } from '../index';
-import { ApiResponse } from '../types';
+import { supabase, dataService, standingsService, bracketService } from '../index';
+import { ApiResponse, Bracket, GroupStandings, Standings } from '../types';
 
 const router = express.Router();
 
@@ -97,4 +97,154 @@ router.get('/:id/teams', async (req: Request, res: Response) => {
   }
 });
 
+// Get standings (defaults to the season active on asOf, or the current one)
+router.get('/:id/standings', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const season = parseInt(req.query.season as string) || undefined;
+    const asOf = req.query.asOf as string | undefined;
+
+    if (asOf && isNaN(Date.parse(asOf))) {
+      return res.status(400).json({
+        success: false,
+        error: 'asOf must be a date'
+      } as ApiResponse<null>);
+    }
+
+    const standings = await standingsService.getStandings(Number(id), { season, asOf });
+
+    if (!standings) {
+      return res.status(404).json({
+        success: false,
+        error: 'No active season for league'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: standings
+    } as ApiResponse<Standings>);
+
+  } catch (error) {
+    console.error('Error fetching standings:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get group-stage tables (defaults to the league's active season)
+router.get('/:id/groups', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const season = parseInt(req.query.season as string) || undefined;
+
+    const groups = await standingsService.getGroupTables(Number(id), season);
+
+    if (!groups) {
+      return res.status(404).json({
+        success: false,
+        error: 'No active season for league'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: groups
+    } as ApiResponse<GroupStandings>);
+
+  } catch (error) {
+    console.error('Error fetching group tables:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get knockout bracket (defaults to the league's active season)
+router.get('/:id/bracket', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const season = parseInt(req.query.season as string) || undefined;
+
+    const bracket = await bracketService.getBracket(Number(id), season);
+
+    if (!bracket) {
+      return res.status(404).json({
+        success: false,
+        error: 'No active season for league'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: bracket
+    } as ApiResponse<Bracket>);
+
+  } catch (error) {
+    console.error('Error fetching bracket:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get top scorers (defaults to the league's active season)
+router.get('/:id/top-scorers', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { limit = 20 } = req.query;
+    let season = parseInt(req.query.season as string) || null;
+
+    if (!season) {
+      const activeSeason = await dataService.getActiveSeason(Number(id));
+      if (!activeSeason) {
+        return res.status(404).json({
+          success: false,
+          error: 'No active season for league'
+        } as ApiResponse<null>);
+      }
+
+      season = activeSeason.year;
+    }
+
+    const { data, error } = await supabase
+      .from('player_season_stats')
+      .select(`
+        *,
+        player:players(*),
+        team:teams(id, name, logo)
+      `)
+      .eq('league_id', id)
+      .eq('season', season)
+      .gt('goals', 0)
+      .order('goals', { ascending: false })
+      .order('assists', { ascending: false })
+      .order('minutes', { ascending: true })
+      .limit(parseInt(limit as string) || 20);
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch top scorers'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: data || []
+    } as ApiResponse<any[]>);
+
+  } catch (error) {
+    console.error('Error fetching top scorers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import express, { Request, Response } from 'express';
 import { supabase } from '../index';
-import { MatchFilters, ApiResponse, PaginatedResponse } from '../types';
+import { MatchFilters, ApiResponse, PaginatedResponse, MatchEvent, MatchOdds } from '../types';
+import { latestPrices } from '../services/OddsService';
 
 const router = express.Router();
 
@@ -134,6 +135,160 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+// Get match events (goals, cards, substitutions) in match order
+router.get('/:id/events', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('match_events')
+      .select(`
+        *,
+        team:teams(id, name, logo)
+      `)
+      .eq('match_id', id)
+      .order('sequence', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch match events'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: data || []
+    } as ApiResponse<MatchEvent[]>);
+
+  } catch (error) {
+    console.error('Error fetching match events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get announced line-ups with starting XI first, then substitutes
+router.get('/:id/lineups', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('lineups')
+      .select(`
+        *,
+        team:teams(id, name, logo),
+        lineup_players(*, player:players(*))
+      `)
+      .eq('match_id', id)
+      .order('sort_order', { referencedTable: 'lineup_players', ascending: true });
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch match lineups'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: data || []
+    } as ApiResponse<any[]>);
+
+  } catch (error) {
+    console.error('Error fetching match lineups:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get injured, suspended and doubtful players for both teams
+router.get('/:id/absences', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('absences')
+      .select(`
+        *,
+        team:teams(id, name, logo),
+        player:players(*)
+      `)
+      .eq('match_id', id)
+      .order('team_id', { ascending: true })
+      .order('status', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch match absences'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: data || []
+    } as ApiResponse<any[]>);
+
+  } catch (error) {
+    console.error('Error fetching match absences:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get bookmaker prices: the latest per selection plus the full price history
+router.get('/:id/odds', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { bookmaker, market } = req.query;
+
+    let query = supabase
+      .from('odds')
+      .select('*')
+      .eq('match_id', id)
+      .order('captured_at', { ascending: true });
+
+    if (bookmaker) {
+      query = query.eq('bookmaker', bookmaker);
+    }
+
+    if (market) {
+      query = query.eq('market', market);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch match odds'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        latest: latestPrices(data || []),
+        history: data || []
+      }
+    } as ApiResponse<MatchOdds>);
+
+  } catch (error) {
+    console.error('Error fetching match odds:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
 // Get live matches
 router.get('/live/current', async (req: Request, res: Response) => {
   try {
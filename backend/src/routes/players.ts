@@ -0,0 +1,47 @@
+import express, { Request, Response } from 'express';
+import { supabase } from '../index';
+import { ApiResponse } from '../types';
+
+const router = express.Router();
+
+// Get player profile with season statistics, most recent season first
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('players')
+      .select(`
+        *,
+        player_season_stats(
+          *,
+          team:teams(id, name, logo),
+          league:leagues(id, name, logo)
+        )
+      `)
+      .eq('id', id)
+      .order('season', { referencedTable: 'player_season_stats', ascending: false })
+      .single();
+
+    if (error) {
+      return res.status(404).json({
+        success: false,
+        error: 'Player not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data
+    } as ApiResponse<any>);
+
+  } catch (error) {
+    console.error('Error fetching player:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+export default router;
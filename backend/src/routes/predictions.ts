@@ -1,9 +1,30 @@
 import express, { Request, Response } from 'express';
-import { supabase } from '../index';
-import { PredictionFilters, ApiResponse, PaginatedResponse } from '../types';
+import { modelRegistry, performanceService, supabase, valueBetService } from '../index';
+import { PredictionFilters, ApiResponse, OddsMarket, PaginatedResponse, PerformanceSummary, PredictionMarket, PredictionModel, PredictionScorelines, ValueBet } from '../types';
+import { DEFAULT_MIN_EDGE } from '../services/ValueBetService';
+import { HIGH_CONFIDENCE } from '../services/confidence';
 
 const router = express.Router();
 
+// The model named by ?model=name or ?model=name@version, null when none is
+// given; sends the 404 and resolves to undefined when it does not exist
+async function findRequestedModel(req: Request, res: Response): Promise<PredictionModel | null | undefined> {
+  const modelName = req.query.model as string | undefined;
+  if (!modelName) return null;
+
+  const model = await modelRegistry.findModel(modelName);
+
+  if (!model) {
+    res.status(404).json({
+      success: false,
+      error: 'Model not found'
+    } as ApiResponse<null>);
+    return undefined;
+  }
+
+  return model;
+}
+
 // Test endpoint to check database connection
 router.get('/test', async (req: Request, res: Response) => {
   try {
@@ -57,6 +78,7 @@ router.get('/', async (req: Request, res: Response) => {
       .from('predictions')
       .select(`
         *,
+        scorelines:prediction_scorelines(correct_scores),
         match:matches(
           *,
           home_team:teams!home_team_id(*),
@@ -64,7 +86,9 @@ router.get('/', async (req: Request, res: Response) => {
           league:leagues(*)
         )
       `)
-      .order('prediction_date', { ascending: false });
+      .eq('published', true)
+      .is('superseded_at', null)
+      .order('generated_at', { ascending: false });
 
     // Apply filters
     if (league) {
@@ -137,15 +161,21 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
-// Get prediction by match ID
+// Get prediction by match ID: the published one, or any model's output with
+// ?model=name or ?model=name@version
 router.get('/match/:matchId', async (req: Request, res: Response) => {
   try {
     const { matchId } = req.params;
 
-    const { data, error } = await supabase
+    const model = await findRequestedModel(req, res);
+    if (model === undefined) return;
+
+    let query = supabase
       .from('predictions')
       .select(`
         *,
+        model:prediction_models(name, version, kind),
+        scorelines:prediction_scorelines(correct_scores),
         match:matches(
           *,
           home_team:teams!home_team_id(*),
@@ -154,7 +184,11 @@ router.get('/match/:matchId', async (req: Request, res: Response) => {
         )
       `)
       .eq('match_id', matchId)
-      .single();
+      .is('superseded_at', null);
+
+    query = model ? query.eq('model_id', model.id) : query.eq('published', true);
+
+    const { data, error } = await query.single();
 
     if (error) {
       return res.status(404).json({
@@ -177,15 +211,238 @@ router.get('/match/:matchId', async (req: Request, res: Response) => {
   }
 });
 
-// Get high confidence predictions
+// Get the scoreline distribution behind a match's prediction (published model
+// unless ?model= is given)
+router.get('/match/:matchId/scorelines', async (req: Request, res: Response) => {
+  try {
+    const { matchId } = req.params;
+
+    const model = await findRequestedModel(req, res);
+    if (model === undefined) return;
+
+    let predictionQuery = supabase
+      .from('predictions')
+      .select('id')
+      .eq('match_id', matchId)
+      .is('superseded_at', null);
+
+    predictionQuery = model ? predictionQuery.eq('model_id', model.id) : predictionQuery.eq('published', true);
+
+    const { data: prediction, error: predictionError } = await predictionQuery.maybeSingle();
+
+    if (predictionError) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch prediction'
+      } as ApiResponse<null>);
+    }
+
+    if (!prediction) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prediction not found'
+      } as ApiResponse<null>);
+    }
+
+    const { data, error } = await supabase
+      .from('prediction_scorelines')
+      .select('*')
+      .eq('prediction_id', prediction.id)
+      .maybeSingle();
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch scorelines'
+      } as ApiResponse<null>);
+    }
+
+    if (!data) {
+      return res.status(404).json({
+        success: false,
+        error: 'Scorelines not found'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data
+    } as ApiResponse<PredictionScorelines>);
+
+  } catch (error) {
+    console.error('Error fetching scorelines:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get every priced market and line for a match, optionally one market only
+// (published model unless ?model= is given)
+router.get('/match/:matchId/markets', async (req: Request, res: Response) => {
+  try {
+    const { matchId } = req.params;
+    const { market } = req.query;
+
+    const model = await findRequestedModel(req, res);
+    if (model === undefined) return;
+
+    let predictionQuery = supabase
+      .from('predictions')
+      .select('id')
+      .eq('match_id', matchId)
+      .is('superseded_at', null);
+
+    predictionQuery = model ? predictionQuery.eq('model_id', model.id) : predictionQuery.eq('published', true);
+
+    const { data: prediction, error: predictionError } = await predictionQuery.maybeSingle();
+
+    if (predictionError) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch prediction'
+      } as ApiResponse<null>);
+    }
+
+    if (!prediction) {
+      return res.status(404).json({
+        success: false,
+        error: 'Prediction not found'
+      } as ApiResponse<null>);
+    }
+
+    let query = supabase
+      .from('prediction_markets')
+      .select('*')
+      .eq('prediction_id', prediction.id);
+
+    if (market) {
+      query = query.eq('market', String(market).toUpperCase());
+    }
+
+    const { data, error } = await query
+      .order('market', { ascending: true })
+      .order('line', { ascending: true, nullsFirst: true })
+      .order('selection', { ascending: true });
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch markets'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: data || []
+    } as ApiResponse<PredictionMarket[]>);
+
+  } catch (error) {
+    console.error('Error fetching markets:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get every snapshot of a match's prediction, newest first, with the closing
+// one marked and the settled market outcomes once the match is finished
+// (published model unless ?model= is given)
+router.get('/match/:matchId/history', async (req: Request, res: Response) => {
+  try {
+    const { matchId } = req.params;
+
+    const requestedModel = await findRequestedModel(req, res);
+    if (requestedModel === undefined) return;
+
+    let model = requestedModel;
+
+    // Every snapshot of the published model, not just the ones taken while it
+    // was published
+    if (!model) {
+      const { data: match, error: matchError } = await supabase
+        .from('matches')
+        .select('league_id')
+        .eq('id', matchId)
+        .maybeSingle();
+
+      if (matchError) {
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to fetch match'
+        } as ApiResponse<null>);
+      }
+
+      if (!match) {
+        return res.status(404).json({
+          success: false,
+          error: 'Match not found'
+        } as ApiResponse<null>);
+      }
+
+      model = await modelRegistry.getPublishedModel(match.league_id);
+    }
+
+    if (!model) {
+      return res.json({
+        success: true,
+        data: []
+      } as ApiResponse<any[]>);
+    }
+
+    const { data, error } = await supabase
+      .from('predictions')
+      .select(`
+        *,
+        model:prediction_models(name, version, kind),
+        markets:prediction_markets(market, selection, line, probability, raw_probability, outcome)
+      `)
+      .eq('match_id', matchId)
+      .eq('model_id', model.id)
+      .order('generated_at', { ascending: false });
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch prediction history'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: data || []
+    } as ApiResponse<any[]>);
+
+  } catch (error) {
+    console.error('Error fetching prediction history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+// Get high confidence predictions (confidence_score of at least ?min=,
+// 0.7 by default), each with its confidence_breakdown
 router.get('/high-confidence', async (req: Request, res: Response) => {
   try {
     const { limit = 10 } = req.query;
+    const min = req.query.min ? parseFloat(req.query.min as string) : HIGH_CONFIDENCE;
+
+    if (Number.isNaN(min) || min < 0 || min > 1) {
+      return res.status(400).json({
+        success: false,
+        error: 'min must be between 0 and 1'
+      } as ApiResponse<null>);
+    }
 
     const { data, error } = await supabase
       .from('predictions')
       .select(`
         *,
+        scorelines:prediction_scorelines(correct_scores),
         match:matches(
           *,
           home_team:teams!home_team_id(*),
@@ -193,7 +450,9 @@ router.get('/high-confidence', async (req: Request, res: Response) => {
           league:leagues(*)
         )
       `)
-      .gte('confidence_score', 0.7)
+      .eq('published', true)
+      .is('superseded_at', null)
+      .gte('confidence_score', min)
       .order('confidence_score', { ascending: false })
       .limit(parseInt(limit as string) || 10);
 
@@ -218,6 +477,28 @@ router.get('/high-confidence', async (req: Request, res: Response) => {
   }
 });
 
+// Get value bets: selections priced above our probability by at least minEdge
+router.get('/value-bets', async (req: Request, res: Response) => {
+  try {
+    const minEdge = parseFloat(req.query.minEdge as string);
+    const hours = parseInt(req.query.hours as string) || undefined;
+
+    const data = await valueBetService.findValueBets(isNaN(minEdge) ? DEFAULT_MIN_EDGE : minEdge, hours);
+
+    res.json({
+      success: true,
+      data
+    } as ApiResponse<ValueBet[]>);
+
+  } catch (error) {
+    console.error('Error fetching value bets:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
 // Get predictions for today
 router.get('/today', async (req: Request, res: Response) => {
   try {
@@ -248,6 +529,7 @@ router.get('/today', async (req: Request, res: Response) => {
       .from('predictions')
       .select(`
         *,
+        scorelines:prediction_scorelines(correct_scores),
         match:matches(
           *,
           home_team:teams!home_team_id(*),
@@ -255,6 +537,8 @@ router.get('/today', async (req: Request, res: Response) => {
           league:leagues(*)
         )
       `)
+      .eq('published', true)
+      .is('superseded_at', null)
       .gte('match.date', startOfDay)
       .lt('match.date', endOfDay);
 
@@ -294,6 +578,7 @@ router.get('/tomorrow', async (req: Request, res: Response) => {
       .from('predictions')
       .select(`
         *,
+        scorelines:prediction_scorelines(correct_scores),
         match:matches(
           *,
           home_team:teams!home_team_id(*),
@@ -301,6 +586,8 @@ router.get('/tomorrow', async (req: Request, res: Response) => {
           league:leagues(*)
         )
       `)
+      .eq('published', true)
+      .is('superseded_at', null)
       .gte('match.date', startOfDay)
       .lt('match.date', endOfDay);
 
@@ -325,19 +612,60 @@ router.get('/tomorrow', async (req: Request, res: Response) => {
   }
 });
 
+const PERFORMANCE_MARKETS: OddsMarket[] = ['MATCH_WINNER', 'DOUBLE_CHANCE', 'OVER_UNDER', 'BOTH_TEAMS_SCORE', 'ASIAN_HANDICAP'];
+
+// Get the track record of the published closing predictions: hit rates,
+// Brier score, calibration buckets, rolling accuracy and a per-league breakdown
+router.get('/performance', async (req: Request, res: Response) => {
+  try {
+    const { league, market, from, to } = req.query as { league?: string; market?: string; from?: string; to?: string };
+    const marketName = market ? market.toUpperCase() as OddsMarket : undefined;
+
+    if (marketName && !PERFORMANCE_MARKETS.includes(marketName)) {
+      return res.status(400).json({
+        success: false,
+        error: `market must be one of ${PERFORMANCE_MARKETS.join(', ')}`
+      } as ApiResponse<null>);
+    }
+
+    const data = await performanceService.getPerformance({
+      league: league ? parseInt(league) : undefined,
+      market: marketName,
+      from,
+      to
+    });
+
+    res.json({
+      success: true,
+      data
+    } as ApiResponse<PerformanceSummary>);
+
+  } catch (error) {
+    console.error('Error fetching performance:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
 // Get prediction statistics
 router.get('/stats', async (req: Request, res: Response) => {
   try {
     // Get total predictions
     const { count: totalPredictions } = await supabase
       .from('predictions')
-      .select('*', { count: 'exact', head: true });
+      .select('*', { count: 'exact', head: true })
+      .eq('published', true)
+      .is('superseded_at', null);
 
     // Get high confidence predictions
     const { count: highConfidencePredictions } = await supabase
       .from('predictions')
       .select('*', { count: 'exact', head: true })
-      .gte('confidence_score', 0.7);
+      .eq('published', true)
+      .is('superseded_at', null)
+      .gte('confidence_score', HIGH_CONFIDENCE);
 
     // Get predictions for today
     const today = new Date();
@@ -347,6 +675,8 @@ router.get('/stats', async (req: Request, res: Response) => {
     const { count: todayPredictions } = await supabase
       .from('predictions')
       .select('*', { count: 'exact', head: true })
+      .eq('published', true)
+      .is('superseded_at', null)
       .gte('match.date', startOfDay)
       .lt('match.date', endOfDay);
 
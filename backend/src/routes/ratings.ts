@@ -0,0 +1,28 @@
+import express, { Request, Response } from 'express';
+import { ratingService } from '../index';
+import { ApiResponse, TeamRating } from '../types';
+
+const router = express.Router();
+
+// Get current Elo ratings, highest first, optionally for one league's teams
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const league = parseInt(req.query.league as string) || undefined;
+
+    const ratings = await ratingService.getRatings(league);
+
+    res.json({
+      success: true,
+      data: ratings
+    } as ApiResponse<TeamRating[]>);
+
+  } catch (error) {
+    console.error('Error fetching ratings:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
+export default router;
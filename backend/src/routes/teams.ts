@@ -1,6 +1,6 @@
 import express, { Request, Response } from 'express';
-import { supabase } from '../index';
-import { ApiResponse, PaginatedResponse } from '../types';
+import { ratingService, supabase } from '../index';
+import { ApiResponse, PaginatedResponse, SquadMember, TeamRatings } from '../types';
 
 const router = express.Router();
 
@@ -99,6 +99,99 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+// Get team squad with season statistics (defaults to the latest season on record)
+router.get('/:id/squad', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    let season = parseInt(req.query.season as string) || null;
+
+    if (!season) {
+      const { data: latest, error: latestError } = await supabase
+        .from('player_season_stats')
+        .select('season')
+        .eq('team_id', id)
+        .order('season', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) {
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to fetch team squad'
+        } as ApiResponse<null>);
+      }
+
+      if (!latest) {
+        return res.json({
+          success: true,
+          data: []
+        } as ApiResponse<SquadMember[]>);
+      }
+
+      season = latest.season;
+    }
+
+    const { data, error } = await supabase
+      .from('player_season_stats')
+      .select(`
+        *,
+        player:players(*)
+      `)
+      .eq('team_id', id)
+      .eq('season', season);
+
+    if (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch team squad'
+      } as ApiResponse<null>);
+    }
+
+    // Sum league and cup rows per player
+    const squad = new Map<number, SquadMember>();
+    for (const row of data || []) {
+      const member = squad.get(row.player_id);
+      if (!member) {
+        squad.set(row.player_id, {
+          player: row.player,
+          position: row.position,
+          appearances: row.appearances,
+          minutes: row.minutes,
+          goals: row.goals,
+          assists: row.assists,
+          expected_goals: row.expected_goals,
+          yellow_cards: row.yellow_cards,
+          red_cards: row.red_cards
+        });
+        continue;
+      }
+
+      member.position = member.position || row.position;
+      member.appearances += row.appearances;
+      member.minutes += row.minutes;
+      member.goals += row.goals;
+      member.assists += row.assists;
+      member.expected_goals = row.expected_goals === null ? member.expected_goals : (member.expected_goals || 0) + row.expected_goals;
+      member.yellow_cards += row.yellow_cards;
+      member.red_cards += row.red_cards;
+    }
+
+    const members = [...squad.values()].sort((a, b) => b.minutes - a.minutes);
+
+    res.json({
+      success: true,
+      data: members
+    } as ApiResponse<SquadMember[]>);
+
+  } catch (error) {
+    console.error('Error fetching team squad:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
 // Get team matches
 router.get('/:id/matches', async (req: Request, res: Response) => {
   try {
@@ -138,6 +231,35 @@ router.get('/:id/matches', async (req: Request, res: Response) => {
   }
 });
 
+// Get a team's current Elo rating and its history, most recent match first
+router.get('/:id/ratings', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const limit = parseInt(req.query.limit as string) || undefined;
+
+    const ratings = await ratingService.getTeamRatings(Number(id), limit);
+
+    if (!ratings.current) {
+      return res.status(404).json({
+        success: false,
+        error: 'No rating for team'
+      } as ApiResponse<null>);
+    }
+
+    res.json({
+      success: true,
+      data: ratings
+    } as ApiResponse<TeamRatings>);
+
+  } catch (error) {
+    console.error('Error fetching team ratings:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error'
+    } as ApiResponse<null>);
+  }
+});
+
 // Get teams by league ID
 router.get('/league/:leagueId', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,240 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import {
+  BackfillCheckpoint,
+  BackfillOptions,
+  BackfillStatus,
+  LeagueConfig,
+  SUPPORTED_LEAGUES
+} from '../types';
+import { DataService } from './DataService';
+
+// Backfill calls queue behind every league's regular updates
+const BACKFILL_PRIORITY = 10;
+
+// Walks whole past seasons league by league. Progress is checkpointed per
+// league/season (stage + last processed fixture) so a stopped or quota-paused
+// run picks up where it left off.
+export class BackfillService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private dataService: DataService;
+  private running = false;
+  private stopRequested = false;
+  private current: { league: string; season: number } | null = null;
+  private lastError: string | null = null;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger, dataService: DataService) {
+    this.supabase = supabase;
+    this.logger = logger;
+    this.dataService = dataService;
+  }
+
+  // Starts the job in the background; returns immediately
+  start(options: BackfillOptions = {}): boolean {
+    if (this.running) return false;
+
+    this.running = true;
+    this.stopRequested = false;
+    this.lastError = null;
+
+    this.run(options)
+      .catch(error => {
+        this.lastError = error instanceof Error ? error.message : String(error);
+        this.logger.error('Backfill failed:', error);
+      })
+      .finally(() => {
+        this.running = false;
+        this.current = null;
+      });
+
+    return true;
+  }
+
+  stop(): boolean {
+    if (!this.running) return false;
+
+    this.stopRequested = true;
+    return true;
+  }
+
+  async getStatus(): Promise<BackfillStatus> {
+    const { data, error } = await this.supabase
+      .from('backfill_checkpoints')
+      .select('*')
+      .order('league_api_id', { ascending: true })
+      .order('season', { ascending: true });
+
+    if (error) {
+      this.logger.error('Failed to load backfill checkpoints:', error);
+    }
+
+    return {
+      running: this.running,
+      stopRequested: this.stopRequested,
+      current: this.current,
+      lastError: this.lastError,
+      checkpoints: data || []
+    };
+  }
+
+  private async run(options: BackfillOptions): Promise<void> {
+    const fromSeason = options.fromSeason || parseInt(process.env.BACKFILL_FROM_SEASON || '2020');
+    const includeStatistics = options.includeStatistics ?? true;
+
+    const leagues = SUPPORTED_LEAGUES
+      .filter(league => league.active)
+      .filter(league => !options.leagues || options.leagues.includes(league.apiId))
+      .sort((a, b) => a.priority - b.priority);
+
+    this.logger.info(`Starting backfill from season ${fromSeason} for ${leagues.length} leagues`);
+
+    for (const league of leagues) {
+      // Everything before the season currently in progress
+      const toSeason = options.toSeason || (await this.dataService.resolveCurrentSeason(league, { priority: BACKFILL_PRIORITY })) - 1;
+
+      for (let season = fromSeason; season <= toSeason; season++) {
+        if (this.stopRequested) {
+          this.logger.info('Backfill stopped on request');
+          return;
+        }
+
+        const finished = await this.backfillSeason(league, season, includeStatistics);
+        if (!finished) return;
+      }
+    }
+
+    this.logger.info('Backfill completed');
+  }
+
+  // Returns false when the run has to halt (stop request or quota reserve reached)
+  private async backfillSeason(league: LeagueConfig, season: number, includeStatistics: boolean): Promise<boolean> {
+    let checkpoint = await this.loadCheckpoint(league, season);
+    if (checkpoint.status === 'completed') return true;
+
+    this.current = { league: league.name, season };
+    this.logger.info(`Backfilling ${league.name} ${season} from stage ${checkpoint.stage}`);
+
+    const options = { priority: BACKFILL_PRIORITY };
+
+    try {
+      checkpoint = await this.saveCheckpoint(checkpoint, { status: 'running', error: null });
+
+      if (checkpoint.stage === 'teams') {
+        if (!this.canContinue(league)) return this.pause(checkpoint);
+
+        const { complete } = await this.dataService.syncTeams(league, season, options);
+        if (!complete) throw new Error(`Not every team of ${league.name} ${season} could be saved`);
+
+        checkpoint = await this.saveCheckpoint(checkpoint, { stage: 'fixtures' });
+      }
+
+      if (checkpoint.stage === 'fixtures') {
+        if (!this.canContinue(league)) return this.pause(checkpoint);
+
+        const { fromDate, toDate } = this.seasonWindow(season);
+        const { data: fixtures, complete } = await this.dataService.syncFixtures(league, season, fromDate, toDate, options);
+        if (!complete) throw new Error(`Not every fixture of ${league.name} ${season} could be saved`);
+
+        checkpoint = await this.saveCheckpoint(checkpoint, {
+          stage: includeStatistics ? 'statistics' : 'done',
+          fixtures_total: fixtures.filter(fixture => fixture.status === 'FINISHED').length
+        });
+      }
+
+      if (checkpoint.stage === 'statistics') {
+        const fixtureIds = await this.dataService.getFinishedFixtureIds(league, season);
+        const remaining = fixtureIds.filter(id => id > (checkpoint.last_fixture_id || 0));
+
+        for (const fixtureId of remaining) {
+          if (this.stopRequested || !this.canContinue(league)) return this.pause(checkpoint);
+
+          await this.dataService.syncFixtureStatistics(league, fixtureId, options);
+          await this.dataService.syncFixtureEvents(league, fixtureId, options);
+          checkpoint = await this.saveCheckpoint(checkpoint, {
+            last_fixture_id: fixtureId,
+            fixtures_processed: (checkpoint.fixtures_processed || 0) + 1
+          });
+        }
+
+        checkpoint = await this.saveCheckpoint(checkpoint, { stage: 'done' });
+      }
+
+      await this.saveCheckpoint(checkpoint, { status: 'completed', completed_at: new Date().toISOString() });
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Backfill of ${league.name} ${season} failed:`, error);
+      await this.saveCheckpoint(checkpoint, { status: 'failed', error: message });
+      return true;
+    }
+  }
+
+  // Keep a reserve of the daily budget for the hourly updates
+  private canContinue(league: LeagueConfig): boolean {
+    const quota = this.dataService.getProviderQuota(league);
+    const reserve = parseInt(process.env.BACKFILL_QUOTA_RESERVE || '20');
+    return !quota || quota.remaining > reserve;
+  }
+
+  private async pause(checkpoint: BackfillCheckpoint): Promise<boolean> {
+    const reason = this.stopRequested ? 'stop requested' : 'quota reserve reached';
+    this.logger.info(`Pausing backfill of league ${checkpoint.league_api_id} ${checkpoint.season}: ${reason}`);
+    await this.saveCheckpoint(checkpoint, { status: 'paused' });
+    return false;
+  }
+
+  // Spans both calendar-year and August-May seasons
+  private seasonWindow(season: number): { fromDate: string; toDate: string } {
+    return { fromDate: `${season}-01-01`, toDate: `${season + 1}-12-31` };
+  }
+
+  private async loadCheckpoint(league: LeagueConfig, season: number): Promise<BackfillCheckpoint> {
+    const { data, error } = await this.supabase
+      .from('backfill_checkpoints')
+      .select('*')
+      .eq('league_api_id', league.apiId)
+      .eq('season', season)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load backfill checkpoint for ${league.name} ${season}: ${error.message}`);
+    }
+
+    if (data) return data;
+
+    const { data: created, error: createError } = await this.supabase
+      .from('backfill_checkpoints')
+      .insert({
+        league_api_id: league.apiId,
+        season,
+        status: 'pending',
+        stage: 'teams',
+        fixtures_total: 0,
+        fixtures_processed: 0
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      throw new Error(`Failed to create backfill checkpoint for ${league.name} ${season}: ${createError.message}`);
+    }
+
+    return created;
+  }
+
+  private async saveCheckpoint(checkpoint: BackfillCheckpoint, changes: Partial<BackfillCheckpoint>): Promise<BackfillCheckpoint> {
+    const updated = { ...checkpoint, ...changes };
+
+    const { error } = await this.supabase
+      .from('backfill_checkpoints')
+      .update(changes)
+      .eq('id', checkpoint.id);
+
+    if (error) {
+      this.logger.error(`Failed to save backfill checkpoint ${checkpoint.id}:`, error);
+    }
+
+    return updated;
+  }
+}
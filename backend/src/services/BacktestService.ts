@@ -0,0 +1,337 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import moment from 'moment';
+import { Backtest, BacktestOptions, EloMatch, PredictionModel, ProviderOdds, TeamFormStats } from '../types';
+import { NO_ABSENCE_IMPACT } from './absenceImpact';
+import { matchResult, ModelScorecard, ResultProbabilities } from './backtestMetrics';
+import { fitDixonColes, marketProbabilities } from './dixonColes';
+import { computeElo, HOME_ADVANTAGE } from './elo';
+import { IdMappingService } from './IdMappingService';
+import { ModelRegistry } from './ModelRegistry';
+import { latestPrices, OddsService } from './OddsService';
+import { priceMarkets, settledProfit, settleSelection } from './predictionMarkets';
+import { PredictorInput, runPredictors } from './predictors';
+import { RatingService } from './RatingService';
+import { bestPrices, DEFAULT_MIN_EDGE, evaluatePrices, PricedSelection } from './ValueBetService';
+import { fitXgStrengths, statisticsXg } from './xgStrength';
+
+// Same look-backs as the live goal and xG models
+const GOAL_MODEL_HISTORY_DAYS = 730;
+const XG_HISTORY_DAYS = 365;
+
+// Matches behind the heuristic model's form figures
+const FORM_MATCHES = 10;
+
+type BacktestMatch = EloMatch & { home_xg: number | null; away_xg: number | null };
+
+// Replays a league's finished matches day by day. Every model is refitted each
+// morning on results before that day, so no prediction sees its own match or
+// anything played after it; absences are not replayed.
+export class BacktestService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private modelRegistry: ModelRegistry;
+  private oddsService: OddsService;
+  private ratingService: RatingService;
+  private pageSize = 1000;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+    this.modelRegistry = new ModelRegistry(supabase, logger);
+    this.oddsService = new OddsService(supabase, logger, new IdMappingService(supabase, logger));
+    this.ratingService = new RatingService(supabase, logger);
+  }
+
+  // Creates and runs a backtest, resolving with the stored result
+  async run(options: BacktestOptions): Promise<Backtest> {
+    return this.execute(await this.createBacktest(options), options);
+  }
+
+  // Records the backtest as running and returns it before any work is done,
+  // so callers can hand out the id while execute() runs
+  async createBacktest(options: BacktestOptions): Promise<Backtest> {
+    const { data, error } = await this.supabase
+      .from('backtests')
+      .insert({
+        league_id: options.leagueId,
+        date_from: options.from,
+        date_to: options.to,
+        models: options.models || [],
+        odds_file: options.oddsFile || null,
+        bookmaker: options.bookmaker || null,
+        min_edge: options.minEdge ?? DEFAULT_MIN_EDGE,
+        status: 'running',
+        started_at: new Date().toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create backtest: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async execute(backtest: Backtest, options: BacktestOptions): Promise<Backtest> {
+    try {
+      const models = await this.resolveModels(options.models);
+      const predictors = await this.withComponents(models);
+      const minEdge = options.minEdge ?? DEFAULT_MIN_EDGE;
+
+      const end = moment.utc(options.to).endOf('day').toISOString();
+      const start = moment.utc(options.from).startOf('day');
+      const history = await this.loadFinishedMatches(end);
+      const cupLeagueIds = await this.ratingService.getCupLeagueIds();
+      const league = await this.loadLeagueMatches(options.leagueId, start.clone().subtract(GOAL_MODEL_HISTORY_DAYS, 'days').toISOString(), end);
+      const closingOdds = options.oddsFile ? await this.oddsService.readOddsFile(options.oddsFile) : new Map<number, ProviderOdds[]>();
+
+      const targets = league.filter(match => match.date >= start.toISOString());
+      const scorecards = new Map(models.map(model => [model.id, new ModelScorecard(`${model.name}@${model.version}`)]));
+
+      for (const [day, matches] of groupByDay(targets)) {
+        const asOf = moment.utc(day).toDate();
+        const cutoff = asOf.toISOString();
+        const played = history.filter(match => match.date < cutoff);
+        const since = (days: number) => league.filter(match =>
+          match.date < cutoff && match.date >= moment.utc(day).subtract(days, 'days').toISOString());
+
+        const goalModel = fitDixonColes(since(GOAL_MODEL_HISTORY_DAYS), asOf);
+        const xgStrengths = fitXgStrengths(since(XG_HISTORY_DAYS), asOf);
+        const ratings = new Map(computeElo(played, cupLeagueIds).ratings.map(rating => [rating.team_id, rating.rating]));
+
+        for (const match of matches) {
+          const input: PredictorInput = {
+            homeTeamId: match.home_team_id,
+            awayTeamId: match.away_team_id,
+            goalModel,
+            xgStrengths,
+            homeForm: teamForm(match.home_team_id, played),
+            awayForm: teamForm(match.away_team_id, played),
+            ratingDifference: ratings.has(match.home_team_id) && ratings.has(match.away_team_id)
+              ? ratings.get(match.home_team_id) + HOME_ADVANTAGE - ratings.get(match.away_team_id)
+              : null,
+            homeAbsences: NO_ABSENCE_IMPACT,
+            awayAbsences: NO_ABSENCE_IMPACT
+          };
+
+          const result = matchResult(match.home_goals, match.away_goals);
+          const closing = closingPrices(closingOdds.get(match.id) || [], match.date, options.bookmaker);
+
+          for (const [modelId, matrix] of runPredictors(predictors, input)) {
+            const scorecard = scorecards.get(modelId);
+            if (!scorecard) continue;
+
+            const markets = marketProbabilities(matrix);
+            const probabilities: ResultProbabilities = [markets.homeWin, markets.draw, markets.awayWin];
+            scorecard.addPrediction(probabilities, result);
+
+            for (const bet of bestPrices(evaluatePrices(priceMarkets(matrix), closing))) {
+              if (bet.edge < minEdge) continue;
+
+              const settlement = settleSelection(bet.market, bet.selection, bet.line, match.home_goals, match.away_goals);
+              if (settlement === null) continue;
+
+              scorecard.addBet(bet.market, settledProfit(settlement, bet.price));
+            }
+          }
+        }
+      }
+
+      const summary = [...scorecards.values()].map(scorecard => scorecard.summary());
+      this.logger.info(`Backtest ${backtest.id} replayed ${targets.length} matches of league ${options.leagueId}`);
+
+      return this.finish(backtest.id, {
+        status: 'completed',
+        models: models.map(model => `${model.name}@${model.version}`),
+        matches: targets.length,
+        summary
+      });
+    } catch (error) {
+      this.logger.error(`Backtest ${backtest.id} failed:`, error);
+      return this.finish(backtest.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  async getBacktest(id: number): Promise<Backtest | null> {
+    const { data, error } = await this.supabase
+      .from('backtests')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load backtest ${id}: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getBacktests(limit: number = 20): Promise<Backtest[]> {
+    const { data, error } = await this.supabase
+      .from('backtests')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load backtests: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  private async finish(id: number, update: Partial<Backtest>): Promise<Backtest> {
+    const { data, error } = await this.supabase
+      .from('backtests')
+      .update({ ...update, completed_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save backtest ${id}: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  private async resolveModels(references?: string[]): Promise<PredictionModel[]> {
+    if (!references || references.length === 0) {
+      return this.modelRegistry.getActiveModels();
+    }
+
+    const models: PredictionModel[] = [];
+    for (const reference of references) {
+      const model = await this.modelRegistry.findModel(reference);
+      if (!model) {
+        throw new Error(`Model not found: ${reference}`);
+      }
+      models.push(model);
+    }
+    return models;
+  }
+
+  // Ensembles blend their components by name, so components that were not
+  // asked for still have to run; they are left out of the results
+  private async withComponents(models: PredictionModel[]): Promise<PredictionModel[]> {
+    const names = new Set(models.map(model => model.name));
+    const needed = models
+      .filter(model => model.kind === 'ensemble')
+      .flatMap(model => Object.keys(model.config.weights || {}))
+      .filter(name => !names.has(name));
+
+    if (needed.length === 0) return models;
+
+    const active = await this.modelRegistry.getActiveModels();
+    return [...models, ...active.filter(model => needed.includes(model.name))];
+  }
+
+  // Every competition, for Elo ratings and form
+  private async loadFinishedMatches(before: string): Promise<EloMatch[]> {
+    return this.fetchMatches('id, date, league_id, home_team_id, away_team_id, home_goals, away_goals', query => query
+      .lte('date', before));
+  }
+
+  // The league's own results with the statistics behind its xG
+  private async loadLeagueMatches(leagueId: number, from: string, to: string): Promise<BacktestMatch[]> {
+    const matches = await this.fetchMatches(
+      'id, date, league_id, home_team_id, away_team_id, home_goals, away_goals, match_statistics(team_id, expected_goals, shots_on_goal)',
+      query => query.eq('league_id', leagueId).gte('date', from).lte('date', to)
+    );
+
+    return matches.map(({ match_statistics, ...match }) => {
+      const statistics = match_statistics || [];
+      return {
+        ...match,
+        home_xg: statisticsXg(statistics.find((row: any) => row.team_id === match.home_team_id)),
+        away_xg: statisticsXg(statistics.find((row: any) => row.team_id === match.away_team_id))
+      };
+    });
+  }
+
+  private async fetchMatches(columns: string, scope: (query: any) => any): Promise<any[]> {
+    const rows: any[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await scope(this.supabase
+        .from('matches')
+        .select(columns)
+        .eq('status', 'FINISHED')
+        .not('home_goals', 'is', null)
+        .not('away_goals', 'is', null))
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + this.pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to load finished matches: ${error.message}`);
+      }
+
+      // Normalised so dates compare as strings against our cutoffs
+      rows.push(...(data || []).map((row: any) => ({ ...row, date: new Date(row.date).toISOString() })));
+
+      if (!data || data.length < this.pageSize) {
+        return rows;
+      }
+
+      offset += this.pageSize;
+    }
+  }
+}
+
+// Matches grouped by UTC kickoff date, in date order (input sorted by date)
+function groupByDay<T extends { date: string }>(matches: T[]): Map<string, T[]> {
+  const days = new Map<string, T[]>();
+  for (const match of matches) {
+    const day = match.date.slice(0, 10);
+    days.set(day, [...(days.get(day) || []), match]);
+  }
+  return days;
+}
+
+// Last price per bookmaker and selection captured before kickoff
+function closingPrices(odds: ProviderOdds[], kickoff: string, bookmaker?: string): PricedSelection[] {
+  const rows = odds
+    .filter(price => price.capturedAt <= kickoff && (!bookmaker || price.bookmaker === bookmaker))
+    .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt))
+    .map(price => ({
+      bookmaker: price.bookmaker,
+      market: price.market,
+      selection: price.selection,
+      line: price.line,
+      price: price.price,
+      captured_at: price.capturedAt
+    }));
+
+  return latestPrices(rows);
+}
+
+// Goals over a team's last FORM_MATCHES results, as the live heuristic reads them
+function teamForm(teamId: number, played: EloMatch[]): TeamFormStats {
+  const matches: { scored: number; conceded: number }[] = [];
+
+  for (let index = played.length - 1; index >= 0 && matches.length < FORM_MATCHES; index--) {
+    const match = played[index];
+    if (match.home_team_id === teamId) matches.push({ scored: match.home_goals, conceded: match.away_goals });
+    else if (match.away_team_id === teamId) matches.push({ scored: match.away_goals, conceded: match.home_goals });
+  }
+
+  const goalsScored = matches.reduce((total, match) => total + match.scored, 0);
+  const goalsConceded = matches.reduce((total, match) => total + match.conceded, 0);
+
+  return {
+    recentForm: matches.slice(0, 5).map(match => match.scored > match.conceded ? 'W' : match.scored < match.conceded ? 'L' : 'D'),
+    goalsScored,
+    goalsConceded,
+    cleanSheets: matches.filter(match => match.conceded === 0).length,
+    failedToScore: matches.filter(match => match.scored === 0).length,
+    averageGoalsScored: matches.length > 0 ? goalsScored / matches.length : 0,
+    averageGoalsConceded: matches.length > 0 ? goalsConceded / matches.length : 0
+  };
+}
@@ -0,0 +1,142 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import { Bracket, KnockoutTie, Match, Team, TieLeg } from '../types';
+import { DataService } from './DataService';
+
+type TeamInfo = Pick<Team, 'id' | 'name' | 'logo'>;
+
+export type BracketMatch = TieLeg & Pick<Match, 'round'> & {
+  home_team: TeamInfo;
+  away_team: TeamInfo;
+};
+
+// Knockout rounds of cup competitions as ties with aggregate scores
+export class BracketService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private dataService: DataService;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger, dataService: DataService) {
+    this.supabase = supabase;
+    this.logger = logger;
+    this.dataService = dataService;
+  }
+
+  // Defaults to the league's active season; null when there is none
+  async getBracket(leagueId: number, season?: number): Promise<Bracket | null> {
+    if (!season) {
+      const activeSeason = await this.dataService.getActiveSeason(leagueId);
+      if (!activeSeason) return null;
+      season = activeSeason.year;
+    }
+
+    const { data: matches, error } = await this.supabase
+      .from('matches')
+      .select(`
+        id,
+        date,
+        round,
+        leg,
+        status,
+        home_team_id,
+        away_team_id,
+        home_goals,
+        away_goals,
+        home_score_penalty,
+        away_score_penalty,
+        home_team:teams!home_team_id(id, name, logo),
+        away_team:teams!away_team_id(id, name, logo)
+      `)
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .eq('stage', 'KNOCKOUT')
+      .order('date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load knockout matches for league ${leagueId} ${season}: ${error.message}`);
+    }
+
+    const ties = buildTies((matches || []) as any[]);
+
+    // Ties come out in order of their first leg, so rounds do too
+    const rounds = new Map<string, KnockoutTie[]>();
+    for (const tie of ties) {
+      rounds.set(tie.round, [...(rounds.get(tie.round) || []), tie]);
+    }
+
+    this.logger.debug(`Built bracket for league ${leagueId} ${season}: ${ties.length} ties`);
+
+    return {
+      league_id: Number(leagueId),
+      season,
+      rounds: [...rounds.entries()].map(([name, roundTies]) => ({ name, ties: roundTies }))
+    };
+  }
+}
+
+// Matches of the same round between the same two teams, oldest first
+export function groupLegs<T extends Pick<Match, 'date' | 'round' | 'home_team_id' | 'away_team_id'>>(matches: T[]): T[][] {
+  const ties = new Map<string, T[]>();
+
+  for (const match of [...matches].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())) {
+    const pair = [match.home_team_id, match.away_team_id].sort((a, b) => a - b).join('-');
+    const key = `${match.round}|${pair}`;
+    ties.set(key, [...(ties.get(key) || []), match]);
+  }
+
+  return [...ties.values()];
+}
+
+export function buildTies(matches: BracketMatch[]): KnockoutTie[] {
+  return groupLegs(matches).map(legs => {
+    const [first] = legs;
+    const home = first.home_team || { id: first.home_team_id, name: null, logo: null };
+    const away = first.away_team || { id: first.away_team_id, name: null, logo: null };
+
+    // Goals already include extra time; penalties only ever decide the last leg
+    let aggregate: KnockoutTie['aggregate'] = null;
+    for (const leg of legs) {
+      if (leg.home_goals === null || leg.away_goals === null) continue;
+
+      const [forHome, forAway] = leg.home_team_id === home.id
+        ? [leg.home_goals, leg.away_goals]
+        : [leg.away_goals, leg.home_goals];
+      aggregate = { home: (aggregate?.home || 0) + forHome, away: (aggregate?.away || 0) + forAway };
+    }
+
+    const last = legs[legs.length - 1];
+    let penalties: KnockoutTie['penalties'] = null;
+    if (last.home_score_penalty !== null && last.away_score_penalty !== null) {
+      penalties = last.home_team_id === home.id
+        ? { home: last.home_score_penalty, away: last.away_score_penalty }
+        : { home: last.away_score_penalty, away: last.home_score_penalty };
+    }
+
+    const status: KnockoutTie['status'] = legs.every(leg => leg.status === 'FINISHED')
+      ? 'FINISHED'
+      : legs.some(leg => leg.status === 'FINISHED' || leg.status === 'LIVE') ? 'IN_PROGRESS' : 'SCHEDULED';
+
+    let winnerId: number | null = null;
+    if (status === 'FINISHED' && aggregate) {
+      const [homeScore, awayScore] = aggregate.home !== aggregate.away || !penalties
+        ? [aggregate.home, aggregate.away]
+        : [penalties.home, penalties.away];
+      if (homeScore > awayScore) winnerId = home.id;
+      if (awayScore > homeScore) winnerId = away.id;
+    }
+
+    return {
+      round: first.round,
+      home_team: home,
+      away_team: away,
+      legs: legs.map((leg, index) => {
+        const { round, home_team, away_team, ...details } = leg;
+        return { ...details, leg: leg.leg ?? (legs.length > 1 ? index + 1 : null) };
+      }),
+      aggregate,
+      penalties,
+      winner_id: winnerId,
+      status
+    };
+  });
+}
@@ -0,0 +1,235 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import { CalibrationMethod, PredictionCalibration, PredictionMarket, PredictionModel } from '../types';
+import { ModelRegistry } from './ModelRegistry';
+import {
+  applyCalibration,
+  CALIBRATED_SELECTIONS,
+  CalibrationLookup,
+  CalibrationSample,
+  fitCalibration,
+  isHalfLine,
+  reliabilityDiagram
+} from './calibration';
+
+// Fewer settled selections than this leave a curve unfitted; leagues below it
+// fall back to the curve across leagues
+const MIN_CALIBRATION_SAMPLES = 300;
+
+// Prediction runs pick up a new fit within the hour
+const CALIBRATION_TTL_MS = 60 * 60 * 1000;
+
+type CalibrationMarket = Pick<PredictionMarket, 'market' | 'selection' | 'line' | 'probability' | 'raw_probability' | 'outcome'>;
+
+// A settled closing prediction of the model being calibrated
+export interface CalibrationPrediction {
+  league_id: number;
+  markets: CalibrationMarket[];
+}
+
+export type FittedCalibration = Pick<PredictionCalibration,
+  'league_id' | 'market' | 'selection' | 'method' | 'parameters' | 'samples' | 'reliability_before' | 'reliability_after'>;
+
+// Fits calibration curves per model, league, market and selection on the
+// model's settled closing predictions, and hands them to prediction runs
+export class CalibrationService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private modelRegistry: ModelRegistry;
+  private pageSize = 200;
+  private active = new Map<number, { calibrations: PredictionCalibration[]; expiresAt: number }>();
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+    this.modelRegistry = new ModelRegistry(supabase, logger);
+  }
+
+  async fitActiveModels(): Promise<void> {
+    for (const model of await this.modelRegistry.getActiveModels()) {
+      try {
+        await this.fitModel(model);
+      } catch (error) {
+        this.logger.error(`Failed to calibrate model ${model.name}@${model.version}:`, error);
+      }
+    }
+  }
+
+  // Stores the fit as the model's next calibration version and retires the
+  // previous one. Nothing changes when no selection has enough samples.
+  async fitModel(model: PredictionModel): Promise<PredictionCalibration[]> {
+    const method = model.config.calibration || 'isotonic';
+    if (method === 'none') return [];
+
+    const fitted = fitCalibrations(method, await this.loadSettledPredictions(model.id));
+    if (fitted.length === 0) {
+      this.logger.info(`Not enough settled predictions to calibrate model ${model.name}@${model.version}`);
+      return [];
+    }
+
+    const { data: latest, error: latestError } = await this.supabase
+      .from('prediction_calibrations')
+      .select('version')
+      .eq('model_id', model.id)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw new Error(`Failed to load the calibration version of model ${model.id}: ${latestError.message}`);
+    }
+
+    const version = latest ? latest.version + 1 : 1;
+    const fittedAt = new Date().toISOString();
+
+    const { data, error } = await this.supabase
+      .from('prediction_calibrations')
+      .insert(fitted.map(calibration => ({ ...calibration, model_id: model.id, version, active: true, fitted_at: fittedAt })))
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save calibration of model ${model.id}: ${error.message}`);
+    }
+
+    const { error: retireError } = await this.supabase
+      .from('prediction_calibrations')
+      .update({ active: false })
+      .eq('model_id', model.id)
+      .neq('version', version);
+
+    if (retireError) {
+      throw new Error(`Failed to retire old calibrations of model ${model.id}: ${retireError.message}`);
+    }
+
+    this.active.delete(model.id);
+    this.logger.info(`Calibrated model ${model.name}@${model.version} (version ${version}, ${fitted.length} curves)`);
+    return data || [];
+  }
+
+  // The model's active curves, for one league (plus the curves across
+  // leagues) when given
+  async getCalibrations(modelId: number, leagueId?: number): Promise<PredictionCalibration[]> {
+    let query = this.supabase
+      .from('prediction_calibrations')
+      .select('*')
+      .eq('model_id', modelId)
+      .eq('active', true);
+
+    if (leagueId) {
+      query = query.or(`league_id.eq.${leagueId},league_id.is.null`);
+    }
+
+    const { data, error } = await query
+      .order('market', { ascending: true })
+      .order('selection', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load calibrations of model ${modelId}: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // What a prediction run applies to the model's prices for a league; null
+  // leaves them uncalibrated
+  async getLookup(model: PredictionModel, leagueId: number): Promise<{ version: number; lookup: CalibrationLookup } | null> {
+    if (model.config.calibration === 'none') return null;
+
+    let cached = this.active.get(model.id);
+    if (!cached || cached.expiresAt <= Date.now()) {
+      cached = { calibrations: await this.getCalibrations(model.id), expiresAt: Date.now() + CALIBRATION_TTL_MS };
+      this.active.set(model.id, cached);
+    }
+
+    const { calibrations } = cached;
+    if (calibrations.length === 0) return null;
+
+    return {
+      version: calibrations[0].version,
+      lookup: (market, selection) => {
+        const curve = calibrations.find(row => row.market === market && row.selection === selection && row.league_id === leagueId)
+          || calibrations.find(row => row.market === market && row.selection === selection && row.league_id === null);
+        return curve ? probability => applyCalibration(curve.method, curve.parameters, probability) : null;
+      }
+    };
+  }
+
+  private async loadSettledPredictions(modelId: number): Promise<CalibrationPrediction[]> {
+    const predictions: CalibrationPrediction[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await this.supabase
+        .from('predictions')
+        .select(`
+          id,
+          match:matches!inner(league_id),
+          markets:prediction_markets(market, selection, line, probability, raw_probability, outcome)
+        `)
+        .eq('model_id', modelId)
+        .eq('is_closing', true)
+        .not('settled_at', 'is', null)
+        .in('markets.outcome', ['HIT', 'MISS'])
+        .order('id', { ascending: true })
+        .range(offset, offset + this.pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to load settled predictions of model ${modelId}: ${error.message}`);
+      }
+
+      for (const row of (data || []) as any[]) {
+        const match = Array.isArray(row.match) ? row.match[0] : row.match;
+        predictions.push({ league_id: match.league_id, markets: row.markets || [] });
+      }
+
+      if (!data || data.length < this.pageSize) return predictions;
+
+      offset += this.pageSize;
+    }
+  }
+}
+
+// One curve per calibrated selection across leagues and one per league, each
+// fitted on the raw probabilities of selections that settled as a plain hit
+// or miss
+export function fitCalibrations(method: CalibrationMethod, predictions: CalibrationPrediction[]): FittedCalibration[] {
+  const groups = new Map<string, Pick<FittedCalibration, 'league_id' | 'market' | 'selection'> & { samples: CalibrationSample[] }>();
+
+  for (const prediction of predictions) {
+    for (const row of prediction.markets) {
+      const line = row.line === null ? null : Number(row.line);
+      const calibrated = CALIBRATED_SELECTIONS.some(([market, selection]) => market === row.market && selection === row.selection);
+      if (!calibrated || (line !== null && !isHalfLine(line))) continue;
+      if (row.outcome !== 'HIT' && row.outcome !== 'MISS') continue;
+
+      const sample = {
+        probability: Number(row.raw_probability !== null && row.raw_probability !== undefined ? row.raw_probability : row.probability),
+        hit: row.outcome === 'HIT'
+      };
+
+      for (const leagueId of [null, prediction.league_id]) {
+        const key = [leagueId === null ? '' : leagueId, row.market, row.selection].join('|');
+        if (!groups.has(key)) {
+          groups.set(key, { league_id: leagueId, market: row.market, selection: row.selection, samples: [] });
+        }
+        groups.get(key).samples.push(sample);
+      }
+    }
+  }
+
+  return [...groups.values()]
+    .filter(group => group.samples.length >= MIN_CALIBRATION_SAMPLES)
+    .map(({ samples, ...group }) => {
+      const parameters = fitCalibration(method, samples);
+      const calibrated = samples.map(sample => ({ ...sample, probability: applyCalibration(method, parameters, sample.probability) }));
+
+      return {
+        ...group,
+        method,
+        parameters,
+        samples: samples.length,
+        reliability_before: reliabilityDiagram(samples),
+        reliability_after: reliabilityDiagram(calibrated)
+      };
+    });
+}
@@ -1,30 +1,78 @@
 import { SupabaseClient } from '@supabase/supabase-js';
-import axios from 'axios';
 import winston from 'winston';
 import moment from 'moment';
 import { 
+  Absence,
   League, 
   Team, 
+  Venue,
   Match, 
+  MatchEvent,
+  Lineup,
+  LineupPlayer,
+  Player,
+  PlayerSeasonStats,
+  Season,
   MatchStatistics, 
   SUPPORTED_LEAGUES,
-  LeagueConfig 
+  LeagueConfig,
+  FootballDataProvider,
+  ProviderAbsence,
+  ProviderEndpoint,
+  ProviderEndpointData,
+  ProviderFixture,
+  ProviderFixtureEvent,
+  ProviderLeague,
+  ProviderLineup,
+  ProviderOdds,
+  ProviderPlayer,
+  ProviderRequestOptions,
+  ProviderTeam,
+  ProviderTeamStatistics,
+  QuotaStatus,
+  ResponseReplayFilters,
+  SyncResult,
+  DuplicateMergeReport
 } from '../types';
+import { createProviders, providerNameFor } from '../providers';
+import { ResponseStore } from './ResponseStore';
+import { IdMappingService } from './IdMappingService';
+import { SeasonService } from './SeasonService';
+import { OddsService } from './OddsService';
+import { groupLegs } from './BracketService';
+
+// Kickoff plus a full match with stoppage time, extra time and penalties;
+// events and statistics fetched after this are final
+const FINAL_AFTER_MINUTES = 180;
+
+// Line-ups are announced about an hour before kickoff
+const LINEUP_WINDOW_MINUTES = 90;
+
+// Injury news for the next two days, re-checked every six hours
+const ABSENCE_WINDOW_HOURS = 48;
+const ABSENCE_REFRESH_HOURS = 6;
+
+// Prices for the next three days, re-checked every three hours
+const ODDS_WINDOW_HOURS = 72;
+const ODDS_REFRESH_HOURS = 3;
 
 export class DataService {
   private supabase: SupabaseClient;
   private logger: winston.Logger;
-  private apiKey: string;
-  private baseUrl = 'https://v3.football.api-sports.io';
+  private providers: Record<string, FootballDataProvider>;
+  private responseStore: ResponseStore;
+  private idMapping: IdMappingService;
+  private seasonService: SeasonService;
+  private oddsService: OddsService;
 
-  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+  constructor(supabase: SupabaseClient, logger: winston.Logger, providers?: Record<string, FootballDataProvider>) {
     this.supabase = supabase;
     this.logger = logger;
-    this.apiKey = process.env.API_FOOTBALL_KEY || '';
-    
-    if (!this.apiKey) {
-      this.logger.error('API Football key not found in environment variables');
-    }
+    this.providers = providers || createProviders(supabase, logger);
+    this.responseStore = new ResponseStore(supabase, logger);
+    this.idMapping = new IdMappingService(supabase, logger);
+    this.seasonService = new SeasonService(supabase, logger);
+    this.oddsService = new OddsService(supabase, logger, this.idMapping);
   }
 
   async initialize(): Promise<void> {
@@ -54,13 +102,10 @@ export class DataService {
     this.logger.info('Starting full data update...');
     
     try {
-      for (const league of SUPPORTED_LEAGUES) {
-        if (league.active) {
-          await this.updateLeagueData(league);
-          // Add delay to respect API rate limits
-          await this.delay(1000);
-        }
-      }
+      // Leagues run side by side; the provider's request scheduler paces the
+      // calls and serves higher-priority leagues first
+      const activeLeagues = SUPPORTED_LEAGUES.filter(league => league.active);
+      await Promise.all(activeLeagues.map(league => this.updateLeagueData(league)));
       
       this.logger.info('Full data update completed');
     } catch (error) {
@@ -73,19 +118,30 @@ export class DataService {
     this.logger.info(`Updating data for ${league.name}...`);
     
     try {
-      // Get current season
-      const currentSeason = new Date().getFullYear();
+      const options: ProviderRequestOptions = { priority: league.priority };
       
-      // Update league info
-      await this.updateLeagueInfo(league, currentSeason);
+      // Resolve the current season (refreshes league info when the cache expires)
+      const currentSeason = await this.resolveCurrentSeason(league, options);
       
       // Update teams
-      await this.updateTeams(league.apiId, currentSeason);
+      await this.updateTeams(league, currentSeason, options);
       
       // Update matches (last 30 days and next 30 days)
       const fromDate = moment().subtract(30, 'days').format('YYYY-MM-DD');
       const toDate = moment().add(30, 'days').format('YYYY-MM-DD');
-      await this.updateMatches(league.apiId, currentSeason, fromDate, toDate);
+      const fixtures = await this.updateMatches(league, currentSeason, fromDate, toDate, options);
+      
+      // Update goal, card and substitution timelines
+      await this.updateMatchEvents(league, fixtures, options);
+      
+      // Update team statistics of newly finished matches
+      await this.updateFinishedMatchStatistics(league, fixtures, options);
+      
+      // Update injuries and suspensions for upcoming matches
+      await this.updateMatchAbsences(league, fixtures, options);
+      
+      // Update bookmaker prices for upcoming matches
+      await this.updateMatchOdds(league, fixtures, options);
       
       this.logger.info(`Data update completed for ${league.name}`);
     } catch (error) {
@@ -93,159 +149,542 @@ export class DataService {
     }
   }
 
-  private async updateLeagueInfo(league: LeagueConfig, season: number): Promise<void> {
+  // Current season as flagged by the provider, cached by SeasonService
+  async resolveCurrentSeason(league: LeagueConfig, options: ProviderRequestOptions = {}): Promise<number> {
+    const cached = this.seasonService.getCachedSeason(league);
+    if (cached) return cached;
+
     try {
-      const response = await this.makeApiRequest(`/leagues?id=${league.apiId}&season=${season}`);
-      
-      if (response.data && response.data.length > 0) {
-        const leagueData = response.data[0];
-        
-        const leagueInfo: Partial<League> = {
-          name: leagueData.league.name,
-          country: leagueData.country.name,
-          logo: leagueData.league.logo,
-          flag: leagueData.country.flag,
-          season: season,
-          round: leagueData.seasons[0]?.round || 'Regular Season'
-        };
+      const leagueData = await this.syncLeagueInfo(league, options);
+      const current = leagueData?.seasons.find(season => season.current);
+      if (current) return current.year;
+    } catch (error) {
+      this.logger.error(`Failed to resolve current season for ${league.name}:`, error);
+    }
 
-        // Upsert league data
-        const { error } = await this.supabase
-          .from('leagues')
-          .upsert([leagueInfo], { onConflict: 'id' });
+    const fallback = this.seasonService.fallbackSeason(league);
+    this.logger.warn(`No current season from provider for ${league.name}, using ${fallback}`);
+    return fallback;
+  }
 
-        if (error) {
-          this.logger.error(`Failed to upsert league ${league.name}:`, error);
-        }
+  // The sync* methods fetch, save and record one provider resource and let
+  // errors propagate; the update* wrappers log them for the hourly job. A
+  // response is only recorded once it was saved in full, so anything skipped
+  // or failed is saved again on the next fetch.
+  async syncLeagueInfo(league: LeagueConfig, options: ProviderRequestOptions = {}): Promise<ProviderLeague | null> {
+    const provider = this.getProvider(league);
+    const params = { id: league.apiId };
+    const { body, data: leagueData } = await this.fetch(provider, 'leagues', params, options);
+    
+    const { changed } = await this.responseStore.check(provider.name, 'leagues', params, body);
+    if (!changed) {
+      this.logger.info(`League info for ${league.name} unchanged, skipping upsert`);
+      this.seasonService.rememberCurrentSeason(league, leagueData?.seasons || []);
+      return leagueData;
+    }
+
+    if (await this.saveLeagueInfo(provider.name, league, leagueData)) {
+      await this.responseStore.record(provider.name, 'leagues', params, body);
+    }
+
+    return leagueData;
+  }
+
+  private async saveLeagueInfo(providerName: string, league: LeagueConfig, leagueData: ProviderLeague | null): Promise<boolean> {
+    if (!leagueData) return true;
+
+    const current = leagueData.seasons.find(season => season.current);
+    const latest = Math.max(...leagueData.seasons.map(season => season.year));
+
+    const leagueInfo: Partial<League> = {
+      name: leagueData.name,
+      country: leagueData.country,
+      logo: leagueData.logo,
+      flag: leagueData.flag,
+      season: current ? current.year : latest,
+      round: 'Regular Season'
+    };
+
+    const leagueId = await this.idMapping.upsert('league', providerName, leagueData.externalId, leagueInfo);
+    if (leagueId === null) {
+      this.logger.error(`Failed to upsert league ${league.name}`);
+      return false;
+    }
+
+    return this.seasonService.saveSeasons(league, leagueId, leagueData.seasons);
+  }
+
+  // Player statistics take one request per 20 players, so they are refreshed
+  // once a day rather than with the hourly update
+  async updatePlayerData(): Promise<void> {
+    this.logger.info('Starting player statistics update...');
+
+    const activeLeagues = SUPPORTED_LEAGUES.filter(league => league.active);
+    await Promise.all(activeLeagues.map(async league => {
+      try {
+        const options: ProviderRequestOptions = { priority: league.priority };
+        const season = await this.resolveCurrentSeason(league, options);
+        await this.syncPlayers(league, season, options);
+      } catch (error) {
+        this.logger.error(`Failed to update players for ${league.name}:`, error);
       }
-    } catch (error) {
-      this.logger.error(`Failed to update league info for ${league.name}:`, error);
+    }));
+
+    this.logger.info('Player statistics update completed');
+  }
+
+  async syncPlayers(league: LeagueConfig, season: number, options: ProviderRequestOptions = {}): Promise<ProviderPlayer[]> {
+    const provider = this.getProvider(league);
+    const params = { league: league.apiId, season };
+    const { body, data: players } = await this.fetch(provider, 'players', params, options);
+
+    const { changed } = await this.responseStore.check(provider.name, 'players', params, body);
+    if (!changed) {
+      this.logger.info(`Players for ${league.name} unchanged, skipping upsert`);
+      return players;
+    }
+
+    if (await this.savePlayers(provider.name, players)) {
+      await this.responseStore.record(provider.name, 'players', params, body);
     }
+
+    return players;
   }
 
-  private async updateTeams(leagueId: number, season: number): Promise<void> {
+  private async updateTeams(league: LeagueConfig, season: number, options: ProviderRequestOptions): Promise<void> {
     try {
-      const response = await this.makeApiRequest(`/teams?league=${leagueId}&season=${season}`);
-      
-      if (response.data && response.data.length > 0) {
-        for (const teamData of response.data) {
-          const team: Partial<Team> = {
-            name: teamData.team.name,
-            code: teamData.team.code,
-            country: teamData.team.country,
-            founded: teamData.team.founded,
-            national: teamData.team.national,
-            logo: teamData.team.logo,
-            venue_id: teamData.venue?.id || null
-          };
+      await this.syncTeams(league, season, options);
+    } catch (error) {
+      this.logger.error(`Failed to update teams for league ${league.name}:`, error);
+    }
+  }
 
-          // Upsert team data
-          const { error } = await this.supabase
-            .from('teams')
-            .upsert([team], { onConflict: 'id' });
+  // An unchanged response was recorded after a full save, so it counts as complete
+  async syncTeams(league: LeagueConfig, season: number, options: ProviderRequestOptions = {}): Promise<SyncResult<ProviderTeam[]>> {
+    const provider = this.getProvider(league);
+    const params = { league: league.apiId, season };
+    const { body, data: teams } = await this.fetch(provider, 'teams', params, options);
 
-          if (error) {
-            this.logger.error(`Failed to upsert team ${team.name}:`, error);
-          }
+    const { changed } = await this.responseStore.check(provider.name, 'teams', params, body);
+    if (!changed) {
+      this.logger.info(`Teams for ${league.name} unchanged, skipping upsert`);
+      return { data: teams, complete: true };
+    }
 
-          // Update venue if exists
-          if (teamData.venue) {
-            const venue = {
-              id: teamData.venue.id,
-              name: teamData.venue.name,
-              city: teamData.venue.city,
-              capacity: teamData.venue.capacity,
-              surface: teamData.venue.surface,
-              image: teamData.venue.image
-            };
-
-            const { error: venueError } = await this.supabase
-              .from('venues')
-              .upsert([venue], { onConflict: 'id' });
-
-            if (venueError) {
-              this.logger.error(`Failed to upsert venue ${venue.name}:`, venueError);
-            }
-          }
+    const complete = await this.saveTeams(provider.name, teams);
+    if (complete) {
+      await this.responseStore.record(provider.name, 'teams', params, body);
+    }
+
+    return { data: teams, complete };
+  }
+
+  private async saveTeams(providerName: string, teams: ProviderTeam[]): Promise<boolean> {
+    let complete = true;
+
+    for (const teamData of teams) {
+      let venueId: number | null = null;
+
+      // Save the venue first so the team can reference it
+      if (teamData.venue) {
+        const venue: Partial<Venue> = {
+          name: teamData.venue.name,
+          city: teamData.venue.city,
+          capacity: teamData.venue.capacity,
+          surface: teamData.venue.surface,
+          image: teamData.venue.image
+        };
+
+        venueId = await this.idMapping.upsert('venue', providerName, teamData.venue.externalId, venue);
+        if (venueId === null) {
+          this.logger.error(`Failed to upsert venue ${venue.name}`);
+          complete = false;
         }
       }
-    } catch (error) {
-      this.logger.error(`Failed to update teams for league ${leagueId}:`, error);
+
+      const team: Partial<Team> = {
+        name: teamData.name,
+        code: teamData.code,
+        country: teamData.country,
+        founded: teamData.founded,
+        national: teamData.national,
+        logo: teamData.logo,
+        venue_id: venueId
+      };
+
+      const teamId = await this.idMapping.upsert('team', providerName, teamData.externalId, team);
+      if (teamId === null) {
+        this.logger.error(`Failed to upsert team ${team.name}`);
+        complete = false;
+      }
     }
+
+    return complete;
   }
 
-  private async updateMatches(leagueId: number, season: number, fromDate: string, toDate: string): Promise<void> {
+  private async updateMatches(league: LeagueConfig, season: number, fromDate: string, toDate: string, options: ProviderRequestOptions): Promise<ProviderFixture[]> {
     try {
-      const response = await this.makeApiRequest(
-        `/fixtures?league=${leagueId}&season=${season}&from=${fromDate}&to=${toDate}`
-      );
-      
-      if (response.data && response.data.length > 0) {
-        for (const fixture of response.data) {
-          const match: Partial<Match> = {
-            date: fixture.fixture.date,
-            referee: fixture.fixture.referee,
-            venue_id: fixture.fixture.venue?.id || null,
-            league_id: fixture.league.id,
-            home_team_id: fixture.teams.home.id,
-            away_team_id: fixture.teams.away.id,
-            home_goals: fixture.goals.home,
-            away_goals: fixture.goals.away,
-            home_score_halftime: fixture.score.halftime?.home,
-            away_score_halftime: fixture.score.halftime?.away,
-            home_score_fulltime: fixture.score.fulltime?.home,
-            away_score_fulltime: fixture.score.fulltime?.away,
-            home_score_extratime: fixture.score.extratime?.home,
-            away_score_extratime: fixture.score.extratime?.away,
-            home_score_penalty: fixture.score.penalty?.home,
-            away_score_penalty: fixture.score.penalty?.away,
-            status: this.mapFixtureStatus(fixture.fixture.status.short),
-            elapsed: fixture.fixture.status.elapsed
-          };
+      return (await this.syncFixtures(league, season, fromDate, toDate, options)).data;
+    } catch (error) {
+      this.logger.error(`Failed to update matches for league ${league.name}:`, error);
+      return [];
+    }
+  }
 
-          // Upsert match data
-          const { error } = await this.supabase
-            .from('matches')
-            .upsert([match], { onConflict: 'id' });
+  // Live matches are refreshed every run; finished ones until their events have
+  // been fetched after the final whistle
+  private async updateMatchEvents(league: LeagueConfig, fixtures: ProviderFixture[], options: ProviderRequestOptions): Promise<void> {
+    const provider = this.getProvider(league);
 
-          if (error) {
-            this.logger.error(`Failed to upsert match ${fixture.fixture.id}:`, error);
-          }
+    for (const fixture of fixtures) {
+      if (fixture.status !== 'LIVE' && fixture.status !== 'FINISHED') continue;
 
-          // Update match statistics if available
-          if (fixture.statistics && fixture.statistics.length > 0) {
-            await this.updateMatchStatistics(fixture.fixture.id, fixture.statistics);
+      try {
+        if (fixture.status === 'FINISHED') {
+          const lastSeenAt = await this.responseStore.lastSeenAt(provider.name, 'fixtures/events', { fixture: fixture.externalId });
+          if (lastSeenAt && moment(lastSeenAt).isAfter(moment(fixture.date).add(FINAL_AFTER_MINUTES, 'minutes'))) continue;
+        }
+
+        await this.syncFixtureEvents(league, fixture.externalId, options);
+      } catch (error) {
+        this.logger.error(`Failed to update events for fixture ${fixture.externalId}:`, error);
+      }
+    }
+  }
+
+  // Finished matches until their statistics have been fetched after the final
+  // whistle; the provider fills them in during and shortly after the match
+  private async updateFinishedMatchStatistics(league: LeagueConfig, fixtures: ProviderFixture[], options: ProviderRequestOptions): Promise<void> {
+    const provider = this.getProvider(league);
+
+    for (const fixture of fixtures) {
+      if (fixture.status !== 'FINISHED') continue;
+
+      try {
+        const lastSeenAt = await this.responseStore.lastSeenAt(provider.name, 'fixtures/statistics', { fixture: fixture.externalId });
+        if (lastSeenAt && moment(lastSeenAt).isAfter(moment(fixture.date).add(FINAL_AFTER_MINUTES, 'minutes'))) continue;
+
+        await this.syncFixtureStatistics(league, fixture.externalId, options);
+      } catch (error) {
+        this.logger.error(`Failed to update statistics for fixture ${fixture.externalId}:`, error);
+      }
+    }
+  }
+
+  async syncFixtures(league: LeagueConfig, season: number, fromDate: string, toDate: string, options: ProviderRequestOptions = {}): Promise<SyncResult<ProviderFixture[]>> {
+    const provider = this.getProvider(league);
+    const params = { league: league.apiId, season, from: fromDate, to: toDate };
+    const { body, data: fixtures } = await this.fetch(provider, 'fixtures', params, options);
+
+    const { changed } = await this.responseStore.check(provider.name, 'fixtures', params, body);
+    if (!changed) {
+      this.logger.info(`Fixtures for ${league.name} unchanged, skipping upsert`);
+      return { data: fixtures, complete: true };
+    }
+
+    const complete = await this.saveMatches(provider.name, fixtures);
+    if (complete) {
+      await this.responseStore.record(provider.name, 'fixtures', params, body);
+    }
+
+    return { data: fixtures, complete };
+  }
+
+  // Provider ids of the season's finished matches we hold, without a provider call
+  async getFinishedFixtureIds(league: LeagueConfig, season: number): Promise<number[]> {
+    const provider = this.getProvider(league);
+    const leagueId = await this.idMapping.resolve('league', provider.name, league.apiId);
+    if (leagueId === null) return [];
+
+    const { data, error } = await this.supabase
+      .from('matches')
+      .select('id')
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .eq('status', 'FINISHED');
+
+    if (error) {
+      throw new Error(`Failed to load finished matches of ${league.name} ${season}: ${error.message}`);
+    }
+
+    const fixtureIds = await this.idMapping.findExternalIds('match', provider.name, (data || []).map(match => match.id));
+    return fixtureIds.sort((a, b) => a - b);
+  }
+
+  async syncFixtureStatistics(league: LeagueConfig, fixtureId: number, options: ProviderRequestOptions = {}): Promise<void> {
+    const provider = this.getProvider(league);
+    const params = { fixture: fixtureId };
+    const { body, data: statistics } = await this.fetch(provider, 'fixtures/statistics', params, options);
+
+    const { changed } = await this.responseStore.check(provider.name, 'fixtures/statistics', params, body);
+    if (changed && await this.updateMatchStatistics(provider.name, fixtureId, statistics)) {
+      await this.responseStore.record(provider.name, 'fixtures/statistics', params, body);
+    }
+  }
+
+  private async updateMatchAbsences(league: LeagueConfig, fixtures: ProviderFixture[], options: ProviderRequestOptions): Promise<void> {
+    const provider = this.getProvider(league);
+    const windowEnd = moment().add(ABSENCE_WINDOW_HOURS, 'hours');
+    const staleBefore = moment().subtract(ABSENCE_REFRESH_HOURS, 'hours');
+
+    for (const fixture of fixtures) {
+      if (fixture.status !== 'SCHEDULED' || moment(fixture.date).isAfter(windowEnd)) continue;
+
+      try {
+        const lastSeenAt = await this.responseStore.lastSeenAt(provider.name, 'injuries', { fixture: fixture.externalId });
+        if (lastSeenAt && moment(lastSeenAt).isAfter(staleBefore)) continue;
+
+        await this.syncFixtureAbsences(league, fixture.externalId, options);
+      } catch (error) {
+        this.logger.error(`Failed to update absences for fixture ${fixture.externalId}:`, error);
+      }
+    }
+  }
+
+  async syncFixtureAbsences(league: LeagueConfig, fixtureId: number, options: ProviderRequestOptions = {}): Promise<void> {
+    const provider = this.getProvider(league);
+    const params = { fixture: fixtureId };
+    const { body, data: absences } = await this.fetch(provider, 'injuries', params, options);
+
+    const { changed } = await this.responseStore.check(provider.name, 'injuries', params, body);
+    if (changed && await this.saveAbsences(provider.name, fixtureId, absences)) {
+      await this.responseStore.record(provider.name, 'injuries', params, body);
+    }
+  }
+
+  private async updateMatchOdds(league: LeagueConfig, fixtures: ProviderFixture[], options: ProviderRequestOptions): Promise<void> {
+    const provider = this.getProvider(league);
+    const windowEnd = moment().add(ODDS_WINDOW_HOURS, 'hours');
+    const staleBefore = moment().subtract(ODDS_REFRESH_HOURS, 'hours');
+
+    for (const fixture of fixtures) {
+      if (fixture.status !== 'SCHEDULED' || moment(fixture.date).isAfter(windowEnd)) continue;
+
+      try {
+        const lastSeenAt = await this.responseStore.lastSeenAt(provider.name, 'odds', { fixture: fixture.externalId });
+        if (lastSeenAt && moment(lastSeenAt).isAfter(staleBefore)) continue;
+
+        await this.syncFixtureOdds(league, fixture.externalId, options);
+      } catch (error) {
+        this.logger.error(`Failed to update odds for fixture ${fixture.externalId}:`, error);
+      }
+    }
+  }
+
+  async syncFixtureOdds(league: LeagueConfig, fixtureId: number, options: ProviderRequestOptions = {}): Promise<void> {
+    const provider = this.getProvider(league);
+    const params = { fixture: fixtureId };
+    const { body, data: odds } = await this.fetch(provider, 'odds', params, options);
+
+    const { changed } = await this.responseStore.check(provider.name, 'odds', params, body);
+    if (changed && await this.saveOdds(provider.name, fixtureId, odds)) {
+      await this.responseStore.record(provider.name, 'odds', params, body);
+    }
+  }
+
+  // Imports bookmaker files dropped into ODDS_DROP_DIR, 0 when no folder is configured
+  async importOddsDropFolder(dir: string | undefined = process.env.ODDS_DROP_DIR): Promise<number> {
+    if (!dir) return 0;
+    return this.oddsService.importDropFolder(dir);
+  }
+
+  async syncFixtureEvents(league: LeagueConfig, fixtureId: number, options: ProviderRequestOptions = {}): Promise<void> {
+    const provider = this.getProvider(league);
+    const params = { fixture: fixtureId };
+    const { body, data: events } = await this.fetch(provider, 'fixtures/events', params, options);
+
+    const { changed } = await this.responseStore.check(provider.name, 'fixtures/events', params, body);
+    if (changed && await this.saveMatchEvents(provider.name, fixtureId, events)) {
+      await this.responseStore.record(provider.name, 'fixtures/events', params, body);
+    }
+  }
+
+  // Returns true when newly announced or changed line-ups were saved
+  async syncFixtureLineups(league: LeagueConfig, fixtureId: number, options: ProviderRequestOptions = {}): Promise<boolean> {
+    const provider = this.getProvider(league);
+    const params = { fixture: fixtureId };
+    const { body, data: lineups } = await this.fetch(provider, 'fixtures/lineups', params, options);
+
+    const { changed } = await this.responseStore.check(provider.name, 'fixtures/lineups', params, body);
+    if (!changed) return false;
+
+    const saved = await this.saveLineups(provider.name, fixtureId, lineups);
+    if (saved) {
+      await this.responseStore.record(provider.name, 'fixtures/lineups', params, body);
+    }
+
+    return saved && lineups.length > 0;
+  }
+
+  // Polls line-ups for every match kicking off soon and returns the ids of the
+  // matches whose line-ups changed, so their predictions can be regenerated
+  async refreshUpcomingLineups(withinMinutes: number = LINEUP_WINDOW_MINUTES): Promise<number[]> {
+    const updated: number[] = [];
+    const fromDate = new Date().toISOString();
+    const toDate = moment().add(withinMinutes, 'minutes').toISOString();
+
+    for (const league of SUPPORTED_LEAGUES.filter(config => config.active)) {
+      try {
+        const provider = this.getProvider(league);
+        const leagueId = await this.idMapping.resolve('league', provider.name, league.apiId);
+        if (leagueId === null) continue;
+
+        const { data: matches, error } = await this.supabase
+          .from('matches')
+          .select('id')
+          .eq('league_id', leagueId)
+          .eq('status', 'SCHEDULED')
+          .gte('date', fromDate)
+          .lte('date', toDate);
+
+        if (error) {
+          this.logger.error(`Failed to get upcoming matches for ${league.name}:`, error);
+          continue;
+        }
+
+        for (const match of matches || []) {
+          const fixtureId = await this.idMapping.findExternalId('match', provider.name, match.id);
+          if (fixtureId === null) continue;
+
+          if (await this.syncFixtureLineups(league, fixtureId, { priority: league.priority })) {
+            updated.push(match.id);
           }
         }
+      } catch (error) {
+        this.logger.error(`Failed to refresh lineups for ${league.name}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
+  private async saveMatches(providerName: string, fixtures: ProviderFixture[]): Promise<boolean> {
+    let complete = true;
+
+    // Knockout rounds whose legs still need numbering
+    const tieRounds = new Map<string, { leagueId: number; season: number; round: string }>();
+
+    for (const fixture of fixtures) {
+      const leagueId = await this.idMapping.resolve('league', providerName, fixture.leagueExternalId);
+      const homeTeamId = await this.idMapping.resolve('team', providerName, fixture.homeTeamExternalId);
+      const awayTeamId = await this.idMapping.resolve('team', providerName, fixture.awayTeamExternalId);
+
+      if (homeTeamId === null || awayTeamId === null) {
+        this.logger.warn(`Skipping match ${fixture.externalId}: teams ${fixture.homeTeamExternalId}/${fixture.awayTeamExternalId} not ingested yet`);
+        complete = false;
+        continue;
+      }
+
+      const match: Partial<Match> = {
+        date: fixture.date,
+        referee: fixture.referee,
+        venue_id: await this.idMapping.resolve('venue', providerName, fixture.venueExternalId),
+        league_id: leagueId,
+        home_team_id: homeTeamId,
+        away_team_id: awayTeamId,
+        home_goals: fixture.goals.home,
+        away_goals: fixture.goals.away,
+        home_score_halftime: fixture.halftime.home,
+        away_score_halftime: fixture.halftime.away,
+        home_score_fulltime: fixture.fulltime.home,
+        away_score_fulltime: fixture.fulltime.away,
+        home_score_extratime: fixture.extratime.home,
+        away_score_extratime: fixture.extratime.away,
+        home_score_penalty: fixture.penalty.home,
+        away_score_penalty: fixture.penalty.away,
+        status: fixture.status,
+        elapsed: fixture.elapsed,
+        season: fixture.season,
+        round: fixture.round || null,
+        stage: fixture.stage,
+        group_name: fixture.group,
+        matchday: fixture.matchday
+      };
+
+      if (fixture.leg !== null) {
+        match.leg = fixture.leg;
+      } else if (leagueId !== null && (fixture.stage === 'KNOCKOUT' || fixture.stage === 'QUALIFYING')) {
+        tieRounds.set(`${leagueId}|${fixture.season}|${fixture.round}`, { leagueId, season: fixture.season, round: fixture.round });
+      }
+
+      const matchId = await this.idMapping.upsert('match', providerName, fixture.externalId, match);
+      if (matchId === null) {
+        this.logger.error(`Failed to upsert match ${fixture.externalId}`);
+        complete = false;
+        continue;
+      }
+
+      // Update match statistics if available
+      if (fixture.statistics && fixture.statistics.length > 0) {
+        complete = await this.updateMatchStatistics(providerName, fixture.externalId, fixture.statistics) && complete;
+      }
+    }
+
+    for (const { leagueId, season, round } of tieRounds.values()) {
+      complete = await this.numberLegs(leagueId, season, round) && complete;
+    }
+
+    return complete;
+  }
+
+  // The provider does not name legs, so two matches of a round between the same
+  // teams are legs 1 and 2 in date order
+  private async numberLegs(leagueId: number, season: number, round: string): Promise<boolean> {
+    let complete = true;
+
+    const { data: matches, error } = await this.supabase
+      .from('matches')
+      .select('id, date, round, leg, home_team_id, away_team_id')
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .eq('round', round);
+
+    if (error) {
+      this.logger.error(`Failed to load ${round} matches for league ${leagueId}:`, error);
+      return false;
+    }
+
+    for (const legs of groupLegs(matches || [])) {
+      for (const [index, match] of legs.entries()) {
+        const leg = legs.length > 1 ? index + 1 : null;
+        if (match.leg === leg) continue;
+
+        const { error: updateError } = await this.supabase
+          .from('matches')
+          .update({ leg })
+          .eq('id', match.id);
+
+        if (updateError) {
+          this.logger.error(`Failed to set leg of match ${match.id}:`, updateError);
+          complete = false;
+        }
       }
-    } catch (error) {
-      this.logger.error(`Failed to update matches for league ${leagueId}:`, error);
     }
+
+    return complete;
   }
 
-  private async updateMatchStatistics(matchId: number, statistics: any[]): Promise<void> {
+  private async updateMatchStatistics(providerName: string, fixtureId: number, statistics: ProviderTeamStatistics[]): Promise<boolean> {
     try {
+      const matchId = await this.idMapping.resolve('match', providerName, fixtureId);
+      if (matchId === null) {
+        this.logger.warn(`Skipping statistics for unknown fixture ${fixtureId}`);
+        return false;
+      }
+
+      let complete = true;
+
       for (const stat of statistics) {
+        const teamId = await this.idMapping.resolve('team', providerName, stat.teamExternalId);
+        if (teamId === null) {
+          complete = false;
+          continue;
+        }
+
         const matchStat: Partial<MatchStatistics> = {
           match_id: matchId,
-          team_id: stat.team.id,
-          shots_on_goal: stat.statistics.find((s: any) => s.type === 'Shots on Goal')?.value,
-          shots_off_goal: stat.statistics.find((s: any) => s.type === 'Shots off Goal')?.value,
-          total_shots: stat.statistics.find((s: any) => s.type === 'Total Shots')?.value,
-          blocked_shots: stat.statistics.find((s: any) => s.type === 'Blocked Shots')?.value,
-          shots_inside_box: stat.statistics.find((s: any) => s.type === 'Shots insidebox')?.value,
-          shots_outside_box: stat.statistics.find((s: any) => s.type === 'Shots outsidebox')?.value,
-          fouls: stat.statistics.find((s: any) => s.type === 'Fouls')?.value,
-          corner_kicks: stat.statistics.find((s: any) => s.type === 'Corner Kicks')?.value,
-          offsides: stat.statistics.find((s: any) => s.type === 'Offsides')?.value,
-          ball_possession: stat.statistics.find((s: any) => s.type === 'Ball Possession')?.value,
-          yellow_cards: stat.statistics.find((s: any) => s.type === 'Yellow Cards')?.value,
-          red_cards: stat.statistics.find((s: any) => s.type === 'Red Cards')?.value,
-          goalkeeper_saves: stat.statistics.find((s: any) => s.type === 'Goalkeeper Saves')?.value,
-          total_passes: stat.statistics.find((s: any) => s.type === 'Total passes')?.value,
-          passes_accurate: stat.statistics.find((s: any) => s.type === 'Passes accurate')?.value,
-          passes_percentage: stat.statistics.find((s: any) => s.type === 'Passes %')?.value,
-          expected_goals: stat.statistics.find((s: any) => s.type === 'Expected Goals')?.value
+          team_id: teamId,
+          ...stat.values
         };
 
         const { error } = await this.supabase
@@ -254,42 +693,420 @@ export class DataService {
 
         if (error) {
           this.logger.error(`Failed to upsert match statistics for match ${matchId}:`, error);
+          complete = false;
         }
       }
+
+      return complete;
+    } catch (error) {
+      this.logger.error(`Failed to update match statistics for fixture ${fixtureId}:`, error);
+      return false;
+    }
+  }
+
+  // The provider always returns the full timeline, so replace what is stored
+  // (VAR decisions can remove or rewrite earlier events)
+  private async saveMatchEvents(providerName: string, fixtureId: number, events: ProviderFixtureEvent[]): Promise<boolean> {
+    try {
+      const matchId = await this.idMapping.resolve('match', providerName, fixtureId);
+      if (matchId === null) {
+        this.logger.warn(`Skipping events for unknown fixture ${fixtureId}`);
+        return false;
+      }
+
+      const rows: Partial<MatchEvent>[] = [];
+      for (const [index, event] of events.entries()) {
+        rows.push({
+          match_id: matchId,
+          team_id: await this.idMapping.resolve('team', providerName, event.teamExternalId),
+          sequence: index + 1,
+          elapsed: event.elapsed,
+          extra_time: event.extraTime,
+          type: event.type,
+          detail: event.detail,
+          player_name: event.playerName,
+          assist_name: event.assistName,
+          comments: event.comments
+        });
+      }
+
+      const { error: deleteError } = await this.supabase
+        .from('match_events')
+        .delete()
+        .eq('match_id', matchId);
+
+      if (deleteError) {
+        this.logger.error(`Failed to clear events for match ${matchId}:`, deleteError);
+        return false;
+      }
+
+      if (rows.length === 0) return true;
+
+      const { error } = await this.supabase
+        .from('match_events')
+        .insert(rows);
+
+      if (error) {
+        this.logger.error(`Failed to insert events for match ${matchId}:`, error);
+        return false;
+      }
+
+      return true;
     } catch (error) {
-      this.logger.error(`Failed to update match statistics for match ${matchId}:`, error);
+      this.logger.error(`Failed to save events for fixture ${fixtureId}:`, error);
+      return false;
     }
   }
 
-  private async makeApiRequest(endpoint: string): Promise<any> {
+  // Replaces the match's absence list, players return from injury between checks
+  private async saveAbsences(providerName: string, fixtureId: number, absences: ProviderAbsence[]): Promise<boolean> {
     try {
-      const response = await axios.get(`${this.baseUrl}${endpoint}`, {
-        headers: {
-          'x-rapidapi-host': 'v3.football.api-sports.io',
-          'x-rapidapi-key': this.apiKey
+      const matchId = await this.idMapping.resolve('match', providerName, fixtureId);
+      if (matchId === null) {
+        this.logger.warn(`Skipping absences for unknown fixture ${fixtureId}`);
+        return false;
+      }
+
+      let complete = true;
+      const rows: Partial<Absence>[] = [];
+      for (const absence of absences) {
+        const teamId = await this.idMapping.resolve('team', providerName, absence.teamExternalId);
+        if (teamId === null) {
+          complete = false;
+          continue;
         }
-      });
 
-      return response.data;
+        rows.push({
+          match_id: matchId,
+          team_id: teamId,
+          player_id: await this.resolvePlayer(providerName, absence.playerExternalId, absence.playerName),
+          player_name: absence.playerName,
+          status: absence.status,
+          kind: absence.kind,
+          reason: absence.reason
+        });
+      }
+
+      const { error: deleteError } = await this.supabase
+        .from('absences')
+        .delete()
+        .eq('match_id', matchId);
+
+      if (deleteError) {
+        this.logger.error(`Failed to clear absences for match ${matchId}:`, deleteError);
+        return false;
+      }
+
+      if (rows.length === 0) return complete;
+
+      const { error } = await this.supabase
+        .from('absences')
+        .insert(rows);
+
+      if (error) {
+        this.logger.error(`Failed to insert absences for match ${matchId}:`, error);
+        return false;
+      }
+
+      return complete;
     } catch (error) {
-      this.logger.error(`API request failed for ${endpoint}:`, error);
-      throw error;
+      this.logger.error(`Failed to save absences for fixture ${fixtureId}:`, error);
+      return false;
     }
   }
 
-  private mapFixtureStatus(status: string): Match['status'] {
-    switch (status) {
-      case 'NS': return 'SCHEDULED';
-      case '1H': case '2H': case 'HT': return 'LIVE';
-      case 'FT': case 'AET': case 'PEN': return 'FINISHED';
-      case 'PST': case 'CANC': return 'CANCELLED';
-      case 'PEN': return 'FINISHED';
-      default: return 'SCHEDULED';
+  private async saveOdds(providerName: string, fixtureId: number, odds: ProviderOdds[]): Promise<boolean> {
+    try {
+      const matchId = await this.idMapping.resolve('match', providerName, fixtureId);
+      if (matchId === null) {
+        this.logger.warn(`Skipping odds for unknown fixture ${fixtureId}`);
+        return false;
+      }
+
+      await this.oddsService.saveOdds(matchId, odds);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to save odds for fixture ${fixtureId}:`, error);
+      return false;
     }
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async saveLineups(providerName: string, fixtureId: number, lineups: ProviderLineup[]): Promise<boolean> {
+    try {
+      const matchId = await this.idMapping.resolve('match', providerName, fixtureId);
+      if (matchId === null) {
+        this.logger.warn(`Skipping lineups for unknown fixture ${fixtureId}`);
+        return false;
+      }
+
+      let complete = true;
+
+      for (const lineupData of lineups) {
+        const teamId = await this.idMapping.resolve('team', providerName, lineupData.teamExternalId);
+        if (teamId === null) {
+          complete = false;
+          continue;
+        }
+
+        const lineup: Partial<Lineup> = {
+          match_id: matchId,
+          team_id: teamId,
+          formation: lineupData.formation,
+          coach_name: lineupData.coach ? lineupData.coach.name : null,
+          coach_photo: lineupData.coach ? lineupData.coach.photo : null
+        };
+
+        const { data: saved, error: lineupError } = await this.supabase
+          .from('lineups')
+          .upsert([lineup], { onConflict: 'match_id,team_id' })
+          .select('id')
+          .single();
+
+        if (lineupError || !saved) {
+          this.logger.error(`Failed to upsert lineup for match ${matchId} team ${teamId}:`, lineupError);
+          complete = false;
+          continue;
+        }
+
+        const entries = [
+          ...lineupData.startXI.map(player => ({ player, starting: true })),
+          ...lineupData.substitutes.map(player => ({ player, starting: false }))
+        ];
+
+        const rows: Partial<LineupPlayer>[] = [];
+        for (const [index, { player, starting }] of entries.entries()) {
+          rows.push({
+            lineup_id: saved.id,
+            player_id: await this.resolvePlayer(providerName, player.externalId, player.name),
+            player_name: player.name,
+            number: player.number,
+            position: player.position,
+            grid: player.grid,
+            starting,
+            sort_order: index + 1
+          });
+        }
+
+        // Late changes (injury in the warm-up) replace the announced list
+        const { error: deleteError } = await this.supabase
+          .from('lineup_players')
+          .delete()
+          .eq('lineup_id', saved.id);
+
+        if (deleteError) {
+          this.logger.error(`Failed to clear players of lineup ${saved.id}:`, deleteError);
+          complete = false;
+          continue;
+        }
+
+        if (rows.length === 0) continue;
+
+        const { error } = await this.supabase
+          .from('lineup_players')
+          .insert(rows);
+
+        if (error) {
+          this.logger.error(`Failed to insert players of lineup ${saved.id}:`, error);
+          complete = false;
+        }
+      }
+
+      return complete;
+    } catch (error) {
+      this.logger.error(`Failed to save lineups for fixture ${fixtureId}:`, error);
+      return false;
+    }
+  }
+
+  private async savePlayers(providerName: string, players: ProviderPlayer[]): Promise<boolean> {
+    let complete = true;
+
+    for (const playerData of players) {
+      try {
+        const player: Partial<Player> = {
+          name: playerData.name,
+          firstname: playerData.firstname,
+          lastname: playerData.lastname,
+          birth_date: playerData.birthDate,
+          nationality: playerData.nationality,
+          photo: playerData.photo
+        };
+
+        const playerId = await this.idMapping.upsert('player', providerName, playerData.externalId, player);
+        if (playerId === null) {
+          this.logger.error(`Failed to upsert player ${player.name}`);
+          complete = false;
+          continue;
+        }
+
+        for (const stat of playerData.statistics) {
+          // Statistics in competitions we do not follow are left out on purpose
+          const leagueId = await this.idMapping.resolve('league', providerName, stat.leagueExternalId);
+          if (leagueId === null) continue;
+
+          const teamId = await this.idMapping.resolve('team', providerName, stat.teamExternalId);
+          if (teamId === null) {
+            complete = false;
+            continue;
+          }
+
+          const seasonStats: Partial<PlayerSeasonStats> = {
+            player_id: playerId,
+            team_id: teamId,
+            league_id: leagueId,
+            season: stat.season,
+            position: stat.position,
+            appearances: stat.appearances,
+            lineups: stat.lineups,
+            minutes: stat.minutes,
+            goals: stat.goals,
+            assists: stat.assists,
+            expected_goals: stat.expectedGoals,
+            yellow_cards: stat.yellowCards,
+            red_cards: stat.redCards,
+            rating: stat.rating
+          };
+
+          const { error } = await this.supabase
+            .from('player_season_stats')
+            .upsert([seasonStats], { onConflict: 'player_id,team_id,league_id,season' });
+
+          if (error) {
+            this.logger.error(`Failed to upsert season statistics for player ${playerId}:`, error);
+            complete = false;
+          }
+        }
+      } catch (error) {
+        this.logger.error(`Failed to save player ${playerData.externalId}:`, error);
+        complete = false;
+      }
+    }
+
+    return complete;
+  }
+
+  // Creates a player on first sight without overwriting details from richer sources
+  private async resolvePlayer(providerName: string, externalId: number | null, name: string): Promise<number | null> {
+    if (externalId === null) return null;
+
+    const playerId = await this.idMapping.resolve('player', providerName, externalId);
+    if (playerId !== null) return playerId;
+
+    return this.idMapping.upsert('player', providerName, externalId, { name });
+  }
+
+  // Rebuilds tables from stored provider responses without any network calls,
+  // parsing each raw body with the current parser
+  async replayResponses(filters: ResponseReplayFilters = {}): Promise<number> {
+    this.logger.info('Replaying stored provider responses...', filters);
+
+    const replayed = await this.responseStore.forEach(filters, async (response) => {
+      const { provider, endpoint, params } = response;
+      const parser = this.providers[provider];
+
+      if (!parser) {
+        this.logger.warn(`Unknown provider "${provider}" of stored response ${response.id}`);
+        return;
+      }
+
+      const parse = <E extends ProviderEndpoint>(name: E) => parser.parseResponse(name, response.payload);
+
+      switch (endpoint) {
+        case 'leagues': {
+          const league = SUPPORTED_LEAGUES.find(config => config.apiId === Number(params.id));
+          if (league) {
+            await this.saveLeagueInfo(provider, league, parse('leagues'));
+          }
+          break;
+        }
+        case 'teams':
+          await this.saveTeams(provider, parse('teams'));
+          break;
+        case 'fixtures':
+          await this.saveMatches(provider, parse('fixtures'));
+          break;
+        case 'fixtures/statistics':
+          await this.updateMatchStatistics(provider, Number(params.fixture), parse('fixtures/statistics'));
+          break;
+        case 'fixtures/events':
+          await this.saveMatchEvents(provider, Number(params.fixture), parse('fixtures/events'));
+          break;
+        case 'fixtures/lineups':
+          await this.saveLineups(provider, Number(params.fixture), parse('fixtures/lineups'));
+          break;
+        case 'injuries':
+          await this.saveAbsences(provider, Number(params.fixture), parse('injuries'));
+          break;
+        case 'odds':
+          await this.saveOdds(provider, Number(params.fixture), parse('odds'));
+          break;
+        case 'players':
+          await this.savePlayers(provider, parse('players'));
+          break;
+        default:
+          this.logger.warn(`No replay handler for ${endpoint} response ${response.id}`);
+      }
+    });
+
+    this.logger.info(`Replayed ${replayed} stored responses`);
+    return replayed;
+  }
+
+  // Raw response body for storing, and what it parses into for saving
+  private async fetch<E extends ProviderEndpoint>(
+    provider: FootballDataProvider,
+    endpoint: E,
+    params: Record<string, string | number>,
+    options: ProviderRequestOptions
+  ): Promise<{ body: any; data: ProviderEndpointData[E] }> {
+    const body = await provider.fetchResponse(endpoint, params, options);
+    return { body, data: provider.parseResponse(endpoint, body) };
+  }
+
+  private getProvider(league: LeagueConfig): FootballDataProvider {
+    const name = providerNameFor(league);
+    const provider = this.providers[name];
+
+    if (!provider) {
+      throw new Error(`Unknown data provider "${name}" for ${league.name}`);
+    }
+
+    return provider;
+  }
+
+  // Season a stored league is in (on a date, or per the provider's current flag)
+  async getActiveSeason(leagueId: number, asOf?: string): Promise<Season | null> {
+    return this.seasonService.getActiveSeason(leagueId, asOf);
+  }
+
+  // Configuration of a stored league, null for competitions we do not follow
+  async getLeagueConfig(leagueId: number): Promise<LeagueConfig | null> {
+    for (const league of SUPPORTED_LEAGUES) {
+      const provider = this.getProvider(league);
+      if (await this.idMapping.resolve('league', provider.name, league.apiId) === Number(leagueId)) {
+        return league;
+      }
+    }
+
+    return null;
+  }
+
+  // Collapses rows duplicated by syncs that ran before provider id mapping
+  async mergeDuplicates(dryRun: boolean = false): Promise<DuplicateMergeReport> {
+    return this.idMapping.mergeDuplicates(dryRun);
+  }
+
+  // Remaining request budget of the provider serving a league, null when it has none
+  getProviderQuota(league: LeagueConfig): QuotaStatus | null {
+    const provider = this.getProvider(league);
+    return provider.getQuotaStatus ? provider.getQuotaStatus() : null;
+  }
+
+  // Remaining request budget for every provider that tracks one
+  getQuotaStatus(): QuotaStatus[] {
+    return Object.values(this.providers)
+      .filter(provider => provider.getQuotaStatus)
+      .map(provider => provider.getQuotaStatus!());
   }
 
   // Get upcoming matches for predictions
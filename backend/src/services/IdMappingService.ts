@@ -0,0 +1,412 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import { DuplicateMergeReport, MappedEntity } from '../types';
+
+const ENTITY_TABLES: Record<MappedEntity, string> = {
+  league: 'leagues',
+  venue: 'venues',
+  team: 'teams',
+  match: 'matches',
+  player: 'players'
+};
+
+// Entities that were ingested before provider id mapping and may hold duplicates
+type MergedEntity = Exclude<keyof DuplicateMergeReport, 'dryRun'>;
+
+// Columns that identify the same real-world row when merging duplicates
+const DUPLICATE_KEYS: Record<MergedEntity, string[]> = {
+  league: ['name', 'country'],
+  venue: ['name', 'city'],
+  team: ['name', 'country'],
+  match: ['date', 'home_team_id', 'away_team_id']
+};
+
+// Foreign keys that must follow a row when its duplicates are collapsed into
+// it; keep in step with the REFERENCES clauses of database/schema.sql
+const REFERENCES: Record<MergedEntity, { table: string; column: string }[]> = {
+  league: [
+    { table: 'matches', column: 'league_id' },
+    { table: 'seasons', column: 'league_id' },
+    { table: 'player_season_stats', column: 'league_id' },
+    { table: 'published_models', column: 'league_id' },
+    { table: 'team_ratings', column: 'league_id' },
+    { table: 'backtests', column: 'league_id' },
+    { table: 'prediction_calibrations', column: 'league_id' }
+  ],
+  venue: [
+    { table: 'teams', column: 'venue_id' },
+    { table: 'matches', column: 'venue_id' }
+  ],
+  team: [
+    { table: 'matches', column: 'home_team_id' },
+    { table: 'matches', column: 'away_team_id' },
+    { table: 'match_statistics', column: 'team_id' },
+    { table: 'match_events', column: 'team_id' },
+    { table: 'lineups', column: 'team_id' },
+    { table: 'absences', column: 'team_id' },
+    { table: 'player_season_stats', column: 'team_id' },
+    { table: 'team_ratings', column: 'team_id' },
+    { table: 'team_rating_history', column: 'team_id' }
+  ],
+  match: [
+    { table: 'match_statistics', column: 'match_id' },
+    { table: 'match_events', column: 'match_id' },
+    { table: 'lineups', column: 'match_id' },
+    { table: 'absences', column: 'match_id' },
+    { table: 'odds', column: 'match_id' },
+    { table: 'predictions', column: 'match_id' },
+    { table: 'team_ratings', column: 'last_match_id' },
+    { table: 'team_rating_history', column: 'match_id' }
+  ]
+};
+
+// Postgres error code of a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+// Translates provider ids (API-Football team.id, fixture.id, ...) into our own
+// primary keys. Every ingestion upsert goes through here so a row is inserted
+// once per provider entity and updated in place afterwards.
+export class IdMappingService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private cache = new Map<string, number>();
+  private pending = new Map<string, Promise<number | null>>();
+  private pageSize = 1000;
+  private batchSize = 500;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+  }
+
+  async resolve(entity: MappedEntity, provider: string, externalId: number | null): Promise<number | null> {
+    if (externalId === null || externalId === undefined) return null;
+
+    const key = this.cacheKey(entity, provider, externalId);
+    if (this.cache.has(key)) {
+      return this.cache.get(key)!;
+    }
+
+    const { data, error } = await this.supabase
+      .from('external_ids')
+      .select('internal_id')
+      .eq('entity_type', entity)
+      .eq('provider', provider)
+      .eq('external_id', externalId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to resolve ${entity} ${provider}:${externalId}:`, error);
+      return null;
+    }
+
+    if (data) {
+      this.cache.set(key, data.internal_id);
+      return data.internal_id;
+    }
+
+    return null;
+  }
+
+  // Reverse lookup: the provider's id for one of our rows
+  async findExternalId(entity: MappedEntity, provider: string, internalId: number): Promise<number | null> {
+    const { data, error } = await this.supabase
+      .from('external_ids')
+      .select('external_id')
+      .eq('entity_type', entity)
+      .eq('provider', provider)
+      .eq('internal_id', internalId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to find ${provider} id for ${entity} ${internalId}:`, error);
+      return null;
+    }
+
+    return data ? data.external_id : null;
+  }
+
+  // Reverse lookup for many rows at once; rows without a mapping are left out
+  async findExternalIds(entity: MappedEntity, provider: string, internalIds: number[]): Promise<number[]> {
+    const externalIds: number[] = [];
+
+    for (let i = 0; i < internalIds.length; i += this.batchSize) {
+      const { data, error } = await this.supabase
+        .from('external_ids')
+        .select('external_id')
+        .eq('entity_type', entity)
+        .eq('provider', provider)
+        .in('internal_id', internalIds.slice(i, i + this.batchSize));
+
+      if (error) {
+        throw new Error(`Failed to find ${provider} ids for ${entity} rows: ${error.message}`);
+      }
+
+      externalIds.push(...(data || []).map(row => Number(row.external_id)));
+    }
+
+    return externalIds;
+  }
+
+  // Inserts the row on first sight of the provider entity, updates it afterwards.
+  // Returns null when the row cannot be saved and throws when a new row cannot
+  // be mapped to the provider id.
+  async upsert(entity: MappedEntity, provider: string, externalId: number, row: Record<string, any>): Promise<number | null> {
+    const key = this.cacheKey(entity, provider, externalId);
+
+    // Leagues are ingested side by side and share teams (e.g. Champions League),
+    // so serialise work per entity to avoid inserting the same row twice
+    const previous = this.pending.get(key) || Promise.resolve(null);
+    const current = previous
+      .catch(() => null)
+      .then(() => this.upsertRow(entity, provider, externalId, row));
+
+    this.pending.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.pending.get(key) === current) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  private async upsertRow(entity: MappedEntity, provider: string, externalId: number, row: Record<string, any>): Promise<number | null> {
+    const table = ENTITY_TABLES[entity];
+    const internalId = await this.resolve(entity, provider, externalId);
+
+    if (internalId !== null) {
+      const { error } = await this.supabase
+        .from(table)
+        .update(row)
+        .eq('id', internalId);
+
+      if (error) {
+        this.logger.error(`Failed to update ${entity} ${internalId} (${provider}:${externalId}):`, error);
+        return null;
+      }
+
+      return internalId;
+    }
+
+    const { data, error } = await this.supabase
+      .from(table)
+      .insert(row)
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      this.logger.error(`Failed to insert ${entity} ${provider}:${externalId}:`, error);
+      return null;
+    }
+
+    const { error: mappingError } = await this.supabase
+      .from('external_ids')
+      .insert({
+        entity_type: entity,
+        provider,
+        external_id: externalId,
+        internal_id: data.id
+      });
+
+    // An unmapped row would be inserted again on the next sync, so undo it
+    if (mappingError) {
+      const { error: deleteError } = await this.supabase
+        .from(table)
+        .delete()
+        .eq('id', data.id);
+
+      if (deleteError) {
+        this.logger.error(`Failed to remove unmapped ${entity} ${data.id}:`, deleteError);
+      }
+
+      throw new Error(`Failed to map ${entity} ${provider}:${externalId} to ${data.id}: ${mappingError.message}`);
+    }
+
+    this.cache.set(this.cacheKey(entity, provider, externalId), data.id);
+    return data.id;
+  }
+
+  // One-off cleanup for rows created before ingestion was keyed on provider ids.
+  // Rows sharing the DUPLICATE_KEYS columns are collapsed into the one with a
+  // provider mapping (or the lowest id) and every foreign key is repointed.
+  // Groups with more than one mapped row are left alone.
+  async mergeDuplicates(dryRun: boolean = false): Promise<DuplicateMergeReport> {
+    const report: DuplicateMergeReport = { dryRun, league: 0, venue: 0, team: 0, match: 0 };
+
+    // Order matters: matches are only recognisable as duplicates once their teams are merged
+    for (const entity of ['venue', 'league', 'team', 'match'] as MergedEntity[]) {
+      report[entity] = await this.mergeEntityDuplicates(entity, dryRun);
+    }
+
+    this.cache.clear();
+    this.logger.info('Duplicate merge finished', report);
+    return report;
+  }
+
+  private async mergeEntityDuplicates(entity: MergedEntity, dryRun: boolean): Promise<number> {
+    const table = ENTITY_TABLES[entity];
+    const keyColumns = DUPLICATE_KEYS[entity];
+    const rows = await this.fetchAll(table, ['id', ...keyColumns].join(', '));
+    const mappings = await this.fetchAll('external_ids', 'internal_id', query => query.eq('entity_type', entity));
+    const mappedIds = new Set(mappings.map(mapping => mapping.internal_id));
+
+    const groups = new Map<string, any[]>();
+    for (const row of rows) {
+      const key = keyColumns.map(column => String(row[column] ?? '').trim().toLowerCase()).join('|');
+      groups.set(key, [...(groups.get(key) || []), row]);
+    }
+
+    let merged = 0;
+
+    for (const group of groups.values()) {
+      if (group.length < 2) continue;
+
+      const sorted = [...group].sort((a, b) => a.id - b.id);
+      const mapped = sorted.filter(row => mappedIds.has(row.id));
+
+      // Each row is a provider entity of its own, e.g. two clubs of the same name
+      if (mapped.length > 1) {
+        this.logger.warn(`Not merging ${entity} rows ${mapped.map(row => row.id).join(', ')}: each has its own provider mapping`);
+        continue;
+      }
+
+      const keeper = mapped[0] || sorted[0];
+      const duplicateIds = sorted.filter(row => row.id !== keeper.id).map(row => row.id);
+
+      this.logger.info(`Merging ${entity} rows ${duplicateIds.join(', ')} into ${keeper.id}`);
+
+      if (dryRun) {
+        merged += duplicateIds.length;
+        continue;
+      }
+
+      let repointed = true;
+
+      for (const reference of REFERENCES[entity]) {
+        repointed = await this.repointReference(reference.table, reference.column, duplicateIds, keeper.id);
+        if (!repointed) break;
+      }
+
+      if (repointed) {
+        repointed = await this.repointReference('external_ids', 'internal_id', duplicateIds, keeper.id, query => query.eq('entity_type', entity));
+      }
+
+      // Deleting now would take the rows still pointing at the duplicates with it
+      if (!repointed) {
+        this.logger.error(`Keeping duplicate ${entity} rows ${duplicateIds.join(', ')}: not every reference could be repointed to ${keeper.id}`);
+        continue;
+      }
+
+      merged += duplicateIds.length;
+
+      const { error } = await this.supabase
+        .from(table)
+        .delete()
+        .in('id', duplicateIds);
+
+      if (error) {
+        this.logger.error(`Failed to delete duplicate ${entity} rows ${duplicateIds.join(', ')}:`, error);
+      }
+    }
+
+    return merged;
+  }
+
+  // Returns false when a row could not be repointed. Rows that would collide
+  // with one the keeper already holds on a unique constraint (e.g. one
+  // published model per league) are redundant and removed instead.
+  private async repointReference(table: string, column: string, fromIds: number[], toId: number, scope?: (query: any) => any): Promise<boolean> {
+    let query = this.supabase
+      .from(table)
+      .update({ [column]: toId })
+      .in(column, fromIds);
+
+    if (scope) {
+      query = scope(query);
+    }
+
+    const { error } = await query;
+
+    if (!error) return true;
+
+    if (error.code !== UNIQUE_VIOLATION) {
+      this.logger.error(`Failed to repoint ${table}.${column} to ${toId}:`, error);
+      return false;
+    }
+
+    // Row by row, so only the colliding rows are removed
+    let rows: any[];
+    try {
+      rows = await this.fetchAll(table, 'id', rowQuery => (scope ? scope(rowQuery) : rowQuery).in(column, fromIds));
+    } catch (loadError) {
+      this.logger.error(`Failed to repoint ${table}.${column} to ${toId}:`, loadError);
+      return false;
+    }
+
+    for (const row of rows) {
+      const { error: rowError } = await this.supabase
+        .from(table)
+        .update({ [column]: toId })
+        .eq('id', row.id);
+
+      if (!rowError) continue;
+
+      if (rowError.code !== UNIQUE_VIOLATION) {
+        this.logger.error(`Failed to repoint ${table} ${row.id} to ${toId}:`, rowError);
+        return false;
+      }
+
+      this.logger.warn(`Removing ${table} ${row.id}: ${toId} already holds its row (${rowError.message})`);
+
+      const { error: deleteError } = await this.supabase
+        .from(table)
+        .delete()
+        .eq('id', row.id);
+
+      if (deleteError) {
+        this.logger.error(`Failed to remove duplicate ${table} ${row.id}:`, deleteError);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private async fetchAll(table: string, columns: string, scope?: (query: any) => any): Promise<any[]> {
+    const rows: any[] = [];
+    let offset = 0;
+
+    while (true) {
+      let query = this.supabase
+        .from(table)
+        .select(columns)
+        .order('id', { ascending: true })
+        .range(offset, offset + this.pageSize - 1);
+
+      if (scope) {
+        query = scope(query);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to load ${table}: ${error.message}`);
+      }
+
+      rows.push(...(data || []));
+
+      if (!data || data.length < this.pageSize) {
+        return rows;
+      }
+
+      offset += this.pageSize;
+    }
+  }
+
+  private cacheKey(entity: MappedEntity, provider: string, externalId: number): string {
+    return `${entity}:${provider}:${externalId}`;
+  }
+}
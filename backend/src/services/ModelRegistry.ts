@@ -0,0 +1,206 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import { PredictionModel, PublishedModel } from '../types';
+
+// Registered on startup; existing rows keep any weights changed since
+export const DEFAULT_MODELS: Pick<PredictionModel, 'name' | 'version' | 'kind' | 'config' | 'description'>[] = [
+  { name: 'heuristic', version: '1', kind: 'heuristic', config: {}, description: 'Average goals scored and conceded over the last ten matches' },
+  { name: 'poisson', version: '1', kind: 'poisson', config: {}, description: 'Dixon-Coles model fitted on two years of league results' },
+  { name: 'elo', version: '1', kind: 'elo', config: {}, description: 'League average goals split by the Elo rating difference' },
+  { name: 'xg', version: '1', kind: 'xg', config: {}, description: 'Rolling expected goals for and against' },
+  { name: 'ensemble', version: '1', kind: 'ensemble', config: { weights: { poisson: 0.4, xg: 0.4, elo: 0.2 } }, description: 'Blend of the Poisson, xG and Elo models' }
+];
+
+// Published for leagues without a choice of their own
+const DEFAULT_PUBLISHED_MODEL = process.env.PREDICTION_MODEL || 'ensemble';
+
+// Always produces output, so it stands in when the published model cannot
+export const FALLBACK_MODEL = 'poisson';
+
+// Keeps track of the registered predictors and which one each league publishes
+export class ModelRegistry {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+  }
+
+  async ensureDefaultModels(): Promise<void> {
+    const { error } = await this.supabase
+      .from('prediction_models')
+      .upsert(DEFAULT_MODELS, { onConflict: 'name,version', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to register default models: ${error.message}`);
+    }
+  }
+
+  // Newest version first for each name
+  async getModels(activeOnly: boolean = false): Promise<PredictionModel[]> {
+    let query = this.supabase
+      .from('prediction_models')
+      .select('*')
+      .order('name', { ascending: true })
+      .order('created_at', { ascending: false });
+
+    if (activeOnly) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load prediction models: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // The newest active version of every model name
+  async getActiveModels(): Promise<PredictionModel[]> {
+    const models = await this.getModels(true);
+    const latest = new Map<string, PredictionModel>();
+    for (const model of models) {
+      if (!latest.has(model.name)) latest.set(model.name, model);
+    }
+    return [...latest.values()];
+  }
+
+  // Accepts "name" (newest version) or "name@version"
+  async findModel(reference: string): Promise<PredictionModel | null> {
+    const [name, version] = reference.split('@');
+
+    let query = this.supabase
+      .from('prediction_models')
+      .select('*')
+      .eq('name', name);
+
+    if (version) {
+      query = query.eq('version', version);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load model ${reference}: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getModel(id: number): Promise<PredictionModel | null> {
+    const { data, error } = await this.supabase
+      .from('prediction_models')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load model ${id}: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async getPublishedModel(leagueId: number): Promise<PredictionModel | null> {
+    const { data, error } = await this.supabase
+      .from('published_models')
+      .select('model:prediction_models(*)')
+      .eq('league_id', leagueId)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to load the published model of league ${leagueId}:`, error);
+    }
+
+    const model = data && (Array.isArray(data.model) ? data.model[0] : data.model);
+    return model || this.findModel(DEFAULT_PUBLISHED_MODEL);
+  }
+
+  async createModel(model: Pick<PredictionModel, 'name' | 'version' | 'kind' | 'config' | 'description'>): Promise<PredictionModel> {
+    const { data, error } = await this.supabase
+      .from('prediction_models')
+      .insert(model)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create model ${model.name}@${model.version}: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  // Makes the model the one shown for the league, including the predictions
+  // already stored for its upcoming matches
+  async publishModel(leagueId: number, modelId: number): Promise<PublishedModel> {
+    const { data, error } = await this.supabase
+      .from('published_models')
+      .upsert([{ league_id: leagueId, model_id: modelId, published_at: new Date().toISOString() }], { onConflict: 'league_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to publish model ${modelId} for league ${leagueId}: ${error.message}`);
+    }
+
+    const { data: matches, error: matchesError } = await this.supabase
+      .from('matches')
+      .select('id')
+      .eq('league_id', leagueId)
+      .eq('status', 'SCHEDULED');
+
+    if (matchesError) {
+      throw new Error(`Failed to load upcoming matches for league ${leagueId}: ${matchesError.message}`);
+    }
+
+    const matchIds = (matches || []).map(match => match.id);
+    if (matchIds.length > 0) {
+      // Matches the model has no output for keep their current prediction.
+      // Only current snapshots are flipped; superseded ones stay as they were.
+      const { data: covered, error: coveredError } = await this.supabase
+        .from('predictions')
+        .select('match_id')
+        .eq('model_id', modelId)
+        .in('match_id', matchIds)
+        .is('superseded_at', null);
+
+      if (coveredError) {
+        throw new Error(`Failed to load predictions of model ${modelId}: ${coveredError.message}`);
+      }
+
+      const coveredIds = (covered || []).map(row => row.match_id);
+      if (coveredIds.length > 0) {
+        const { error: hideError } = await this.supabase
+          .from('predictions')
+          .update({ published: false })
+          .in('match_id', coveredIds)
+          .neq('model_id', modelId)
+          .is('superseded_at', null);
+
+        if (hideError) {
+          throw new Error(`Failed to unpublish other predictions for league ${leagueId}: ${hideError.message}`);
+        }
+
+        const { error: showError } = await this.supabase
+          .from('predictions')
+          .update({ published: true })
+          .in('match_id', coveredIds)
+          .eq('model_id', modelId)
+          .is('superseded_at', null);
+
+        if (showError) {
+          throw new Error(`Failed to publish predictions of model ${modelId}: ${showError.message}`);
+        }
+      }
+    }
+
+    this.logger.info(`Published model ${modelId} for league ${leagueId}`);
+    return data;
+  }
+}
@@ -0,0 +1,224 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import winston from 'winston';
+import { Odds, OddsMarket, ProviderOdds } from '../types';
+import { DEFAULT_PROVIDER } from '../providers';
+import { IdMappingService } from './IdMappingService';
+
+const ODDS_MARKETS: OddsMarket[] = ['MATCH_WINNER', 'DOUBLE_CHANCE', 'OVER_UNDER', 'BOTH_TEAMS_SCORE', 'ASIAN_HANDICAP', 'CORRECT_SCORE'];
+
+// A drop file row names the match either by our id or by a provider fixture id
+const dropRowSchema = Joi.object({
+  match_id: Joi.number().integer(),
+  fixture_id: Joi.number().integer(),
+  provider: Joi.string().default(DEFAULT_PROVIDER),
+  bookmaker: Joi.string().required(),
+  market: Joi.string().valid(...ODDS_MARKETS).required(),
+  selection: Joi.string().uppercase().required(),
+  line: Joi.number().allow(null).empty('').default(null),
+  price: Joi.number().greater(1).required(),
+  captured_at: Joi.date().iso().empty('').default(() => new Date())
+}).or('match_id', 'fixture_id').unknown(true);
+
+// Stores bookmaker prices for matches, from the data provider or from CSV/JSON
+// files dropped into ODDS_DROP_DIR by whoever holds other bookmaker feeds
+export class OddsService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private idMapping: IdMappingService;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger, idMapping: IdMappingService) {
+    this.supabase = supabase;
+    this.logger = logger;
+    this.idMapping = idMapping;
+  }
+
+  // Inserts only prices that moved since the last capture; returns rows added
+  async saveOdds(matchId: number, odds: ProviderOdds[]): Promise<number> {
+    if (odds.length === 0) return 0;
+
+    const { data: stored, error: storedError } = await this.supabase
+      .from('odds')
+      .select('*')
+      .eq('match_id', matchId)
+      .order('captured_at', { ascending: true });
+
+    if (storedError) {
+      throw new Error(`Failed to load stored odds for match ${matchId}: ${storedError.message}`);
+    }
+
+    // DECIMAL columns can come back from PostgREST as strings
+    const current = new Map(latestPrices(stored || []).map(row => [oddsKey(row), Number(row.price)]));
+
+    const rows: Partial<Odds>[] = odds
+      .filter(price => current.get(oddsKey(price)) !== price.price)
+      .map(price => ({
+        match_id: matchId,
+        bookmaker: price.bookmaker,
+        market: price.market,
+        selection: price.selection,
+        line: price.line,
+        price: price.price,
+        captured_at: price.capturedAt
+      }));
+
+    if (rows.length === 0) return 0;
+
+    // Replays of older captures hit the unique key and are dropped
+    const { error } = await this.supabase
+      .from('odds')
+      .upsert(rows, { onConflict: 'match_id,bookmaker,market,selection,line,captured_at', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to insert odds for match ${matchId}: ${error.message}`);
+    }
+
+    return rows.length;
+  }
+
+  // Imports every .csv/.json file in the drop folder, then moves it to
+  // processed/ or failed/ so it is not picked up twice
+  async importDropFolder(dir: string): Promise<number> {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    const files = entries
+      .filter(entry => entry.isFile() && /\.(csv|json)$/i.test(entry.name))
+      .map(entry => entry.name)
+      .sort();
+
+    let imported = 0;
+
+    for (const file of files) {
+      const filePath = path.join(dir, file);
+
+      try {
+        imported += await this.importFile(filePath);
+        await this.moveFile(filePath, path.join(dir, 'processed'));
+      } catch (error) {
+        this.logger.error(`Failed to import odds file ${file}:`, error);
+        await this.moveFile(filePath, path.join(dir, 'failed'));
+      }
+    }
+
+    if (files.length > 0) {
+      this.logger.info(`Imported ${imported} odds rows from ${files.length} files`);
+    }
+
+    return imported;
+  }
+
+  private async importFile(filePath: string): Promise<number> {
+    const byMatch = await this.readOddsFile(filePath);
+
+    let imported = 0;
+    for (const [matchId, odds] of byMatch) {
+      imported += await this.saveOdds(matchId, odds);
+    }
+
+    return imported;
+  }
+
+  // Validates a drop-format .csv/.json file and groups its prices by match;
+  // rows for fixtures we do not know are skipped
+  async readOddsFile(filePath: string): Promise<Map<number, ProviderOdds[]>> {
+    const contents = await fs.promises.readFile(filePath, 'utf8');
+    const records = filePath.toLowerCase().endsWith('.json') ? JSON.parse(contents) : parseCsv(contents);
+
+    if (!Array.isArray(records)) {
+      throw new Error('Expected an array of odds rows');
+    }
+
+    const byMatch = new Map<number, ProviderOdds[]>();
+
+    for (const [index, record] of records.entries()) {
+      const { value, error } = dropRowSchema.validate(record);
+      if (error) {
+        throw new Error(`Row ${index + 1}: ${error.message}`);
+      }
+
+      const matchId = value.match_id || await this.idMapping.resolve('match', value.provider, value.fixture_id);
+      if (!matchId) {
+        this.logger.warn(`Skipping odds row ${index + 1} of ${path.basename(filePath)}: unknown ${value.provider} fixture ${value.fixture_id}`);
+        continue;
+      }
+
+      byMatch.set(matchId, [...(byMatch.get(matchId) || []), {
+        bookmaker: value.bookmaker,
+        market: value.market,
+        selection: value.selection,
+        line: value.line,
+        price: value.price,
+        capturedAt: value.captured_at.toISOString()
+      }]);
+    }
+
+    return byMatch;
+  }
+
+  private async moveFile(filePath: string, targetDir: string): Promise<void> {
+    try {
+      await fs.promises.mkdir(targetDir, { recursive: true });
+      await fs.promises.rename(filePath, path.join(targetDir, path.basename(filePath)));
+    } catch (error) {
+      this.logger.error(`Failed to move odds file ${filePath}:`, error);
+    }
+  }
+}
+
+// Most recent row per bookmaker, market, selection and line (input oldest first)
+export function latestPrices<T extends Pick<Odds, 'bookmaker' | 'market' | 'selection' | 'line'>>(rows: T[]): T[] {
+  const latest = new Map<string, T>();
+  for (const row of rows) {
+    latest.set(oddsKey(row), row);
+  }
+  return [...latest.values()];
+}
+
+function oddsKey(odds: Pick<Odds, 'bookmaker' | 'market' | 'selection' | 'line'>): string {
+  return [odds.bookmaker, odds.market, odds.selection, odds.line === null || odds.line === undefined ? '' : Number(odds.line)].join('|');
+}
+
+// Header row plus comma-separated values; fields may be double-quoted
+export function parseCsv(contents: string): Record<string, string>[] {
+  const lines = contents.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const headers = splitCsvLine(lines[0]).map(header => header.trim().toLowerCase());
+
+  return lines.slice(1).map(line => {
+    const values = splitCsvLine(line);
+    return Object.fromEntries(headers.map((header, index) => [header, (values[index] ?? '').trim()]));
+  });
+}
+
+function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(value);
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  values.push(value);
+  return values;
+}
@@ -0,0 +1,309 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import moment from 'moment';
+import {
+  CalibrationBucket,
+  LeaguePerformance,
+  MarketOutcome,
+  MarketPerformance,
+  OddsMarket,
+  PerformanceFilters,
+  PerformanceSummary,
+  PredictionMarket,
+  RollingAccuracyPoint
+} from '../types';
+
+const CALIBRATION_BUCKETS = 10;
+const ROLLING_MATCHES = 50;
+const PERFORMANCE_TTL_MS = 10 * 60 * 1000;
+
+// Share of a pick that counts as a hit, and how much of the pick was decided
+const PICK_RESULTS: Record<MarketOutcome, { hit: number; weight: number }> = {
+  HIT: { hit: 1, weight: 1 },
+  HALF_HIT: { hit: 0.5, weight: 0.5 },
+  PUSH: { hit: 0, weight: 0 },
+  HALF_MISS: { hit: 0, weight: 0.5 },
+  MISS: { hit: 0, weight: 1 }
+};
+
+type SettledMarket = Pick<PredictionMarket, 'market' | 'selection' | 'line' | 'probability' | 'outcome'>;
+
+// A settled closing prediction with the match details the summary groups by
+export interface SettledPrediction {
+  match_id: number;
+  date: string;
+  league_id: number;
+  league_name: string;
+  markets: SettledMarket[];
+}
+
+interface Totals {
+  hits: number;
+  weight: number;
+  brier: number;
+  groups: number;
+}
+
+// Scores the published models' closing predictions against final results
+export class PerformanceService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private pageSize = 200;
+  private cache = new Map<string, { summary: PerformanceSummary; expiresAt: number }>();
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+  }
+
+  // Cached for ten minutes per set of filters; settlement runs every fifteen
+  async getPerformance(filters: PerformanceFilters = {}): Promise<PerformanceSummary> {
+    const key = JSON.stringify(filters);
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.summary;
+
+    const summary = summarisePerformance(await this.loadSettledPredictions(filters));
+    this.cache.set(key, { summary, expiresAt: Date.now() + PERFORMANCE_TTL_MS });
+    return summary;
+  }
+
+  private async loadSettledPredictions(filters: PerformanceFilters): Promise<SettledPrediction[]> {
+    const predictions: SettledPrediction[] = [];
+    let offset = 0;
+
+    while (true) {
+      let query = this.supabase
+        .from('predictions')
+        .select(`
+          id,
+          match_id,
+          match:matches!inner(date, league_id, league:leagues(name)),
+          markets:prediction_markets(market, selection, line, probability, outcome)
+        `)
+        .eq('published', true)
+        .eq('is_closing', true)
+        .not('settled_at', 'is', null);
+
+      if (filters.league) {
+        query = query.eq('match.league_id', filters.league);
+      }
+
+      if (filters.from) {
+        query = query.gte('match.date', filters.from);
+      }
+
+      if (filters.to) {
+        // A to date includes the matches played on it
+        query = query.lte('match.date', moment(filters.to).endOf('day').toISOString());
+      }
+
+      if (filters.market) {
+        query = query.eq('markets.market', filters.market);
+      }
+
+      const { data, error } = await query
+        .order('id', { ascending: true })
+        .range(offset, offset + this.pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to load settled predictions: ${error.message}`);
+      }
+
+      for (const row of (data || []) as any[]) {
+        const match = Array.isArray(row.match) ? row.match[0] : row.match;
+        const league = match && (Array.isArray(match.league) ? match.league[0] : match.league);
+
+        predictions.push({
+          match_id: row.match_id,
+          date: match.date,
+          league_id: match.league_id,
+          league_name: league ? league.name : '',
+          markets: row.markets || []
+        });
+      }
+
+      if (!data || data.length < this.pageSize) {
+        this.logger.info(`Scored ${predictions.length} settled predictions`);
+        return predictions;
+      }
+
+      offset += this.pageSize;
+    }
+  }
+}
+
+// Hit rates of our picks, Brier score per market and line, calibration of
+// every selection and the rolling hit rate, overall and per market and league.
+// Brier scores and calibration only use selections that cannot push or half
+// win, i.e. markets without a line and half-goal lines. The overall, league
+// and rolling figures only count each market's main line, so near-certain
+// lines such as over 0.5 goals do not swamp them.
+export function summarisePerformance(predictions: SettledPrediction[]): PerformanceSummary {
+  const overall = emptyTotals();
+  const byMarket = new Map<OddsMarket, Totals>();
+  const byLeague = new Map<number, Totals & { name: string; matches: number }>();
+  const buckets = Array.from({ length: CALIBRATION_BUCKETS }, () => ({ selections: 0, predicted: 0, observed: 0 }));
+  const perMatch: { match_id: number; date: string; hits: number; weight: number }[] = [];
+
+  for (const prediction of predictions) {
+    if (!byLeague.has(prediction.league_id)) {
+      byLeague.set(prediction.league_id, { ...emptyTotals(), name: prediction.league_name, matches: 0 });
+    }
+    const league = byLeague.get(prediction.league_id);
+    league.matches++;
+
+    const match = { match_id: prediction.match_id, date: prediction.date, hits: 0, weight: 0 };
+
+    const groups = groupSelections(prediction.markets);
+    const main = mainLines(groups);
+
+    for (const group of groups) {
+      const market = group[0].market;
+      if (!byMarket.has(market)) byMarket.set(market, emptyTotals());
+      const totals = main.has(group) ? [overall, byMarket.get(market), league] : [byMarket.get(market)];
+
+      const pick = group.reduce((best, row) => Number(row.probability) > Number(best.probability) ? row : best);
+      if (pick.outcome) {
+        const result = PICK_RESULTS[pick.outcome];
+        totals.forEach(total => {
+          total.hits += result.hit;
+          total.weight += result.weight;
+        });
+
+        if (main.has(group)) {
+          match.hits += result.hit;
+          match.weight += result.weight;
+        }
+      }
+
+      if (!group.every(isBinary)) continue;
+
+      const brier = group.reduce((sum, row) => sum + Math.pow(Number(row.probability) - (row.outcome === 'HIT' ? 1 : 0), 2), 0);
+      totals.forEach(total => {
+        total.brier += brier;
+        total.groups++;
+      });
+
+      for (const row of group) {
+        const probability = Number(row.probability);
+        const bucket = buckets[Math.min(CALIBRATION_BUCKETS - 1, Math.floor(probability * CALIBRATION_BUCKETS))];
+        bucket.selections++;
+        bucket.predicted += probability;
+        bucket.observed += row.outcome === 'HIT' ? 1 : 0;
+      }
+    }
+
+    perMatch.push(match);
+  }
+
+  const markets: MarketPerformance[] = [...byMarket.entries()]
+    .map(([market, totals]) => ({ market, picks: totals.weight, hit_rate: hitRate(totals), brier_score: brierScore(totals) }))
+    .sort((a, b) => a.market.localeCompare(b.market));
+
+  const leagues: LeaguePerformance[] = [...byLeague.entries()]
+    .map(([leagueId, totals]) => ({
+      league_id: leagueId,
+      league_name: totals.name,
+      matches: totals.matches,
+      picks: totals.weight,
+      hit_rate: hitRate(totals),
+      brier_score: brierScore(totals)
+    }))
+    .sort((a, b) => b.matches - a.matches);
+
+  const calibration: CalibrationBucket[] = buckets.map((bucket, index) => ({
+    from: index / CALIBRATION_BUCKETS,
+    to: (index + 1) / CALIBRATION_BUCKETS,
+    selections: bucket.selections,
+    predicted: bucket.selections > 0 ? round(bucket.predicted / bucket.selections) : null,
+    observed: bucket.selections > 0 ? round(bucket.observed / bucket.selections) : null
+  }));
+
+  return {
+    matches: predictions.length,
+    picks: overall.weight,
+    hit_rate: hitRate(overall),
+    brier_score: brierScore(overall),
+    markets,
+    leagues,
+    calibration,
+    rolling_accuracy: rollingAccuracy(perMatch)
+  };
+}
+
+// One group per market and line, with Asian handicap lines read from the home
+// side so that home -0.5 and away +0.5 end up together
+function groupSelections(markets: SettledMarket[]): SettledMarket[][] {
+  const groups = new Map<string, SettledMarket[]>();
+
+  for (const row of markets) {
+    const line = row.line === null ? null : Number(row.line);
+    const homeLine = row.market === 'ASIAN_HANDICAP' && row.selection === 'AWAY' && line !== null ? -line : line;
+    const key = [row.market, homeLine === null ? '' : homeLine].join('|');
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  return [...groups.values()];
+}
+
+// Per market, the line priced closest to even, as a bookmaker would headline
+// it; markets without a line have just the one group
+function mainLines(groups: SettledMarket[][]): Set<SettledMarket[]> {
+  const main = new Map<OddsMarket, { group: SettledMarket[]; spread: number }>();
+
+  for (const group of groups) {
+    const probabilities = group.map(row => Number(row.probability));
+    const spread = Math.max(...probabilities) - Math.min(...probabilities);
+    const current = main.get(group[0].market);
+
+    if (!current || spread < current.spread) {
+      main.set(group[0].market, { group, spread });
+    }
+  }
+
+  return new Set([...main.values()].map(entry => entry.group));
+}
+
+function isBinary(row: SettledMarket): boolean {
+  const halfLine = row.line === null || Math.abs(Number(row.line) % 1) === 0.5;
+  return halfLine && (row.outcome === 'HIT' || row.outcome === 'MISS');
+}
+
+function rollingAccuracy(matches: { match_id: number; date: string; hits: number; weight: number }[]): RollingAccuracyPoint[] {
+  const sorted = [...matches].sort((a, b) => a.date.localeCompare(b.date));
+  const points: RollingAccuracyPoint[] = [];
+  let hits = 0;
+  let weight = 0;
+
+  sorted.forEach((match, index) => {
+    hits += match.hits;
+    weight += match.weight;
+
+    if (index >= ROLLING_MATCHES) {
+      hits -= sorted[index - ROLLING_MATCHES].hits;
+      weight -= sorted[index - ROLLING_MATCHES].weight;
+    }
+
+    if (weight > 0) {
+      points.push({ match_id: match.match_id, date: match.date, hit_rate: round(hits / weight) });
+    }
+  });
+
+  return points;
+}
+
+function emptyTotals(): Totals {
+  return { hits: 0, weight: 0, brier: 0, groups: 0 };
+}
+
+function hitRate(totals: Totals): number | null {
+  return totals.weight > 0 ? round(totals.hits / totals.weight) : null;
+}
+
+function brierScore(totals: Totals): number | null {
+  return totals.groups > 0 ? round(totals.brier / totals.groups) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -1,27 +1,75 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import winston from 'winston';
 import moment from 'moment';
+import crypto from 'crypto';
 import { 
+  AbsenceImpact,
+  GoalModel,
   Match, 
+  OddsMarket,
   Prediction, 
+  PredictionMarket,
+  PredictionModel,
   PredictionResult, 
+  PredictionScorelines,
   TeamFormStats, 
-  HeadToHeadStats 
+  HeadToHeadStats,
+  XgMatch,
+  XgStrengths
 } from '../types';
+import { calculateAbsenceImpact, NO_ABSENCE_IMPACT } from './absenceImpact';
+import { fitDixonColes, marketProbabilities, strengthUncertainty, summariseScorelines } from './dixonColes';
+import { findMarket, priceMarkets } from './predictionMarkets';
+import { calibrateMarkets, CalibrationLookup } from './calibration';
+import { CalibrationService } from './CalibrationService';
+import { ConfidenceAccuracy, confidenceAccuracy, confidenceScore, ConfidenceSample, modelAgreement, sampleSize } from './confidence';
+import { RatingService } from './RatingService';
+import { FALLBACK_MODEL, ModelRegistry } from './ModelRegistry';
+import { matrixExpectedGoals, PredictorInput, runPredictors } from './predictors';
+import { fitXgStrengths, statisticsXg } from './xgStrength';
+
+// Older results weigh under 1% with the model's time decay
+const GOAL_MODEL_HISTORY_DAYS = 730;
+const GOAL_MODEL_TTL_MS = 60 * 60 * 1000;
+
+// xG strengths look back a year
+const XG_HISTORY_DAYS = 365;
+
+const CONFIDENCE_HISTORY_TTL_MS = 60 * 60 * 1000;
+
+// A prediction row with the scoreline distribution and market prices derived
+// from it
+interface GeneratedPrediction {
+  prediction: Partial<Prediction>;
+  scorelines: Partial<PredictionScorelines>;
+  markets: Partial<PredictionMarket>[];
+}
 
 export class PredictionService {
   private supabase: SupabaseClient;
   private logger: winston.Logger;
+  private ratingService: RatingService;
+  private modelRegistry: ModelRegistry;
+  private calibrationService: CalibrationService;
+  private pageSize = 200;
+  private goalModels = new Map<number, { model: GoalModel; expiresAt: number }>();
+  private xgStrengths = new Map<number, { strengths: XgStrengths; expiresAt: number }>();
+  private confidenceHistory = new Map<number, { history: ConfidenceAccuracy[]; expiresAt: number }>();
 
   constructor(supabase: SupabaseClient, logger: winston.Logger) {
     this.supabase = supabase;
     this.logger = logger;
+    this.ratingService = new RatingService(supabase, logger);
+    this.modelRegistry = new ModelRegistry(supabase, logger);
+    this.calibrationService = new CalibrationService(supabase, logger);
   }
 
   async initialize(): Promise<void> {
     this.logger.info('Initializing PredictionService...');
     
     try {
+      await this.modelRegistry.ensureDefaultModels();
+
       // Generate initial predictions
       await this.generatePredictions();
       
@@ -41,9 +89,8 @@ export class PredictionService {
       
       for (const match of upcomingMatches) {
         try {
-          const prediction = await this.generateMatchPrediction(match);
-          if (prediction) {
-            await this.savePrediction(prediction);
+          for (const generated of await this.generateMatchPrediction(match)) {
+            await this.savePrediction(generated);
           }
         } catch (error) {
           this.logger.error(`Failed to generate prediction for match ${match.id}:`, error);
@@ -57,49 +104,231 @@ export class PredictionService {
     }
   }
 
-  private async generateMatchPrediction(match: any): Promise<Partial<Prediction> | null> {
+  // Re-runs a single match, e.g. once its line-ups are confirmed. Predictions
+  // are frozen at kickoff, so started matches are left alone.
+  async regeneratePrediction(matchId: number): Promise<void> {
+    const { data: match, error } = await this.supabase
+      .from('matches')
+      .select('*')
+      .eq('id', matchId)
+      .single();
+
+    if (error || !match) {
+      this.logger.error(`Failed to load match ${matchId} for prediction:`, error);
+      return;
+    }
+
+    if (match.status !== 'SCHEDULED' || new Date(match.date).getTime() <= Date.now()) {
+      return;
+    }
+
+    for (const generated of await this.generateMatchPrediction(match)) {
+      await this.savePrediction(generated);
+    }
+  }
+
+  // One prediction per active model; the league's published model (or the
+  // fallback when it has no output for the match) is marked published
+  private async generateMatchPrediction(match: any): Promise<GeneratedPrediction[]> {
     try {
-      // Get team statistics
+      const models = await this.modelRegistry.getActiveModels();
+      const publishedModel = await this.modelRegistry.getPublishedModel(match.league_id);
+
       const homeTeamStats = await this.getTeamFormStats(match.home_team_id, true);
       const awayTeamStats = await this.getTeamFormStats(match.away_team_id, false);
-      
-      // Get head-to-head statistics
       const headToHead = await this.getHeadToHeadStats(match.home_team_id, match.away_team_id);
-      
-      // Calculate probabilities
-      const homeWinProb = this.calculateHomeWinProbability(homeTeamStats, awayTeamStats, headToHead);
-      const awayWinProb = this.calculateAwayWinProbability(homeTeamStats, awayTeamStats, headToHead);
-      const drawProb = Math.max(0, 1 - homeWinProb - awayWinProb);
-      
-      // Calculate other betting markets
-      const bothTeamsScoreProb = this.calculateBothTeamsScoreProbability(homeTeamStats, awayTeamStats, headToHead);
-      const over2_5GoalsProb = this.calculateOver2_5GoalsProbability(homeTeamStats, awayTeamStats, headToHead);
-      const under2_5GoalsProb = Math.max(0, 1 - over2_5GoalsProb);
-      
-      // Calculate confidence score
-      const confidenceScore = this.calculateConfidenceScore(homeTeamStats, awayTeamStats, headToHead);
-      
-      const prediction: Partial<Prediction> = {
-        match_id: match.id,
-        home_win_probability: homeWinProb,
-        draw_probability: drawProb,
-        away_win_probability: awayWinProb,
-        both_teams_score_probability: bothTeamsScoreProb,
-        over_2_5_goals_probability: over2_5GoalsProb,
-        under_2_5_goals_probability: under2_5GoalsProb,
-        home_win_or_draw_probability: homeWinProb + drawProb,
-        away_win_or_draw_probability: awayWinProb + drawProb,
-        home_handicap_1_5_probability: this.calculateHandicapProbability(homeWinProb, 1.5),
-        away_handicap_1_5_probability: this.calculateHandicapProbability(awayWinProb, 1.5),
-        confidence_score: confidenceScore,
-        prediction_date: new Date().toISOString()
+      const ratingDifference = await this.ratingService.getRatingDifference(match.home_team_id, match.away_team_id);
+
+      const input: PredictorInput = {
+        homeTeamId: match.home_team_id,
+        awayTeamId: match.away_team_id,
+        goalModel: await this.getGoalModel(match.league_id),
+        xgStrengths: await this.getXgStrengths(match.league_id),
+        homeForm: homeTeamStats,
+        awayForm: awayTeamStats,
+        ratingDifference,
+        homeAbsences: await this.getAbsenceImpact(match, match.home_team_id),
+        awayAbsences: await this.getAbsenceImpact(match, match.away_team_id)
+      };
+
+      const matrices = runPredictors(models, input);
+      const calibrations = new Map<number, { version: number; lookup: CalibrationLookup } | null>();
+      const histories = new Map<number, ConfidenceAccuracy[]>();
+      for (const model of models) {
+        calibrations.set(model.id, await this.calibrationService.getLookup(model, match.league_id));
+        histories.set(model.id, await this.getConfidenceHistory(model.id));
+      }
+
+      // How much data stands behind the teams' strengths and how far apart
+      // the individual predictors are; ensembles would only echo them
+      const components = {
+        sample_size: sampleSize(input.goalModel.played[match.home_team_id] || 0, input.goalModel.played[match.away_team_id] || 0),
+        strength_certainty: Math.round((1 - strengthUncertainty(input.goalModel, match.home_team_id, match.away_team_id)) * 10000) / 10000,
+        model_agreement: modelAgreement(models
+          .filter(model => model.kind !== 'ensemble' && matrices.has(model.id))
+          .map(model => {
+            const result = marketProbabilities(matrices.get(model.id));
+            return [result.homeWin, result.draw, result.awayWin] as [number, number, number];
+          }))
       };
 
-      return prediction;
+      const fallback = models.find(model => model.name === FALLBACK_MODEL);
+      const publishedId = publishedModel && matrices.has(publishedModel.id)
+        ? publishedModel.id
+        : fallback && fallback.id;
+
+      return models
+        .filter(model => matrices.has(model.id))
+        .map(model => {
+          // Every market comes out of the model's scoreline matrix, then
+          // through the model's calibration curves for the league
+          const matrix = matrices.get(model.id);
+          const calibration = calibrations.get(model.id);
+          const prices = calibrateMarkets(priceMarkets(matrix), calibration ? calibration.lookup : () => null);
+          const price = (market: OddsMarket, selection: string) => findMarket(prices, market, selection, null).probability;
+          const markets = {
+            homeWin: price('MATCH_WINNER', 'HOME'),
+            draw: price('MATCH_WINNER', 'DRAW'),
+            awayWin: price('MATCH_WINNER', 'AWAY'),
+            bothTeamsScore: price('BOTH_TEAMS_SCORE', 'YES')
+          };
+          const goals = matrixExpectedGoals(matrix);
+          const confidence = confidenceScore(components, histories.get(model.id));
+
+          const prediction: Partial<Prediction> = {
+            match_id: match.id,
+            model_id: model.id,
+            published: model.id === publishedId,
+            home_win_probability: markets.homeWin,
+            draw_probability: markets.draw,
+            away_win_probability: markets.awayWin,
+            both_teams_score_probability: markets.bothTeamsScore,
+            home_win_or_draw_probability: markets.homeWin + markets.draw,
+            away_win_or_draw_probability: markets.awayWin + markets.draw,
+            rating_difference: ratingDifference,
+            confidence_score: confidence.score,
+            confidence_breakdown: confidence.breakdown,
+            generated_at: new Date().toISOString(),
+            inputs_hash: inputsHash(model, input, headToHead, calibration ? calibration.version : null),
+            calibration_version: calibration ? calibration.version : null
+          };
+
+          const scorelines: Partial<PredictionScorelines> = {
+            expected_home_goals: goals.home,
+            expected_away_goals: goals.away,
+            ...summariseScorelines(matrix)
+          };
+
+          return { prediction, scorelines, markets: prices };
+        });
     } catch (error) {
       this.logger.error(`Failed to generate prediction for match ${match.id}:`, error);
-      return null;
+      return [];
+    }
+  }
+
+  // Hit rates of the model's settled match winner picks by the confidence
+  // components they had, cached for an hour
+  private async getConfidenceHistory(modelId: number): Promise<ConfidenceAccuracy[]> {
+    const cached = this.confidenceHistory.get(modelId);
+    if (cached && cached.expiresAt > Date.now()) return cached.history;
+
+    const samples: ConfidenceSample[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await this.supabase
+        .from('predictions')
+        .select('id, confidence_breakdown, markets:prediction_markets(selection, probability, outcome)')
+        .eq('model_id', modelId)
+        .eq('is_closing', true)
+        .not('settled_at', 'is', null)
+        .not('confidence_breakdown', 'is', null)
+        .eq('markets.market', 'MATCH_WINNER')
+        .order('id', { ascending: true })
+        .range(offset, offset + this.pageSize - 1);
+
+      if (error) {
+        this.logger.error(`Failed to load the confidence history of model ${modelId}:`, error);
+        return confidenceAccuracy([]);
+      }
+
+      for (const row of data || []) {
+        const markets = (row.markets || []) as Pick<PredictionMarket, 'selection' | 'probability' | 'outcome'>[];
+        if (markets.length === 0) continue;
+
+        const pick = markets.reduce((best, market) => Number(market.probability) > Number(best.probability) ? market : best);
+        samples.push({ components: row.confidence_breakdown, hit: pick.outcome === 'HIT' });
+      }
+
+      if (!data || data.length < this.pageSize) break;
+      offset += this.pageSize;
+    }
+
+    const history = confidenceAccuracy(samples);
+    this.confidenceHistory.set(modelId, { history, expiresAt: Date.now() + CONFIDENCE_HISTORY_TTL_MS });
+    return history;
+  }
+
+  // Fitted per league on the last two years of results, cached for an hour
+  private async getGoalModel(leagueId: number): Promise<GoalModel> {
+    const cached = this.goalModels.get(leagueId);
+    if (cached && cached.expiresAt > Date.now()) return cached.model;
+
+    const { data: matches, error } = await this.supabase
+      .from('matches')
+      .select('date, home_team_id, away_team_id, home_goals, away_goals')
+      .eq('league_id', leagueId)
+      .eq('status', 'FINISHED')
+      .gte('date', moment().subtract(GOAL_MODEL_HISTORY_DAYS, 'days').toISOString())
+      .order('date', { ascending: true });
+
+    if (error) {
+      this.logger.error(`Failed to load results for the goal model of league ${leagueId}:`, error);
+      return fitDixonColes([]);
+    }
+
+    const model = fitDixonColes(matches || []);
+    this.logger.info(`Fitted goal model for league ${leagueId} on ${model.matches} matches (home advantage ${model.homeAdvantage.toFixed(3)}, rho ${model.rho.toFixed(3)})`);
+
+    this.goalModels.set(leagueId, { model, expiresAt: Date.now() + GOAL_MODEL_TTL_MS });
+    return model;
+  }
+
+  // Built from the last year of match statistics, cached for an hour
+  private async getXgStrengths(leagueId: number): Promise<XgStrengths> {
+    const cached = this.xgStrengths.get(leagueId);
+    if (cached && cached.expiresAt > Date.now()) return cached.strengths;
+
+    const { data: matches, error } = await this.supabase
+      .from('matches')
+      .select('date, home_team_id, away_team_id, match_statistics(team_id, expected_goals, shots_on_goal)')
+      .eq('league_id', leagueId)
+      .eq('status', 'FINISHED')
+      .gte('date', moment().subtract(XG_HISTORY_DAYS, 'days').toISOString())
+      .order('date', { ascending: true });
+
+    if (error) {
+      this.logger.error(`Failed to load statistics for the xG model of league ${leagueId}:`, error);
+      return fitXgStrengths([]);
     }
+
+    const xgMatches: XgMatch[] = (matches || []).map((match: any) => {
+      const statistics = match.match_statistics || [];
+      return {
+        date: match.date,
+        home_team_id: match.home_team_id,
+        away_team_id: match.away_team_id,
+        home_xg: statisticsXg(statistics.find((row: any) => row.team_id === match.home_team_id)),
+        away_xg: statisticsXg(statistics.find((row: any) => row.team_id === match.away_team_id))
+      };
+    });
+
+    const strengths = fitXgStrengths(xgMatches);
+    this.logger.info(`Built xG strengths for league ${leagueId} from ${strengths.matches} matches`);
+
+    this.xgStrengths.set(leagueId, { strengths, expiresAt: Date.now() + GOAL_MODEL_TTL_MS });
+    return strengths;
   }
 
   private async getTeamFormStats(teamId: number, isHome: boolean): Promise<TeamFormStats> {
@@ -196,6 +425,35 @@ export class PredictionService {
     }
   }
 
+  private async getAbsenceImpact(match: Match, teamId: number): Promise<AbsenceImpact> {
+    try {
+      const { data: absences, error } = await this.supabase
+        .from('absences')
+        .select('player_id, status')
+        .eq('match_id', match.id)
+        .eq('team_id', teamId);
+
+      if (error || !absences || absences.length === 0 || !match.season) {
+        return NO_ABSENCE_IMPACT;
+      }
+
+      const { data: seasonStats, error: statsError } = await this.supabase
+        .from('player_season_stats')
+        .select('player_id, position, minutes, goals')
+        .eq('team_id', teamId)
+        .eq('season', match.season);
+
+      if (statsError || !seasonStats) {
+        return NO_ABSENCE_IMPACT;
+      }
+
+      return calculateAbsenceImpact(absences, seasonStats);
+    } catch (error) {
+      this.logger.error(`Failed to get absence impact for team ${teamId} in match ${match.id}:`, error);
+      return NO_ABSENCE_IMPACT;
+    }
+  }
+
   private async getHeadToHeadStats(homeTeamId: number, awayTeamId: number): Promise<HeadToHeadStats> {
     try {
       const { data: matches, error } = await this.supabase
@@ -257,151 +515,6 @@ export class PredictionService {
     }
   }
 
-  private calculateHomeWinProbability(homeStats: TeamFormStats, awayStats: TeamFormStats, h2h: HeadToHeadStats): number {
-    // Base probability from recent form
-    const homeFormWeight = 0.4;
-    const awayFormWeight = 0.3;
-    const h2hWeight = 0.3;
-
-    const homeFormScore = this.calculateFormScore(homeStats.recentForm);
-    const awayFormScore = this.calculateFormScore(awayStats.recentForm);
-    
-    // Head-to-head factor
-    const h2hFactor = h2h.totalMatches > 0 ? h2h.homeWins / h2h.totalMatches : 0.5;
-    
-    // Goals factor
-    const homeGoalsFactor = Math.min(1, homeStats.averageGoalsScored / 2);
-    const awayGoalsFactor = Math.max(0, 1 - awayStats.averageGoalsConceded / 2);
-    
-    // Home advantage
-    const homeAdvantage = 0.1;
-    
-    const probability = (
-      homeFormWeight * homeFormScore +
-      awayFormWeight * (1 - awayFormScore) +
-      h2hWeight * h2hFactor +
-      homeAdvantage +
-      (homeGoalsFactor + awayGoalsFactor) * 0.1
-    ) / (homeFormWeight + awayFormWeight + h2hWeight + 0.1 + 0.2);
-
-    return Math.max(0.1, Math.min(0.9, probability));
-  }
-
-  private calculateAwayWinProbability(homeStats: TeamFormStats, awayStats: TeamFormStats, h2h: HeadToHeadStats): number {
-    // Similar to home win but with away perspective
-    const homeFormWeight = 0.3;
-    const awayFormWeight = 0.4;
-    const h2hWeight = 0.3;
-
-    const homeFormScore = this.calculateFormScore(homeStats.recentForm);
-    const awayFormScore = this.calculateFormScore(awayStats.recentForm);
-    
-    const h2hFactor = h2h.totalMatches > 0 ? h2h.awayWins / h2h.totalMatches : 0.3;
-    
-    const awayGoalsFactor = Math.min(1, awayStats.averageGoalsScored / 2);
-    const homeGoalsFactor = Math.max(0, 1 - homeStats.averageGoalsConceded / 2);
-    
-    // Away disadvantage
-    const awayDisadvantage = -0.05;
-    
-    const probability = (
-      homeFormWeight * (1 - homeFormScore) +
-      awayFormWeight * awayFormScore +
-      h2hWeight * h2hFactor +
-      awayDisadvantage +
-      (awayGoalsFactor + homeGoalsFactor) * 0.1
-    ) / (homeFormWeight + awayFormWeight + h2hWeight + 0.05 + 0.2);
-
-    return Math.max(0.05, Math.min(0.8, probability));
-  }
-
-  private calculateBothTeamsScoreProbability(homeStats: TeamFormStats, awayStats: TeamFormStats, h2h: HeadToHeadStats): number {
-    const homeScoringProb = Math.min(1, homeStats.averageGoalsScored / 1.5);
-    const awayScoringProb = Math.min(1, awayStats.averageGoalsScored / 1.5);
-    const homeConcedingProb = Math.min(1, homeStats.averageGoalsConceded / 1.5);
-    const awayConcedingProb = Math.min(1, awayStats.averageGoalsConceded / 1.5);
-    
-    const h2hFactor = h2h.totalMatches > 0 ? h2h.bothTeamsScored / h2h.totalMatches : 0.6;
-    
-    const probability = (
-      homeScoringProb * 0.3 +
-      awayScoringProb * 0.3 +
-      homeConcedingProb * 0.2 +
-      awayConcedingProb * 0.2 +
-      h2hFactor * 0.3
-    ) / 1.3;
-
-    return Math.max(0.2, Math.min(0.9, probability));
-  }
-
-  private calculateOver2_5GoalsProbability(homeStats: TeamFormStats, awayStats: TeamFormStats, h2h: HeadToHeadStats): number {
-    const totalAverageGoals = homeStats.averageGoalsScored + awayStats.averageGoalsScored;
-    const goalsFactor = Math.min(1, totalAverageGoals / 3);
-    
-    const h2hFactor = h2h.totalMatches > 0 ? h2h.over2_5Goals / h2h.totalMatches : 0.5;
-    
-    const probability = (goalsFactor * 0.7 + h2hFactor * 0.3) / 1;
-    
-    return Math.max(0.2, Math.min(0.9, probability));
-  }
-
-  private calculateHandicapProbability(baseProbability: number, handicap: number): number {
-    // Simple handicap calculation
-    const handicapFactor = handicap * 0.1;
-    return Math.max(0.1, Math.min(0.9, baseProbability - handicapFactor));
-  }
-
-  private calculateConfidenceScore(homeStats: TeamFormStats, awayStats: TeamFormStats, h2h: HeadToHeadStats): number {
-    // Factors that increase confidence:
-    // - More recent matches
-    // - Consistent form
-    // - More head-to-head matches
-    // - Clear goal patterns
-    
-    const homeFormConsistency = this.calculateFormConsistency(homeStats.recentForm);
-    const awayFormConsistency = this.calculateFormConsistency(awayStats.recentForm);
-    const h2hConfidence = Math.min(1, h2h.totalMatches / 5);
-    
-    const confidence = (
-      homeFormConsistency * 0.3 +
-      awayFormConsistency * 0.3 +
-      h2hConfidence * 0.4
-    );
-
-    return Math.max(0.1, Math.min(1, confidence));
-  }
-
-  private calculateFormScore(form: string[]): number {
-    if (form.length === 0) return 0.5;
-    
-    const weights = [0.4, 0.3, 0.2, 0.08, 0.02]; // Most recent matches have higher weight
-    let score = 0;
-    
-    form.forEach((result, index) => {
-      const weight = weights[index] || 0.01;
-      switch (result) {
-        case 'W': score += weight; break;
-        case 'D': score += weight * 0.5; break;
-        case 'L': score += 0; break;
-      }
-    });
-    
-    return score;
-  }
-
-  private calculateFormConsistency(form: string[]): number {
-    if (form.length < 2) return 0.5;
-    
-    const wins = form.filter(r => r === 'W').length;
-    const draws = form.filter(r => r === 'D').length;
-    const losses = form.filter(r => r === 'L').length;
-    
-    const total = form.length;
-    const maxCategory = Math.max(wins, draws, losses);
-    
-    return maxCategory / total;
-  }
-
   private getDefaultTeamStats(): TeamFormStats {
     return {
       recentForm: ['D', 'D', 'D', 'D', 'D'],
@@ -451,17 +564,139 @@ export class PredictionService {
     }
   }
 
-  private async savePrediction(prediction: Partial<Prediction>): Promise<void> {
+  // Adds a snapshot unless the model's current one was made from the same
+  // inputs; the previous snapshot is kept and marked superseded. The new one
+  // is stored superseded (out of the one-current-snapshot index) and only
+  // takes over once its scorelines and markets are saved, so a failure leaves
+  // the previous snapshot current.
+  private async savePrediction({ prediction, scorelines, markets }: GeneratedPrediction): Promise<void> {
     try {
-      const { error } = await this.supabase
+      const { data: current, error: currentError } = await this.supabase
+        .from('predictions')
+        .select('id, inputs_hash, published')
+        .eq('match_id', prediction.match_id)
+        .eq('model_id', prediction.model_id)
+        .is('superseded_at', null)
+        .maybeSingle();
+
+      if (currentError) {
+        this.logger.error(`Failed to load the current prediction for match ${prediction.match_id}:`, currentError);
+        return;
+      }
+
+      if (current && current.inputs_hash === prediction.inputs_hash) {
+        // Same output, but the published model may have changed hands
+        if (current.published !== prediction.published) {
+          const { error: publishError } = await this.supabase
+            .from('predictions')
+            .update({ published: prediction.published })
+            .eq('id', current.id);
+
+          if (publishError) {
+            this.logger.error(`Failed to update the published flag of prediction ${current.id}:`, publishError);
+          }
+        }
+        return;
+      }
+
+      const { data, error } = await this.supabase
         .from('predictions')
-        .upsert([prediction], { onConflict: 'match_id' });
+        .insert([{ ...prediction, superseded_at: prediction.generated_at }])
+        .select('id')
+        .single();
 
       if (error) {
         this.logger.error('Failed to save prediction:', error);
+        return;
+      }
+
+      const { error: scorelinesError } = await this.supabase
+        .from('prediction_scorelines')
+        .insert([{ ...scorelines, prediction_id: data.id }]);
+
+      if (scorelinesError) {
+        this.logger.error(`Failed to save scorelines for prediction ${data.id}:`, scorelinesError);
+        await this.discardPrediction(data.id);
+        return;
+      }
+
+      const { error: marketsError } = await this.supabase
+        .from('prediction_markets')
+        .insert(markets.map(market => ({ ...market, prediction_id: data.id })));
+
+      if (marketsError) {
+        this.logger.error(`Failed to save markets for prediction ${data.id}:`, marketsError);
+        await this.discardPrediction(data.id);
+        return;
+      }
+
+      if (current) {
+        const { error: supersedeError } = await this.supabase
+          .from('predictions')
+          .update({ superseded_at: prediction.generated_at })
+          .eq('id', current.id);
+
+        if (supersedeError) {
+          this.logger.error(`Failed to supersede prediction ${current.id}:`, supersedeError);
+          await this.discardPrediction(data.id);
+          return;
+        }
+      }
+
+      const { error: promoteError } = await this.supabase
+        .from('predictions')
+        .update({ superseded_at: null })
+        .eq('id', data.id);
+
+      if (promoteError) {
+        this.logger.error(`Failed to make prediction ${data.id} current:`, promoteError);
+        if (current) {
+          await this.supabase.from('predictions').update({ superseded_at: null }).eq('id', current.id);
+        }
+        await this.discardPrediction(data.id);
       }
     } catch (error) {
       this.logger.error('Failed to save prediction:', error);
     }
   }
-} 
\ No newline at end of file
+
+  // Removes a partly saved snapshot; its scorelines and markets cascade
+  private async discardPrediction(id: number): Promise<void> {
+    const { error } = await this.supabase.from('predictions').delete().eq('id', id);
+
+    if (error) {
+      this.logger.error(`Failed to remove partly saved prediction ${id}:`, error);
+    }
+  }
+}
+
+// Fingerprint of what a model read for one match. Only the two teams' entries
+// of the fitted league models count, so a refit that leaves them unchanged
+// does not add a snapshot; a new calibration version does.
+function inputsHash(model: PredictionModel, input: PredictorInput, headToHead: HeadToHeadStats, calibrationVersion: number | null): string {
+  const { homeTeamId, awayTeamId, goalModel, xgStrengths } = input;
+
+  const fingerprint = {
+    model: { id: model.id, config: model.config, calibrationVersion },
+    goalModel: {
+      base: goalModel.base,
+      homeAdvantage: goalModel.homeAdvantage,
+      rho: goalModel.rho,
+      attack: [goalModel.attack[homeTeamId], goalModel.attack[awayTeamId]],
+      defence: [goalModel.defence[homeTeamId], goalModel.defence[awayTeamId]]
+    },
+    xg: {
+      homeAverage: xgStrengths.homeAverage,
+      awayAverage: xgStrengths.awayAverage,
+      teams: [xgStrengths.teams[homeTeamId], xgStrengths.teams[awayTeamId]]
+    },
+    homeForm: input.homeForm,
+    awayForm: input.awayForm,
+    ratingDifference: input.ratingDifference,
+    homeAbsences: input.homeAbsences,
+    awayAbsences: input.awayAbsences,
+    headToHead
+  };
+
+  return crypto.createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex');
+}
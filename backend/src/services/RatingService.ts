@@ -0,0 +1,175 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import { EloMatch, SUPPORTED_LEAGUES, TeamRating, TeamRatings } from '../types';
+import { providerNameFor } from '../providers';
+import { computeElo, HOME_ADVANTAGE } from './elo';
+import { IdMappingService } from './IdMappingService';
+
+const HISTORY_LIMIT = 50;
+
+// Maintains Elo ratings for every team by replaying all finished matches
+export class RatingService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private idMapping: IdMappingService;
+  private pageSize = 1000;
+  private batchSize = 500;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+    this.idMapping = new IdMappingService(supabase, logger);
+  }
+
+  // Recomputes every rating from scratch so late results and corrected
+  // scores are picked up; returns the number of matches replayed
+  async rebuildRatings(): Promise<number> {
+    const matches = await this.loadFinishedMatches();
+    const { ratings, history } = computeElo(matches, await this.getCupLeagueIds());
+
+    await this.saveInBatches('team_ratings', ratings.map(rating => ({
+      ...rating,
+      rating: round(rating.rating)
+    })), 'team_id');
+
+    await this.saveInBatches('team_rating_history', history.map(change => ({
+      ...change,
+      rating_before: round(change.rating_before),
+      rating_after: round(change.rating_after)
+    })), 'team_id,match_id');
+
+    this.logger.info(`Rebuilt Elo ratings for ${ratings.length} teams from ${matches.length} matches`);
+    return matches.length;
+  }
+
+  // Stored ids of the cup competitions we follow
+  async getCupLeagueIds(): Promise<number[]> {
+    const ids = await Promise.all(SUPPORTED_LEAGUES
+      .filter(league => league.cup)
+      .map(league => this.idMapping.resolve('league', providerNameFor(league), league.apiId)));
+
+    return ids.filter(id => id !== null);
+  }
+
+  async getTeamRatings(teamId: number, limit: number = HISTORY_LIMIT): Promise<TeamRatings> {
+    const { data: current, error } = await this.supabase
+      .from('team_ratings')
+      .select('*')
+      .eq('team_id', teamId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load rating for team ${teamId}: ${error.message}`);
+    }
+
+    const { data: history, error: historyError } = await this.supabase
+      .from('team_rating_history')
+      .select(`
+        *,
+        match:matches(
+          id,
+          date,
+          league_id,
+          home_goals,
+          away_goals,
+          home_team:teams!home_team_id(id, name, logo),
+          away_team:teams!away_team_id(id, name, logo)
+        )
+      `)
+      .eq('team_id', teamId)
+      .order('date', { ascending: false })
+      .limit(limit);
+
+    if (historyError) {
+      throw new Error(`Failed to load rating history for team ${teamId}: ${historyError.message}`);
+    }
+
+    return { team_id: Number(teamId), current, history: history || [] };
+  }
+
+  // Highest rated first, optionally only teams whose domestic league is leagueId
+  async getRatings(leagueId?: number): Promise<TeamRating[]> {
+    let query = this.supabase
+      .from('team_ratings')
+      .select(`
+        *,
+        team:teams(id, name, logo)
+      `)
+      .order('rating', { ascending: false });
+
+    if (leagueId) {
+      query = query.eq('league_id', leagueId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load ratings: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // Home rating plus home advantage minus away rating; null until both teams
+  // have played
+  async getRatingDifference(homeTeamId: number, awayTeamId: number): Promise<number | null> {
+    const { data, error } = await this.supabase
+      .from('team_ratings')
+      .select('team_id, rating')
+      .in('team_id', [homeTeamId, awayTeamId]);
+
+    if (error) {
+      this.logger.error(`Failed to load ratings for teams ${homeTeamId} and ${awayTeamId}:`, error);
+      return null;
+    }
+
+    const home = (data || []).find(row => row.team_id === homeTeamId);
+    const away = (data || []).find(row => row.team_id === awayTeamId);
+    if (!home || !away) return null;
+
+    return Number(home.rating) + HOME_ADVANTAGE - Number(away.rating);
+  }
+
+  private async loadFinishedMatches(): Promise<EloMatch[]> {
+    const matches: EloMatch[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await this.supabase
+        .from('matches')
+        .select('id, date, league_id, home_team_id, away_team_id, home_goals, away_goals')
+        .eq('status', 'FINISHED')
+        .order('date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + this.pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to load finished matches: ${error.message}`);
+      }
+
+      matches.push(...(data || []));
+
+      if (!data || data.length < this.pageSize) {
+        return matches;
+      }
+
+      offset += this.pageSize;
+    }
+  }
+
+  private async saveInBatches(table: string, rows: any[], onConflict: string): Promise<void> {
+    for (let i = 0; i < rows.length; i += this.batchSize) {
+      const { error } = await this.supabase
+        .from(table)
+        .upsert(rows.slice(i, i + this.batchSize), { onConflict });
+
+      if (error) {
+        throw new Error(`Failed to save ${table}: ${error.message}`);
+      }
+    }
+  }
+}
+
+function round(rating: number): number {
+  return Math.round(rating * 100) / 100;
+}
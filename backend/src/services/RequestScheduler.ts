@@ -0,0 +1,257 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AxiosResponse } from 'axios';
+import winston from 'winston';
+import moment from 'moment';
+import { QuotaStatus } from '../types';
+
+export interface RequestSchedulerOptions {
+  dailyLimit: number;
+  minIntervalMs: number;
+  maxRetries: number;
+  backoffMs: number;
+}
+
+interface QueuedRequest {
+  task: () => Promise<AxiosResponse>;
+  priority: number;
+  sequence: number;
+  resolve: (response: AxiosResponse) => void;
+  reject: (error: any) => void;
+}
+
+export const DEFAULT_REQUEST_PRIORITY = 3;
+
+// Serialises calls to a rate-limited provider. Requests are queued by league
+// priority (1 = most important), paced by the per-minute headers, retried on
+// 429/5xx and counted against a daily budget persisted in api_quota.
+export class RequestScheduler {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private provider: string;
+  private options: RequestSchedulerOptions;
+  private queue: QueuedRequest[] = [];
+  private sequence = 0;
+  private processing = false;
+  private budgetLoaded = false;
+  private day = this.currentDay();
+  private used = 0;
+  private dailyLimit: number;
+  private remaining: number;
+  private minuteLimit: number | null = null;
+  private minuteRemaining: number | null = null;
+  private lastRequestAt = 0;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger, provider: string, options: Partial<RequestSchedulerOptions> = {}) {
+    this.supabase = supabase;
+    this.logger = logger;
+    this.provider = provider;
+    this.options = {
+      dailyLimit: parseInt(process.env.API_FOOTBALL_DAILY_LIMIT || '100'),
+      minIntervalMs: 1000,
+      maxRetries: 3,
+      backoffMs: 2000,
+      ...options
+    };
+    this.dailyLimit = this.options.dailyLimit;
+    this.remaining = this.options.dailyLimit;
+  }
+
+  schedule<T = any>(task: () => Promise<AxiosResponse<T>>, priority: number = DEFAULT_REQUEST_PRIORITY): Promise<AxiosResponse<T>> {
+    return new Promise((resolve, reject) => {
+      const request: QueuedRequest = {
+        task,
+        priority,
+        sequence: this.sequence++,
+        resolve,
+        reject
+      };
+
+      // Keep the queue ordered by priority, first-come first-served within a priority
+      const index = this.queue.findIndex(queued =>
+        queued.priority > priority || (queued.priority === priority && queued.sequence > request.sequence)
+      );
+      if (index === -1) {
+        this.queue.push(request);
+      } else {
+        this.queue.splice(index, 0, request);
+      }
+
+      this.processQueue();
+    });
+  }
+
+  getStatus(): QuotaStatus {
+    this.rollOverDay();
+
+    return {
+      provider: this.provider,
+      day: this.day,
+      dailyLimit: this.dailyLimit,
+      used: this.used,
+      remaining: this.remaining,
+      minuteLimit: this.minuteLimit,
+      minuteRemaining: this.minuteRemaining,
+      queueDepth: this.queue.length
+    };
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      if (!this.budgetLoaded) {
+        await this.loadBudget();
+      }
+
+      while (this.queue.length > 0) {
+        const request = this.queue.shift()!;
+        this.rollOverDay();
+
+        if (this.remaining <= 0) {
+          request.reject(new Error(`Daily ${this.provider} quota exhausted (${this.used}/${this.dailyLimit} requests used)`));
+          continue;
+        }
+
+        try {
+          request.resolve(await this.execute(request));
+        } catch (error) {
+          request.reject(error);
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async execute(request: QueuedRequest): Promise<AxiosResponse> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot();
+      this.lastRequestAt = Date.now();
+
+      try {
+        const response = await request.task();
+        await this.recordUsage(response.headers);
+        return response;
+      } catch (error: any) {
+        const status = error.response?.status;
+
+        if (error.response) {
+          await this.recordUsage(error.response.headers);
+        }
+
+        if (!this.isRetryable(status) || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+
+        const retryAfter = parseInt(error.response?.headers?.['retry-after']);
+        const backoff = !isNaN(retryAfter) ? retryAfter * 1000 : this.options.backoffMs * Math.pow(2, attempt);
+        this.logger.warn(`${this.provider} request failed with status ${status}, retrying in ${backoff}ms (attempt ${attempt + 1})`);
+        await this.delay(backoff);
+      }
+    }
+  }
+
+  private isRetryable(status: number | undefined): boolean {
+    return status === 429 || (status !== undefined && status >= 500);
+  }
+
+  private async waitForSlot(): Promise<void> {
+    const sinceLast = Date.now() - this.lastRequestAt;
+
+    // Out of per-minute requests: wait for the window to reset
+    if (this.minuteRemaining !== null && this.minuteRemaining <= 0) {
+      await this.delay(Math.max(0, 60 * 1000 - sinceLast));
+      this.minuteRemaining = this.minuteLimit;
+      return;
+    }
+
+    if (sinceLast < this.options.minIntervalMs) {
+      await this.delay(this.options.minIntervalMs - sinceLast);
+    }
+  }
+
+  private async recordUsage(headers: any): Promise<void> {
+    this.rollOverDay();
+    this.used++;
+    this.remaining = Math.max(0, this.remaining - 1);
+
+    const dailyLimit = parseInt(headers?.['x-ratelimit-requests-limit']);
+    const dailyRemaining = parseInt(headers?.['x-ratelimit-requests-remaining']);
+    const minuteLimit = parseInt(headers?.['x-ratelimit-limit']);
+    const minuteRemaining = parseInt(headers?.['x-ratelimit-remaining']);
+
+    // The provider's own counters win over our local bookkeeping
+    if (!isNaN(dailyLimit)) this.dailyLimit = dailyLimit;
+    if (!isNaN(dailyRemaining)) {
+      this.remaining = dailyRemaining;
+      this.used = Math.max(this.used, this.dailyLimit - dailyRemaining);
+    }
+    if (!isNaN(minuteLimit)) this.minuteLimit = minuteLimit;
+    if (!isNaN(minuteRemaining)) this.minuteRemaining = minuteRemaining;
+
+    await this.persistBudget();
+  }
+
+  private async loadBudget(): Promise<void> {
+    try {
+      const { data, error } = await this.supabase
+        .from('api_quota')
+        .select('*')
+        .eq('provider', this.provider)
+        .eq('day', this.day)
+        .maybeSingle();
+
+      if (error) {
+        this.logger.error(`Failed to load ${this.provider} quota:`, error);
+      } else if (data) {
+        this.used = data.requests_used;
+        this.dailyLimit = data.daily_limit;
+        this.remaining = data.requests_remaining;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to load ${this.provider} quota:`, error);
+    }
+
+    this.budgetLoaded = true;
+  }
+
+  private async persistBudget(): Promise<void> {
+    try {
+      const { error } = await this.supabase
+        .from('api_quota')
+        .upsert([{
+          provider: this.provider,
+          day: this.day,
+          requests_used: this.used,
+          daily_limit: this.dailyLimit,
+          requests_remaining: this.remaining
+        }], { onConflict: 'provider,day' });
+
+      if (error) {
+        this.logger.error(`Failed to persist ${this.provider} quota:`, error);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to persist ${this.provider} quota:`, error);
+    }
+  }
+
+  // API-Football resets the daily counter at midnight UTC
+  private rollOverDay(): void {
+    const today = this.currentDay();
+
+    if (today !== this.day) {
+      this.day = today;
+      this.used = 0;
+      this.remaining = this.dailyLimit;
+    }
+  }
+
+  private currentDay(): string {
+    return moment.utc().format('YYYY-MM-DD');
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,164 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import winston from 'winston';
+import { ProviderResponse, ResponseReplayFilters } from '../types';
+
+export type ResponseParams = Record<string, string | number>;
+
+// Keeps every provider response DataService ingests, keyed by provider, endpoint
+// and parameters. Payloads are the raw bodies from FootballDataProvider.fetchResponse,
+// so a replay re-runs the current parser before the upsert path.
+export class ResponseStore {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private pageSize = 50;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+  }
+
+  // Returns changed=false when the payload is identical to the last one stored
+  // for the same request, in which case only last_seen_at is bumped. A changed
+  // payload is not stored until record() is called for it.
+  async check(provider: string, endpoint: string, params: ResponseParams, payload: any): Promise<{ changed: boolean }> {
+    try {
+      const { data: latest, error: latestError } = await this.supabase
+        .from('provider_responses')
+        .select('id, content_hash')
+        .eq('provider', provider)
+        .eq('endpoint', endpoint)
+        .eq('params_key', this.buildParamsKey(params))
+        .order('fetched_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestError) {
+        this.logger.error(`Failed to look up stored ${endpoint} response:`, latestError);
+        return { changed: true };
+      }
+
+      if (!latest || latest.content_hash !== this.hashPayload(payload)) {
+        return { changed: true };
+      }
+
+      const { error } = await this.supabase
+        .from('provider_responses')
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq('id', latest.id);
+
+      if (error) {
+        this.logger.error(`Failed to touch stored ${endpoint} response ${latest.id}:`, error);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to check ${endpoint} response:`, error);
+      return { changed: true };
+    }
+
+    return { changed: false };
+  }
+
+  // Stores a payload once everything in it has been saved, so a failed or
+  // partial save is not taken for unchanged on the next fetch
+  async record(provider: string, endpoint: string, params: ResponseParams, payload: any): Promise<void> {
+    const now = new Date().toISOString();
+
+    const { error } = await this.supabase
+      .from('provider_responses')
+      .insert({
+        provider,
+        endpoint,
+        params,
+        params_key: this.buildParamsKey(params),
+        content_hash: this.hashPayload(payload),
+        payload,
+        fetched_at: now,
+        last_seen_at: now
+      });
+
+    if (error) {
+      this.logger.error(`Failed to store ${endpoint} response:`, error);
+    }
+  }
+
+  // When the request last returned a payload, null when it was never fetched
+  async lastSeenAt(provider: string, endpoint: string, params: ResponseParams): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('provider_responses')
+      .select('last_seen_at')
+      .eq('provider', provider)
+      .eq('endpoint', endpoint)
+      .eq('params_key', this.buildParamsKey(params))
+      .order('fetched_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load stored ${endpoint} response: ${error.message}`);
+    }
+
+    return data ? data.last_seen_at : null;
+  }
+
+  // Walks stored responses oldest first, one page at a time
+  async forEach(filters: ResponseReplayFilters, callback: (response: ProviderResponse) => Promise<void>): Promise<number> {
+    let offset = 0;
+    let processed = 0;
+
+    while (true) {
+      let query = this.supabase
+        .from('provider_responses')
+        .select('*')
+        .order('fetched_at', { ascending: true })
+        .order('id', { ascending: true });
+
+      if (filters.provider) {
+        query = query.eq('provider', filters.provider);
+      }
+
+      if (filters.endpoint) {
+        query = query.eq('endpoint', filters.endpoint);
+      }
+
+      if (filters.from) {
+        query = query.gte('fetched_at', filters.from);
+      }
+
+      if (filters.to) {
+        query = query.lte('fetched_at', filters.to);
+      }
+
+      if (filters.ids && filters.ids.length > 0) {
+        query = query.in('id', filters.ids);
+      }
+
+      const { data, error } = await query.range(offset, offset + this.pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to load stored responses: ${error.message}`);
+      }
+
+      for (const response of data || []) {
+        await callback(response);
+        processed++;
+      }
+
+      if (!data || data.length < this.pageSize) {
+        return processed;
+      }
+
+      offset += this.pageSize;
+    }
+  }
+
+  private buildParamsKey(params: ResponseParams): string {
+    return Object.keys(params)
+      .sort()
+      .map(key => `${key}=${params[key]}`)
+      .join('&');
+  }
+
+  private hashPayload(payload: any): string {
+    return crypto.createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+  }
+}
@@ -0,0 +1,93 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import moment from 'moment';
+import { LeagueConfig, ProviderSeason, Season } from '../types';
+
+const CACHE_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Owns the notion of "current season" per competition. Ingestion feeds it the
+// provider's seasons list (with its current flag); everything else reads the
+// seasons table so they agree on which season is active.
+export class SeasonService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private cache = new Map<number, { season: number; expiresAt: number }>();
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+  }
+
+  getCachedSeason(league: LeagueConfig): number | null {
+    const cached = this.cache.get(league.apiId);
+    return cached && cached.expiresAt > Date.now() ? cached.season : null;
+  }
+
+  rememberCurrentSeason(league: LeagueConfig, seasons: ProviderSeason[]): void {
+    const current = seasons.find(season => season.current);
+    if (current) {
+      this.cache.set(league.apiId, { season: current.year, expiresAt: Date.now() + CACHE_TTL_MS });
+    }
+  }
+
+  async saveSeasons(league: LeagueConfig, leagueId: number, seasons: ProviderSeason[]): Promise<boolean> {
+    this.rememberCurrentSeason(league, seasons);
+
+    if (seasons.length === 0) return true;
+
+    const rows: Partial<Season>[] = seasons.map(season => ({
+      league_id: leagueId,
+      year: season.year,
+      start_date: season.start,
+      end_date: season.end,
+      current: season.current
+    }));
+
+    const { error } = await this.supabase
+      .from('seasons')
+      .upsert(rows, { onConflict: 'league_id,year' });
+
+    if (error) {
+      this.logger.error(`Failed to upsert seasons for ${league.name}:`, error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Season active for a stored league on a given date: the one whose dates
+  // contain it, else the provider's current season
+  async getActiveSeason(leagueId: number, asOf?: string): Promise<Season | null> {
+    let query = this.supabase
+      .from('seasons')
+      .select('*')
+      .eq('league_id', leagueId);
+
+    if (asOf) {
+      const day = moment(asOf).format('YYYY-MM-DD');
+      query = query.lte('start_date', day).gte('end_date', day);
+    } else {
+      query = query.eq('current', true);
+    }
+
+    const { data, error } = await query
+      .order('year', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      this.logger.error(`Failed to get active season for league ${leagueId}:`, error);
+      return null;
+    }
+
+    return data;
+  }
+
+  // Used when the provider cannot be reached: leagues running August-May keep
+  // the starting year until the summer break
+  fallbackSeason(league: LeagueConfig, date: Date = new Date()): number {
+    const year = date.getUTCFullYear();
+    if (league.seasonFormat === 'calendar') return year;
+    return date.getUTCMonth() >= 6 ? year : year - 1;
+  }
+}
@@ -0,0 +1,180 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import { MarketOutcome, PredictionMarket } from '../types';
+import { marketOutcome, settleSelection } from './predictionMarkets';
+
+type MarketRow = Pick<PredictionMarket, 'id' | 'market' | 'selection' | 'line'>;
+
+// Statuses that mean the match has kicked off
+const STARTED_STATUSES = ['LIVE', 'FINISHED'];
+
+// A postponed match keeps its old date until it is rescheduled, so its
+// predictions are only voided once that date is this far behind us
+const VOID_POSTPONED_AFTER_DAYS = 14;
+
+// Marks the snapshot each model had at kickoff as its closing prediction and
+// records hit/miss for every market once the match is finished. Predictions
+// of cancelled matches are voided: settled without outcomes or a closing
+// snapshot, so they drop out of the unsettled set and the track record.
+export class SettlementService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private pageSize = 1000;
+  private batchSize = 500;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+  }
+
+  // Returns the number of matches settled
+  async settlePredictions(): Promise<number> {
+    const predictions = await this.loadUnsettledPredictions();
+
+    const byMatch = new Map<number, any[]>();
+    for (const prediction of predictions) {
+      byMatch.set(prediction.match_id, [...(byMatch.get(prediction.match_id) || []), prediction]);
+    }
+
+    let settled = 0;
+
+    for (const [matchId, rows] of byMatch) {
+      const match = Array.isArray(rows[0].match) ? rows[0].match[0] : rows[0].match;
+      if (!match) continue;
+
+      try {
+        if (isVoid(match)) {
+          await this.markSettled(matchId, rows.map(row => row.id));
+          settled++;
+          continue;
+        }
+
+        if (!STARTED_STATUSES.includes(match.status)) continue;
+
+        if (!rows.some(row => row.is_closing)) {
+          await this.markClosing(matchId);
+        }
+
+        // Markets settle on 90 minutes; a cup tie's goals include extra time
+        const homeGoals = match.home_score_fulltime ?? match.home_goals;
+        const awayGoals = match.away_score_fulltime ?? match.away_goals;
+
+        if (match.status === 'FINISHED' && homeGoals !== null && awayGoals !== null) {
+          await this.settleMatch(matchId, rows.map(row => row.id), homeGoals, awayGoals);
+          settled++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to settle predictions for match ${matchId}:`, error);
+      }
+    }
+
+    if (settled > 0) {
+      this.logger.info(`Settled predictions for ${settled} matches`);
+    }
+
+    return settled;
+  }
+
+  // Predictions stop being generated at kickoff, so the current snapshot of
+  // each model is the one it closed with
+  private async markClosing(matchId: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('predictions')
+      .update({ is_closing: true })
+      .eq('match_id', matchId)
+      .is('superseded_at', null)
+      .eq('is_closing', false);
+
+    if (error) {
+      throw new Error(`Failed to mark closing predictions: ${error.message}`);
+    }
+  }
+
+  private async settleMatch(matchId: number, predictionIds: number[], homeGoals: number, awayGoals: number): Promise<void> {
+    const markets = await this.loadMarkets(predictionIds);
+
+    for (const [outcome, ids] of settleMarketRows(markets, homeGoals, awayGoals)) {
+      for (let i = 0; i < ids.length; i += this.batchSize) {
+        const { error } = await this.supabase
+          .from('prediction_markets')
+          .update({ outcome })
+          .in('id', ids.slice(i, i + this.batchSize));
+
+        if (error) {
+          throw new Error(`Failed to save ${outcome} outcomes: ${error.message}`);
+        }
+      }
+    }
+
+    await this.markSettled(matchId, predictionIds);
+  }
+
+  private async markSettled(matchId: number, predictionIds: number[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('predictions')
+      .update({ settled_at: new Date().toISOString() })
+      .in('id', predictionIds);
+
+    if (error) {
+      throw new Error(`Failed to mark predictions of match ${matchId} settled: ${error.message}`);
+    }
+  }
+
+  private async loadUnsettledPredictions(): Promise<any[]> {
+    const columns = 'id, match_id, is_closing, match:matches(status, date, home_goals, away_goals, home_score_fulltime, away_score_fulltime)';
+    return this.fetchAll('predictions', columns, query => query
+      .is('settled_at', null));
+  }
+
+  private async loadMarkets(predictionIds: number[]): Promise<MarketRow[]> {
+    return this.fetchAll('prediction_markets', 'id, market, selection, line', query => query
+      .in('prediction_id', predictionIds));
+  }
+
+  private async fetchAll(table: string, columns: string, scope: (query: any) => any): Promise<any[]> {
+    const rows: any[] = [];
+    let offset = 0;
+
+    while (true) {
+      const { data, error } = await scope(this.supabase
+        .from(table)
+        .select(columns))
+        .order('id', { ascending: true })
+        .range(offset, offset + this.pageSize - 1);
+
+      if (error) {
+        throw new Error(`Failed to load ${table}: ${error.message}`);
+      }
+
+      rows.push(...(data || []));
+
+      if (!data || data.length < this.pageSize) {
+        return rows;
+      }
+
+      offset += this.pageSize;
+    }
+  }
+}
+
+function isVoid(match: { status: string; date: string }): boolean {
+  if (match.status === 'CANCELLED') return true;
+  return match.status === 'POSTPONED'
+    && Date.now() - new Date(match.date).getTime() > VOID_POSTPONED_AFTER_DAYS * 24 * 60 * 60 * 1000;
+}
+
+// Market row ids grouped by how they settled on the final score; rows we
+// cannot settle are left out
+export function settleMarketRows(rows: MarketRow[], homeGoals: number, awayGoals: number): Map<MarketOutcome, number[]> {
+  const outcomes = new Map<MarketOutcome, number[]>();
+
+  for (const row of rows) {
+    const settlement = settleSelection(row.market, row.selection, row.line === null ? null : Number(row.line), homeGoals, awayGoals);
+    if (settlement === null) continue;
+
+    const outcome = marketOutcome(settlement);
+    outcomes.set(outcome, [...(outcomes.get(outcome) || []), row.id]);
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,271 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import moment from 'moment';
+import { GroupStandings, Match, StandingRecord, StandingRow, Standings, Team, Tiebreaker } from '../types';
+import { DataService } from './DataService';
+
+// Used for competitions without a LeagueConfig
+export const DEFAULT_TIEBREAKERS: Tiebreaker[] = ['goal_difference', 'goals_for'];
+
+const FORM_LENGTH = 5;
+
+type TeamInfo = Pick<Team, 'id' | 'name' | 'logo'>;
+
+export type StandingMatch = Pick<Match, 'id' | 'date' | 'home_team_id' | 'away_team_id' | 'home_goals' | 'away_goals'> & {
+  home_team: TeamInfo;
+  away_team: TeamInfo;
+};
+
+interface TeamTally {
+  team: TeamInfo;
+  home: StandingRecord;
+  away: StandingRecord;
+  form: StandingRow['form'];
+}
+
+// Builds league tables from finished matches, so the table can be shown as it
+// stood on any past date
+export class StandingsService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+  private dataService: DataService;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger, dataService: DataService) {
+    this.supabase = supabase;
+    this.logger = logger;
+    this.dataService = dataService;
+  }
+
+  // Defaults to the season active on asOf (or today); null when there is none
+  async getStandings(leagueId: number, options: { season?: number; asOf?: string } = {}): Promise<Standings | null> {
+    let season = options.season;
+
+    if (!season) {
+      const activeSeason = await this.dataService.getActiveSeason(leagueId, options.asOf);
+      if (!activeSeason) return null;
+      season = activeSeason.year;
+    }
+
+    let query = this.supabase
+      .from('matches')
+      .select(`
+        id,
+        date,
+        home_team_id,
+        away_team_id,
+        home_goals,
+        away_goals,
+        home_team:teams!home_team_id(id, name, logo),
+        away_team:teams!away_team_id(id, name, logo)
+      `)
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .eq('status', 'FINISHED')
+      .or('stage.is.null,stage.eq.LEAGUE');
+
+    if (options.asOf) {
+      query = query.lte('date', moment(options.asOf).endOf('day').toISOString());
+    }
+
+    const { data: matches, error } = await query.order('date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load matches for league ${leagueId} ${season}: ${error.message}`);
+    }
+
+    const league = await this.dataService.getLeagueConfig(leagueId);
+    const tiebreakers = league ? league.tiebreakers : DEFAULT_TIEBREAKERS;
+
+    this.logger.debug(`Computing standings for league ${leagueId} ${season} from ${(matches || []).length} matches`);
+
+    return {
+      league_id: Number(leagueId),
+      season,
+      as_of: options.asOf || null,
+      table: computeStandings((matches || []) as any[], tiebreakers)
+    };
+  }
+
+  // One table per group of a cup competition's group stage
+  async getGroupTables(leagueId: number, season?: number): Promise<GroupStandings | null> {
+    if (!season) {
+      const activeSeason = await this.dataService.getActiveSeason(leagueId);
+      if (!activeSeason) return null;
+      season = activeSeason.year;
+    }
+
+    const { data: matches, error } = await this.supabase
+      .from('matches')
+      .select(`
+        id,
+        date,
+        group_name,
+        home_team_id,
+        away_team_id,
+        home_goals,
+        away_goals,
+        home_team:teams!home_team_id(id, name, logo),
+        away_team:teams!away_team_id(id, name, logo)
+      `)
+      .eq('league_id', leagueId)
+      .eq('season', season)
+      .eq('stage', 'GROUP')
+      .eq('status', 'FINISHED')
+      .order('date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load group matches for league ${leagueId} ${season}: ${error.message}`);
+    }
+
+    const league = await this.dataService.getLeagueConfig(leagueId);
+    const tiebreakers = league ? league.groupTiebreakers || league.tiebreakers : DEFAULT_TIEBREAKERS;
+
+    const groups = new Map<string, StandingMatch[]>();
+    for (const match of (matches || []) as any[]) {
+      const name = match.group_name || '';
+      groups.set(name, [...(groups.get(name) || []), match]);
+    }
+
+    return {
+      league_id: Number(leagueId),
+      season,
+      groups: [...groups.keys()]
+        .sort()
+        .map(name => ({ name, table: computeStandings(groups.get(name), tiebreakers) }))
+    };
+  }
+}
+
+// Ranks every team that played by points, then by the competition's tiebreakers
+export function computeStandings(matches: StandingMatch[], tiebreakers: Tiebreaker[]): StandingRow[] {
+  const rows = [...tallyMatches(matches).values()].map(tally => ({
+    position: 0,
+    team: tally.team,
+    ...combineRecords(tally.home, tally.away),
+    home: tally.home,
+    away: tally.away,
+    form: tally.form
+  }));
+
+  const byPoints = new Map<number, StandingRow[]>();
+  for (const row of rows) {
+    byPoints.set(row.points, [...(byPoints.get(row.points) || []), row]);
+  }
+
+  const ranked = [...byPoints.keys()]
+    .sort((a, b) => b - a)
+    .flatMap(points => breakTies(byPoints.get(points), matches, tiebreakers));
+
+  return ranked.map((row, index) => ({ ...row, position: index + 1 }));
+}
+
+// Applies the first tiebreaker to a group level on points and recurses into
+// the teams it still cannot separate; name order is the last resort
+function breakTies(group: StandingRow[], matches: StandingMatch[], tiebreakers: Tiebreaker[]): StandingRow[] {
+  if (group.length < 2) return group;
+  if (tiebreakers.length === 0) {
+    return [...group].sort((a, b) => (a.team.name || '').localeCompare(b.team.name || '') || a.team.id - b.team.id);
+  }
+
+  const [criterion, ...rest] = tiebreakers;
+  const values = tiebreakValues(criterion, group, matches);
+
+  const sorted = [...group].sort((a, b) => values.get(b.team.id) - values.get(a.team.id));
+  const ranked: StandingRow[] = [];
+
+  let start = 0;
+  for (let i = 1; i <= sorted.length; i++) {
+    if (i === sorted.length || values.get(sorted[i].team.id) !== values.get(sorted[start].team.id)) {
+      ranked.push(...breakTies(sorted.slice(start, i), matches, rest));
+      start = i;
+    }
+  }
+
+  return ranked;
+}
+
+function tiebreakValues(criterion: Tiebreaker, group: StandingRow[], matches: StandingMatch[]): Map<number, number> {
+  if (criterion.startsWith('head_to_head_')) {
+    // Mini-table of the matches the tied teams played against each other
+    const teamIds = new Set(group.map(row => row.team.id));
+    const mutual = tallyMatches(matches.filter(match => teamIds.has(match.home_team_id) && teamIds.has(match.away_team_id)));
+
+    return new Map(group.map(row => {
+      const tally = mutual.get(row.team.id);
+      const record = tally ? combineRecords(tally.home, tally.away) : emptyRecord();
+      if (criterion === 'head_to_head_points') return [row.team.id, record.points];
+      if (criterion === 'head_to_head_goal_difference') return [row.team.id, record.goal_difference];
+      return [row.team.id, record.goals_for];
+    }));
+  }
+
+  return new Map(group.map(row => {
+    if (criterion === 'goal_difference') return [row.team.id, row.goal_difference];
+    if (criterion === 'goals_for') return [row.team.id, row.goals_for];
+    if (criterion === 'away_goals_for') return [row.team.id, row.away.goals_for];
+    return [row.team.id, row.won];
+  }));
+}
+
+// Home and away records per team (input oldest first)
+function tallyMatches(matches: StandingMatch[]): Map<number, TeamTally> {
+  const tallies = new Map<number, TeamTally>();
+
+  const tallyFor = (team: TeamInfo): TeamTally => {
+    if (!tallies.has(team.id)) {
+      tallies.set(team.id, { team, home: emptyRecord(), away: emptyRecord(), form: [] });
+    }
+    return tallies.get(team.id);
+  };
+
+  for (const match of matches) {
+    if (match.home_goals === null || match.away_goals === null) continue;
+
+    const home = tallyFor(match.home_team || { id: match.home_team_id, name: null, logo: null });
+    const away = tallyFor(match.away_team || { id: match.away_team_id, name: null, logo: null });
+
+    home.form = [addResult(home.home, match.home_goals, match.away_goals), ...home.form].slice(0, FORM_LENGTH);
+    away.form = [addResult(away.away, match.away_goals, match.home_goals), ...away.form].slice(0, FORM_LENGTH);
+  }
+
+  return tallies;
+}
+
+function addResult(record: StandingRecord, scored: number, conceded: number): 'W' | 'D' | 'L' {
+  record.played++;
+  record.goals_for += scored;
+  record.goals_against += conceded;
+  record.goal_difference = record.goals_for - record.goals_against;
+
+  if (scored > conceded) {
+    record.won++;
+    record.points += 3;
+    return 'W';
+  }
+
+  if (scored === conceded) {
+    record.drawn++;
+    record.points += 1;
+    return 'D';
+  }
+
+  record.lost++;
+  return 'L';
+}
+
+function combineRecords(home: StandingRecord, away: StandingRecord): StandingRecord {
+  return {
+    played: home.played + away.played,
+    won: home.won + away.won,
+    drawn: home.drawn + away.drawn,
+    lost: home.lost + away.lost,
+    goals_for: home.goals_for + away.goals_for,
+    goals_against: home.goals_against + away.goals_against,
+    goal_difference: home.goal_difference + away.goal_difference,
+    points: home.points + away.points
+  };
+}
+
+function emptyRecord(): StandingRecord {
+  return { played: 0, won: 0, drawn: 0, lost: 0, goals_for: 0, goals_against: 0, goal_difference: 0, points: 0 };
+}
@@ -0,0 +1,183 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import winston from 'winston';
+import moment from 'moment';
+import { Odds, OddsMarket, PredictionMarket, ValueBet } from '../types';
+import { latestPrices } from './OddsService';
+import { expectedValue, findMarket, MarketPrice } from './predictionMarkets';
+
+export const DEFAULT_MIN_EDGE = 0.03;
+const VALUE_BET_WINDOW_HOURS = 72;
+
+// Number of selections that make up a complete book, and what its fair
+// probabilities add up to (each double chance outcome covers two results)
+const COMPLETE_BOOKS: Partial<Record<OddsMarket, { selections: number; total: number }>> = {
+  MATCH_WINNER: { selections: 3, total: 1 },
+  DOUBLE_CHANCE: { selections: 3, total: 2 },
+  OVER_UNDER: { selections: 2, total: 1 },
+  BOTH_TEAMS_SCORE: { selections: 2, total: 1 },
+  ASIAN_HANDICAP: { selections: 2, total: 1 }
+};
+
+export type PricedSelection = Pick<Odds, 'bookmaker' | 'market' | 'selection' | 'line' | 'price' | 'captured_at'>;
+
+export type ValueBetPrice = Omit<ValueBet, 'match_id' | 'match'>;
+
+// Compares our probabilities with bookmaker prices for upcoming matches
+export class ValueBetService {
+  private supabase: SupabaseClient;
+  private logger: winston.Logger;
+
+  constructor(supabase: SupabaseClient, logger: winston.Logger) {
+    this.supabase = supabase;
+    this.logger = logger;
+  }
+
+  // Best-priced selection per match and market with at least minEdge over the
+  // bookmaker's fair probability, biggest edge first
+  async findValueBets(minEdge: number = DEFAULT_MIN_EDGE, hours: number = VALUE_BET_WINDOW_HOURS): Promise<ValueBet[]> {
+    const { data: matches, error } = await this.supabase
+      .from('matches')
+      .select(`
+        id,
+        date,
+        home_team:teams!home_team_id(id, name, logo),
+        away_team:teams!away_team_id(id, name, logo),
+        league:leagues(id, name, logo),
+        predictions(id, published, superseded_at, markets:prediction_markets(*))
+      `)
+      .eq('status', 'SCHEDULED')
+      .gte('date', new Date().toISOString())
+      .lte('date', moment().add(hours, 'hours').toISOString())
+      .order('date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load upcoming matches: ${error.message}`);
+    }
+
+    const predicted = (matches || []).filter((match: any) => this.publishedPrediction(match) !== null);
+    if (predicted.length === 0) return [];
+
+    const { data: odds, error: oddsError } = await this.supabase
+      .from('odds')
+      .select('*')
+      .in('match_id', predicted.map((match: any) => match.id))
+      .order('captured_at', { ascending: true });
+
+    if (oddsError) {
+      throw new Error(`Failed to load odds: ${oddsError.message}`);
+    }
+
+    const oddsByMatch = new Map<number, Odds[]>();
+    for (const row of odds || []) {
+      oddsByMatch.set(row.match_id, [...(oddsByMatch.get(row.match_id) || []), row]);
+    }
+
+    const valueBets: ValueBet[] = [];
+
+    for (const match of predicted as any[]) {
+      const prices = evaluatePrices(this.publishedPrediction(match).markets || [], latestPrices(oddsByMatch.get(match.id) || []));
+
+      for (const price of bestPrices(prices)) {
+        if (price.edge < minEdge) continue;
+
+        const { predictions, ...details } = match;
+        valueBets.push({ match_id: match.id, match: details, ...price });
+      }
+    }
+
+    this.logger.info(`Found ${valueBets.length} value bets with edge >= ${minEdge}`);
+    return valueBets.sort((a, b) => b.edge - a.edge);
+  }
+
+  // Each model has its own prediction history; value is judged on the current
+  // snapshot of the published one
+  private publishedPrediction(match: any): { id: number; markets: PredictionMarket[] } | null {
+    const predictions = Array.isArray(match.predictions) ? match.predictions : [match.predictions];
+    return predictions.find((prediction: any) => prediction && prediction.published && !prediction.superseded_at) || null;
+  }
+}
+
+// Proportional margin removal: scale implied probabilities so the book adds up
+// to its fair total
+export function removeMargin(prices: number[], total: number = 1): number[] {
+  const implied = prices.map(price => 1 / price);
+  const sum = implied.reduce((acc, value) => acc + value, 0);
+  return implied.map(value => value * total / sum);
+}
+
+// Fair probability, edge and expected value for every selection we price.
+// Lines that can push or half win are compared on the win probability that
+// would give the same expected value at that price.
+export function evaluatePrices(markets: MarketPrice[], odds: PricedSelection[]): ValueBetPrice[] {
+  const books = new Map<string, PricedSelection[]>();
+  for (const row of odds) {
+    const key = [row.bookmaker, row.market, bookLine(row)].join('|');
+    books.set(key, [...(books.get(key) || []), row]);
+  }
+
+  const evaluated: ValueBetPrice[] = [];
+
+  for (const book of books.values()) {
+    const prices = book.map(row => Number(row.price));
+    const complete = COMPLETE_BOOKS[book[0].market];
+
+    // A partial book (e.g. a handful of correct scores) has no known margin
+    const fair = complete && book.length === complete.selections
+      ? removeMargin(prices, complete.total)
+      : prices.map(price => 1 / price);
+
+    book.forEach((row, index) => {
+      const market = findMarket(markets, row.market, row.selection, row.line === null ? null : Number(row.line));
+      if (!market) return;
+
+      const value = expectedValue(numericMarket(market), prices[index]);
+      const probability = (value + 1) / prices[index];
+
+      evaluated.push({
+        market: row.market,
+        selection: row.selection,
+        line: row.line === null ? null : Number(row.line),
+        bookmaker: row.bookmaker,
+        price: prices[index],
+        captured_at: row.captured_at,
+        model_probability: probability,
+        fair_probability: fair[index],
+        edge: probability - fair[index],
+        expected_value: value
+      });
+    });
+  }
+
+  return evaluated;
+}
+
+// Highest expected value across bookmakers for each selection
+export function bestPrices(prices: ValueBetPrice[]): ValueBetPrice[] {
+  const best = new Map<string, ValueBetPrice>();
+  for (const price of prices) {
+    const key = [price.market, price.selection, price.line].join('|');
+    const current = best.get(key);
+    if (!current || price.expected_value > current.expected_value) {
+      best.set(key, price);
+    }
+  }
+  return [...best.values()];
+}
+
+// Handicap books pair HOME -0.5 with AWAY +0.5, so key them on the home line
+function bookLine(row: PricedSelection): string {
+  if (row.line === null) return '';
+  const line = Number(row.line);
+  return String(row.market === 'ASIAN_HANDICAP' && row.selection === 'AWAY' ? -line : line);
+}
+
+// DECIMAL columns can come back from PostgREST as strings
+function numericMarket(market: MarketPrice): MarketPrice {
+  return {
+    ...market,
+    probability: Number(market.probability),
+    half_win_probability: Number(market.half_win_probability || 0),
+    push_probability: Number(market.push_probability || 0),
+    half_loss_probability: Number(market.half_loss_probability || 0)
+  };
+}
@@ -0,0 +1,70 @@
+import { Absence, AbsenceImpact, ExpectedGoals, PlayerSeasonStats, TeamFormStats } from '../types';
+
+// Doubtful players are counted as half missing
+const STATUS_WEIGHTS: Record<Absence['status'], number> = {
+  MISSING: 1,
+  QUESTIONABLE: 0.5
+};
+
+// Replacements cover part of what an absent player brings, so a side missing
+// its whole goal output scores half as much rather than nothing
+const ATTACK_IMPACT_WEIGHT = 0.5;
+const DEFENCE_IMPACT_WEIGHT = 0.5;
+
+const DEFENSIVE_POSITIONS = ['Goalkeeper', 'Defender'];
+
+export const NO_ABSENCE_IMPACT: AbsenceImpact = { attack: 0, defence: 0, absentPlayers: 0 };
+
+type SeasonRow = Pick<PlayerSeasonStats, 'player_id' | 'position' | 'minutes' | 'goals'>;
+
+// Weighs a team's absences against its season statistics (all competitions)
+export function calculateAbsenceImpact(absences: Pick<Absence, 'player_id' | 'status'>[], seasonStats: SeasonRow[]): AbsenceImpact {
+  if (absences.length === 0) return NO_ABSENCE_IMPACT;
+
+  const weights = new Map<number, number>();
+  for (const absence of absences) {
+    if (absence.player_id === null) continue;
+    weights.set(absence.player_id, Math.max(weights.get(absence.player_id) || 0, STATUS_WEIGHTS[absence.status]));
+  }
+
+  let teamGoals = 0;
+  let absentGoals = 0;
+  let defensiveMinutes = 0;
+  let absentDefensiveMinutes = 0;
+
+  for (const row of seasonStats) {
+    const weight = weights.get(row.player_id) || 0;
+    teamGoals += row.goals;
+    absentGoals += weight * row.goals;
+
+    if (row.position && DEFENSIVE_POSITIONS.includes(row.position)) {
+      defensiveMinutes += row.minutes;
+      absentDefensiveMinutes += weight * row.minutes;
+    }
+  }
+
+  return {
+    attack: teamGoals > 0 ? Math.min(1, absentGoals / teamGoals) : 0,
+    defence: defensiveMinutes > 0 ? Math.min(1, absentDefensiveMinutes / defensiveMinutes) : 0,
+    absentPlayers: absences.length
+  };
+}
+
+// Fewer goals scored for missing attackers, more conceded for a weakened back line
+export function applyAbsenceImpact(stats: TeamFormStats, impact: AbsenceImpact): TeamFormStats {
+  if (impact.attack === 0 && impact.defence === 0) return stats;
+
+  return {
+    ...stats,
+    averageGoalsScored: stats.averageGoalsScored * (1 - ATTACK_IMPACT_WEIGHT * impact.attack),
+    averageGoalsConceded: stats.averageGoalsConceded * (1 + DEFENCE_IMPACT_WEIGHT * impact.defence)
+  };
+}
+
+// Same adjustment applied to a goal model's expected goals for both sides
+export function applyAbsenceImpactToGoals(goals: ExpectedGoals, home: AbsenceImpact, away: AbsenceImpact): ExpectedGoals {
+  return {
+    home: goals.home * (1 - ATTACK_IMPACT_WEIGHT * home.attack) * (1 + DEFENCE_IMPACT_WEIGHT * away.defence),
+    away: goals.away * (1 - ATTACK_IMPACT_WEIGHT * away.attack) * (1 + DEFENCE_IMPACT_WEIGHT * home.defence)
+  };
+}
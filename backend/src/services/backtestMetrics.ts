@@ -0,0 +1,105 @@
+import { BacktestMarketResult, BacktestModelResult, OddsMarket } from '../types';
+
+// Home, draw and away probabilities, in that order so the ranked probability
+// score can treat them as ordered outcomes
+export type ResultProbabilities = [number, number, number];
+
+// 0 home win, 1 draw, 2 away win
+export type MatchResult = 0 | 1 | 2;
+
+// Keeps log loss finite when a model gives the actual result no chance
+const MIN_PROBABILITY = 1e-15;
+
+export function matchResult(homeGoals: number, awayGoals: number): MatchResult {
+  if (homeGoals > awayGoals) return 0;
+  if (homeGoals === awayGoals) return 1;
+  return 2;
+}
+
+// Squared error summed over the three outcomes: 0 is perfect, 2 the worst
+export function brierScore(probabilities: ResultProbabilities, result: MatchResult): number {
+  return probabilities.reduce((sum, p, index) => sum + Math.pow(p - (index === result ? 1 : 0), 2), 0);
+}
+
+export function logLoss(probabilities: ResultProbabilities, result: MatchResult): number {
+  return -Math.log(Math.max(probabilities[result], MIN_PROBABILITY));
+}
+
+// Squared error of the cumulative distribution, so a home win predicted as a
+// draw scores better than one predicted as an away win: 0 is perfect, 1 the worst
+export function rankedProbabilityScore(probabilities: ResultProbabilities, result: MatchResult): number {
+  let predicted = 0;
+  let observed = 0;
+  let sum = 0;
+
+  for (let index = 0; index < probabilities.length - 1; index++) {
+    predicted += probabilities[index];
+    observed += index === result ? 1 : 0;
+    sum += Math.pow(predicted - observed, 2);
+  }
+
+  return sum / (probabilities.length - 1);
+}
+
+// Whether the most likely outcome happened
+export function isCorrect(probabilities: ResultProbabilities, result: MatchResult): boolean {
+  return probabilities[result] === Math.max(...probabilities);
+}
+
+// Running totals for one model over a backtest
+export class ModelScorecard {
+  private model: string;
+  private matches = 0;
+  private brierTotal = 0;
+  private logLossTotal = 0;
+  private rpsTotal = 0;
+  private correct = 0;
+  private markets = new Map<OddsMarket, { bets: number; profit: number }>();
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  addPrediction(probabilities: ResultProbabilities, result: MatchResult): void {
+    this.matches++;
+    this.brierTotal += brierScore(probabilities, result);
+    this.logLossTotal += logLoss(probabilities, result);
+    this.rpsTotal += rankedProbabilityScore(probabilities, result);
+    this.correct += isCorrect(probabilities, result) ? 1 : 0;
+  }
+
+  // One level stake; profit is per unit staked
+  addBet(market: OddsMarket, profit: number): void {
+    const totals = this.markets.get(market) || { bets: 0, profit: 0 };
+    totals.bets++;
+    totals.profit += profit;
+    this.markets.set(market, totals);
+  }
+
+  summary(): BacktestModelResult {
+    const mean = (total: number) => this.matches > 0 ? round(total / this.matches) : null;
+
+    const markets: BacktestMarketResult[] = [...this.markets.entries()]
+      .map(([market, totals]) => ({
+        market,
+        bets: totals.bets,
+        profit: round(totals.profit),
+        roi: totals.bets > 0 ? round(totals.profit / totals.bets) : null
+      }))
+      .sort((a, b) => a.market.localeCompare(b.market));
+
+    return {
+      model: this.model,
+      matches: this.matches,
+      brier_score: mean(this.brierTotal),
+      log_loss: mean(this.logLossTotal),
+      ranked_probability_score: mean(this.rpsTotal),
+      accuracy: mean(this.correct),
+      markets
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,220 @@
+import { CalibrationBucket, CalibrationMethod, CalibrationParameters, OddsMarket } from '../types';
+import { findMarket, MarketPrice } from './predictionMarkets';
+
+// A selection's predicted probability and whether it hit
+export interface CalibrationSample {
+  probability: number;
+  hit: boolean;
+}
+
+// Maps a raw probability to a calibrated one for a market and selection, or
+// null when there is no curve for it
+export type CalibrationLookup = (market: OddsMarket, selection: string) => ((probability: number) => number) | null;
+
+export type CalibratedMarket = MarketPrice & { raw_probability: number };
+
+// The selection each market's curve is fitted on. Match winner outcomes get a
+// curve each; the other side of a binary market is the complement.
+export const CALIBRATED_SELECTIONS: [OddsMarket, string][] = [
+  ['MATCH_WINNER', 'HOME'],
+  ['MATCH_WINNER', 'DRAW'],
+  ['MATCH_WINNER', 'AWAY'],
+  ['BOTH_TEAMS_SCORE', 'YES'],
+  ['OVER_UNDER', 'OVER'],
+  ['ASIAN_HANDICAP', 'HOME']
+];
+
+// Isotonic curves reach 0 and 1 at the ends; keep prices finite
+const MIN_PROBABILITY = 0.01;
+const MAX_PROBABILITY = 0.99;
+
+const PLATT_ITERATIONS = 50;
+const RELIABILITY_BUCKETS = 10;
+
+// Pool-adjacent-violators: the non-decreasing step function closest to the
+// hit rates, stored as the mean probability and hit rate of each block
+export function fitIsotonic(samples: CalibrationSample[]): CalibrationParameters {
+  const blocks: { probability: number; hits: number; weight: number }[] = [];
+
+  for (const sample of [...samples].sort((a, b) => a.probability - b.probability)) {
+    blocks.push({ probability: sample.probability, hits: sample.hit ? 1 : 0, weight: 1 });
+
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.hits / previous.weight < last.hits / last.weight) break;
+
+      blocks.pop();
+      previous.probability += last.probability;
+      previous.hits += last.hits;
+      previous.weight += last.weight;
+    }
+  }
+
+  return {
+    x: blocks.map(block => round(block.probability / block.weight)),
+    y: blocks.map(block => round(block.hits / block.weight))
+  };
+}
+
+// Logistic regression of the outcome on the log-odds of the prediction,
+// fitted with Newton's method
+export function fitPlatt(samples: CalibrationSample[]): CalibrationParameters {
+  let a = 1;
+  let b = 0;
+
+  for (let iteration = 0; iteration < PLATT_ITERATIONS; iteration++) {
+    let gradientA = 0;
+    let gradientB = 0;
+    let hessianAA = 1e-6;
+    let hessianAB = 0;
+    let hessianBB = 1e-6;
+
+    for (const sample of samples) {
+      const z = logit(sample.probability);
+      const q = sigmoid(a * z + b);
+      const residual = q - (sample.hit ? 1 : 0);
+      const curvature = q * (1 - q);
+
+      gradientA += residual * z;
+      gradientB += residual;
+      hessianAA += curvature * z * z;
+      hessianAB += curvature * z;
+      hessianBB += curvature;
+    }
+
+    const determinant = hessianAA * hessianBB - hessianAB * hessianAB;
+    if (determinant <= 0) break;
+
+    const stepA = (hessianBB * gradientA - hessianAB * gradientB) / determinant;
+    const stepB = (hessianAA * gradientB - hessianAB * gradientA) / determinant;
+    a -= stepA;
+    b -= stepB;
+
+    if (Math.abs(stepA) < 1e-8 && Math.abs(stepB) < 1e-8) break;
+  }
+
+  return { a: round(a), b: round(b) };
+}
+
+export function fitCalibration(method: CalibrationMethod, samples: CalibrationSample[]): CalibrationParameters {
+  return method === 'platt' ? fitPlatt(samples) : fitIsotonic(samples);
+}
+
+export function applyCalibration(method: CalibrationMethod, parameters: CalibrationParameters, probability: number): number {
+  return clamp(method === 'platt'
+    ? sigmoid(parameters.a * logit(probability) + parameters.b)
+    : interpolate(parameters.x, parameters.y, probability));
+}
+
+// Predicted against observed hit rate in ten probability buckets
+export function reliabilityDiagram(samples: CalibrationSample[]): CalibrationBucket[] {
+  const buckets = Array.from({ length: RELIABILITY_BUCKETS }, () => ({ selections: 0, predicted: 0, observed: 0 }));
+
+  for (const sample of samples) {
+    const bucket = buckets[Math.min(RELIABILITY_BUCKETS - 1, Math.floor(sample.probability * RELIABILITY_BUCKETS))];
+    bucket.selections++;
+    bucket.predicted += sample.probability;
+    bucket.observed += sample.hit ? 1 : 0;
+  }
+
+  return buckets.map((bucket, index) => ({
+    from: index / RELIABILITY_BUCKETS,
+    to: (index + 1) / RELIABILITY_BUCKETS,
+    selections: bucket.selections,
+    predicted: bucket.selections > 0 ? round(bucket.predicted / bucket.selections) : null,
+    observed: bucket.selections > 0 ? round(bucket.observed / bucket.selections) : null
+  }));
+}
+
+// Calibrates a model's market prices while keeping them consistent: match
+// winner probabilities are renormalised and double chance rebuilt from them,
+// binary markets take the complement, and lines that can push or half win
+// (whole and quarter lines) keep their raw prices
+export function calibrateMarkets(markets: MarketPrice[], lookup: CalibrationLookup): CalibratedMarket[] {
+  const calibrated: CalibratedMarket[] = markets.map(market => ({ ...market, raw_probability: market.probability }));
+  const set = (market: OddsMarket, selection: string, line: number | null, probability: number) => {
+    const row = findMarket(calibrated, market, selection, line);
+    if (row) row.probability = round(probability);
+  };
+
+  const results = ['HOME', 'DRAW', 'AWAY'].map(selection => {
+    const row = findMarket(calibrated, 'MATCH_WINNER', selection, null);
+    const curve = lookup('MATCH_WINNER', selection);
+    return row && curve ? curve(row.raw_probability) : null;
+  });
+
+  if (results.every(probability => probability !== null)) {
+    const total = results.reduce((sum, probability) => sum + probability, 0);
+    const [home, draw, away] = results.map(probability => probability / total);
+    set('MATCH_WINNER', 'HOME', null, home);
+    set('MATCH_WINNER', 'DRAW', null, draw);
+    set('MATCH_WINNER', 'AWAY', null, away);
+    set('DOUBLE_CHANCE', 'HOME_DRAW', null, home + draw);
+    set('DOUBLE_CHANCE', 'DRAW_AWAY', null, draw + away);
+    set('DOUBLE_CHANCE', 'HOME_AWAY', null, home + away);
+  }
+
+  const bothScore = findMarket(calibrated, 'BOTH_TEAMS_SCORE', 'YES', null);
+  const bothScoreCurve = lookup('BOTH_TEAMS_SCORE', 'YES');
+  if (bothScore && bothScoreCurve) {
+    const yes = bothScoreCurve(bothScore.raw_probability);
+    set('BOTH_TEAMS_SCORE', 'YES', null, yes);
+    set('BOTH_TEAMS_SCORE', 'NO', null, 1 - yes);
+  }
+
+  const overCurve = lookup('OVER_UNDER', 'OVER');
+  const handicapCurve = lookup('ASIAN_HANDICAP', 'HOME');
+
+  for (const row of calibrated) {
+    if (row.line === null || !isHalfLine(row.line)) continue;
+
+    if (row.market === 'OVER_UNDER' && row.selection === 'OVER' && overCurve) {
+      const over = overCurve(row.raw_probability);
+      set('OVER_UNDER', 'OVER', row.line, over);
+      set('OVER_UNDER', 'UNDER', row.line, 1 - over);
+    }
+
+    if (row.market === 'ASIAN_HANDICAP' && row.selection === 'HOME' && handicapCurve) {
+      const home = handicapCurve(row.raw_probability);
+      set('ASIAN_HANDICAP', 'HOME', row.line, home);
+      set('ASIAN_HANDICAP', 'AWAY', -row.line, 1 - home);
+    }
+  }
+
+  return calibrated;
+}
+
+// Half-goal lines settle as a plain win or loss
+export function isHalfLine(line: number): boolean {
+  return Math.abs(line % 1) === 0.5;
+}
+
+function interpolate(x: number[], y: number[], probability: number): number {
+  if (x.length === 0) return probability;
+  if (probability <= x[0]) return y[0];
+  if (probability >= x[x.length - 1]) return y[y.length - 1];
+
+  let index = 0;
+  while (x[index + 1] < probability) index++;
+
+  const share = (probability - x[index]) / (x[index + 1] - x[index]);
+  return y[index] + share * (y[index + 1] - y[index]);
+}
+
+function logit(probability: number): number {
+  const p = clamp(probability);
+  return Math.log(p / (1 - p));
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value));
+}
+
+function clamp(probability: number): number {
+  return Math.min(MAX_PROBABILITY, Math.max(MIN_PROBABILITY, probability));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,104 @@
+import { ConfidenceBreakdown } from '../types';
+import { ResultProbabilities } from './backtestMetrics';
+
+// Threshold of the high-confidence predictions list
+export const HIGH_CONFIDENCE = 0.7;
+
+// A full season's worth of matches per team counts as enough data
+export const FULL_SAMPLE_MATCHES = 38;
+
+// Predictors that differ from their consensus by this much total variation on
+// home/draw/away, on average, are counted as not agreeing at all
+const AGREEMENT_SCALE = 0.2;
+
+// Historical accuracy is looked up in tenths of the other components' mean,
+// once a tenth has this many settled picks
+const HISTORY_BUCKETS = 10;
+const MIN_HISTORY_PICKS = 50;
+
+export type ConfidenceComponents = Pick<ConfidenceBreakdown, 'sample_size' | 'strength_certainty' | 'model_agreement'>;
+
+// A settled match winner pick and the components its prediction had
+export interface ConfidenceSample {
+  components: ConfidenceComponents;
+  hit: boolean;
+}
+
+// Hit rate of the settled picks whose components averaged within [from, to)
+export interface ConfidenceAccuracy {
+  from: number;
+  to: number;
+  picks: number;
+  hit_rate: number | null;
+}
+
+export function sampleSize(homeMatches: number, awayMatches: number): number {
+  return round(Math.min(1, Math.min(homeMatches, awayMatches) / FULL_SAMPLE_MATCHES));
+}
+
+// One minus the mean total variation distance of each predictor from their
+// average, scaled by AGREEMENT_SCALE
+export function modelAgreement(predictions: ResultProbabilities[]): number | null {
+  if (predictions.length < 2) return null;
+
+  const consensus = [0, 1, 2].map(outcome =>
+    predictions.reduce((sum, probabilities) => sum + probabilities[outcome], 0) / predictions.length
+  );
+  const distance = predictions.reduce((sum, probabilities) =>
+    sum + probabilities.reduce((total, probability, outcome) => total + Math.abs(probability - consensus[outcome]), 0) / 2, 0
+  ) / predictions.length;
+
+  return round(Math.max(0, 1 - distance / AGREEMENT_SCALE));
+}
+
+export function confidenceAccuracy(samples: ConfidenceSample[]): ConfidenceAccuracy[] {
+  const buckets = Array.from({ length: HISTORY_BUCKETS }, () => ({ picks: 0, hits: 0 }));
+
+  for (const sample of samples) {
+    const bucket = buckets[bucketIndex(componentMean(sample.components))];
+    bucket.picks++;
+    bucket.hits += sample.hit ? 1 : 0;
+  }
+
+  return buckets.map((bucket, index) => ({
+    from: index / HISTORY_BUCKETS,
+    to: (index + 1) / HISTORY_BUCKETS,
+    picks: bucket.picks,
+    hit_rate: bucket.picks > 0 ? round(bucket.hits / bucket.picks) : null
+  }));
+}
+
+// The score is the plain mean of whichever components could be measured, so
+// it stays on the same 0-1 scale with or without history or a second model
+export function confidenceScore(components: ConfidenceComponents, history: ConfidenceAccuracy[]): { score: number; breakdown: ConfidenceBreakdown } {
+  const bucket = history[bucketIndex(componentMean(components))];
+  const known = bucket && bucket.picks >= MIN_HISTORY_PICKS;
+
+  const breakdown: ConfidenceBreakdown = {
+    ...components,
+    historical_accuracy: known ? bucket.hit_rate : null,
+    history_picks: bucket ? bucket.picks : 0
+  };
+
+  const values = [breakdown.sample_size, breakdown.strength_certainty, breakdown.model_agreement, breakdown.historical_accuracy]
+    .filter(value => value !== null);
+
+  return {
+    score: Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 100) / 100,
+    breakdown
+  };
+}
+
+function componentMean(components: ConfidenceComponents): number {
+  const values = [components.sample_size, components.strength_certainty, components.model_agreement]
+    .filter(value => value !== null && value !== undefined);
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function bucketIndex(value: number): number {
+  return Math.min(HISTORY_BUCKETS - 1, Math.max(0, Math.floor(value * HISTORY_BUCKETS)));
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
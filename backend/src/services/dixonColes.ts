@@ -0,0 +1,386 @@
+import { ExpectedGoals, GoalModel, GoalModelMatch, PredictionScorelines, ScorelineMarkets } from '../types';
+
+// A match played t days ago counts exp(-xi * t), so a year-old result weighs
+// about 9%. Dixon & Coles (1997) found xi = 0.0065 per half-week (about 0.0019
+// per day); this decays faster so the fit follows changes within a season.
+export const TIME_DECAY_PER_DAY = 0.0065;
+
+// Scorelines above this are folded away by renormalising the matrix
+export const MAX_GOALS = 10;
+
+// Pulls the strengths of teams with few matches towards the league average
+const PRIOR_PRECISION = 1;
+
+const RHO_LIMIT = 0.3;
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-9;
+const MIN_WEIGHT = 0.01;
+
+// Published correct-score grid and the open-ended goal buckets
+const CORRECT_SCORE_MAX = 5;
+const TOTAL_GOALS_CAP = 6;
+const TEAM_GOALS_CAP = 5;
+const MARGIN_CAP = 3;
+
+export type ScorelineSummary = Pick<PredictionScorelines,
+  'correct_scores' | 'other_score_probability' | 'total_goals' | 'home_goals' | 'away_goals' | 'winning_margin'>;
+
+// Used when a league has no finished matches to fit on
+const DEFAULT_GOALS_PER_TEAM = 1.35;
+const DEFAULT_HOME_ADVANTAGE = 0.25;
+
+interface WeightedMatch {
+  home: number;
+  away: number;
+  x: number;
+  y: number;
+  w: number;
+}
+
+// Weighted maximum likelihood fit. Strengths are updated block by block with
+// Newton steps on the log rates; rho is re-fitted by golden-section search
+// after every sweep.
+export function fitDixonColes(matches: GoalModelMatch[], asOf: Date = new Date(), decayPerDay: number = TIME_DECAY_PER_DAY): GoalModel {
+  const data: WeightedMatch[] = matches
+    .filter(match => match.home_goals !== null && match.away_goals !== null)
+    .filter(match => new Date(match.date).getTime() <= asOf.getTime())
+    .map(match => ({
+      home: match.home_team_id,
+      away: match.away_team_id,
+      x: match.home_goals,
+      y: match.away_goals,
+      w: Math.exp(-decayPerDay * (asOf.getTime() - new Date(match.date).getTime()) / 86400000)
+    }))
+    .filter(match => match.w >= MIN_WEIGHT);
+
+  const model: GoalModel = {
+    base: Math.log(DEFAULT_GOALS_PER_TEAM),
+    homeAdvantage: DEFAULT_HOME_ADVANTAGE,
+    rho: 0,
+    attack: {},
+    defence: {},
+    attackVariance: {},
+    defenceVariance: {},
+    played: {},
+    matches: data.length,
+    fittedAt: asOf.toISOString()
+  };
+
+  if (data.length === 0) return model;
+
+  for (const match of data) {
+    model.attack[match.home] = model.attack[match.away] = 0;
+    model.defence[match.home] = model.defence[match.away] = 0;
+  }
+
+  // Start from the weighted average scoring rates
+  const totalWeight = data.reduce((sum, match) => sum + match.w, 0);
+  const homeRate = data.reduce((sum, match) => sum + match.w * match.x, 0) / totalWeight;
+  const awayRate = data.reduce((sum, match) => sum + match.w * match.y, 0) / totalWeight;
+  model.base = Math.log(Math.max(0.1, awayRate));
+  model.homeAdvantage = Math.log(Math.max(0.1, homeRate) / Math.max(0.1, awayRate));
+
+  let previous = logLikelihood(model, data);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    newtonStep(model, data, 'base');
+    newtonStep(model, data, 'homeAdvantage');
+    newtonStep(model, data, 'attack');
+    newtonStep(model, data, 'defence');
+    centre(model);
+    model.rho = fitRho(model, data);
+
+    const current = logLikelihood(model, data);
+    if (Math.abs(current - previous) <= TOLERANCE * Math.abs(previous)) break;
+    previous = current;
+  }
+
+  posteriorVariances(model, data);
+  return model;
+}
+
+// Posterior standard deviation of the two teams' log scoring rates as a share
+// of the prior's: 0 for perfectly known strengths, 1 for teams never seen.
+// Covariances between strengths are ignored.
+export function strengthUncertainty(model: GoalModel, homeTeamId: number, awayTeamId: number): number {
+  const priorVariance = 1 / PRIOR_PRECISION;
+  const variance = (values: Record<number, number>, team: number) =>
+    values[team] === undefined ? priorVariance : values[team];
+
+  const mean = (
+    variance(model.attackVariance, homeTeamId) + variance(model.defenceVariance, awayTeamId) +
+    variance(model.attackVariance, awayTeamId) + variance(model.defenceVariance, homeTeamId)
+  ) / 4;
+
+  return Math.min(1, Math.sqrt(mean / priorVariance));
+}
+
+// Teams the model has not seen are treated as league average
+export function expectedGoals(model: GoalModel, homeTeamId: number, awayTeamId: number): ExpectedGoals {
+  const homeAttack = model.attack[homeTeamId] || 0;
+  const homeDefence = model.defence[homeTeamId] || 0;
+  const awayAttack = model.attack[awayTeamId] || 0;
+  const awayDefence = model.defence[awayTeamId] || 0;
+
+  return {
+    home: Math.exp(model.base + model.homeAdvantage + homeAttack + awayDefence),
+    away: Math.exp(model.base + awayAttack + homeDefence)
+  };
+}
+
+// matrix[x][y] is the probability of the home side scoring x and the away side y
+export function scorelineMatrix(goals: ExpectedGoals, rho: number, maxGoals: number = MAX_GOALS): number[][] {
+  const homeGoals = poissonProbabilities(goals.home, maxGoals);
+  const awayGoals = poissonProbabilities(goals.away, maxGoals);
+
+  const matrix = homeGoals.map((pHome, x) =>
+    awayGoals.map((pAway, y) => Math.max(0, pHome * pAway * tau(x, y, goals.home, goals.away, rho)))
+  );
+
+  const total = matrix.reduce((sum, row) => sum + row.reduce((acc, p) => acc + p, 0), 0);
+  return matrix.map(row => row.map(p => p / total));
+}
+
+export function marketProbabilities(matrix: number[][]): ScorelineMarkets {
+  const markets: ScorelineMarkets = {
+    homeWin: 0,
+    draw: 0,
+    awayWin: 0,
+    bothTeamsScore: 0
+  };
+
+  matrix.forEach((row, x) => row.forEach((p, y) => {
+    if (x > y) markets.homeWin += p;
+    if (x === y) markets.draw += p;
+    if (x < y) markets.awayWin += p;
+    if (x > 0 && y > 0) markets.bothTeamsScore += p;
+  }));
+
+  return markets;
+}
+
+// Correct scores, goal buckets and winning margins out of the same matrix
+export function summariseScorelines(matrix: number[][]): ScorelineSummary {
+  const summary: ScorelineSummary = {
+    correct_scores: [],
+    other_score_probability: 0,
+    total_goals: emptyBuckets(TOTAL_GOALS_CAP),
+    home_goals: emptyBuckets(TEAM_GOALS_CAP),
+    away_goals: emptyBuckets(TEAM_GOALS_CAP),
+    winning_margin: {}
+  };
+
+  for (let margin = MARGIN_CAP; margin >= 1; margin--) {
+    summary.winning_margin[marginKey('home', margin)] = 0;
+  }
+  summary.winning_margin.draw = 0;
+  for (let margin = 1; margin <= MARGIN_CAP; margin++) {
+    summary.winning_margin[marginKey('away', margin)] = 0;
+  }
+
+  matrix.forEach((row, x) => row.forEach((p, y) => {
+    if (x <= CORRECT_SCORE_MAX && y <= CORRECT_SCORE_MAX) {
+      summary.correct_scores.push({ home: x, away: y, probability: p });
+    } else {
+      summary.other_score_probability += p;
+    }
+
+    summary.total_goals[bucketKey(x + y, TOTAL_GOALS_CAP)] += p;
+    summary.home_goals[bucketKey(x, TEAM_GOALS_CAP)] += p;
+    summary.away_goals[bucketKey(y, TEAM_GOALS_CAP)] += p;
+
+    const margin = x === y ? 'draw' : marginKey(x > y ? 'home' : 'away', Math.abs(x - y));
+    summary.winning_margin[margin] += p;
+  }));
+
+  return summary;
+}
+
+function emptyBuckets(cap: number): Record<string, number> {
+  const buckets: Record<string, number> = {};
+  for (let goals = 0; goals <= cap; goals++) {
+    buckets[bucketKey(goals, cap)] = 0;
+  }
+  return buckets;
+}
+
+function bucketKey(goals: number, cap: number): string {
+  return goals >= cap ? `${cap}+` : String(goals);
+}
+
+function marginKey(side: 'home' | 'away', margin: number): string {
+  return margin >= MARGIN_CAP ? `${side}_${MARGIN_CAP}+` : `${side}_${margin}`;
+}
+
+// Dixon–Coles adjustment of the four low scorelines
+function tau(x: number, y: number, lambda: number, mu: number, rho: number): number {
+  if (x === 0 && y === 0) return 1 - lambda * mu * rho;
+  if (x === 0 && y === 1) return 1 + lambda * rho;
+  if (x === 1 && y === 0) return 1 + mu * rho;
+  if (x === 1 && y === 1) return 1 - rho;
+  return 1;
+}
+
+function poissonProbabilities(rate: number, maxGoals: number): number[] {
+  const probabilities = [Math.exp(-rate)];
+  for (let goals = 1; goals <= maxGoals; goals++) {
+    probabilities.push(probabilities[goals - 1] * rate / goals);
+  }
+  return probabilities;
+}
+
+function rates(model: GoalModel, match: WeightedMatch): { lambda: number; mu: number } {
+  return {
+    lambda: Math.exp(model.base + model.homeAdvantage + model.attack[match.home] + model.defence[match.away]),
+    mu: Math.exp(model.base + model.attack[match.away] + model.defence[match.home])
+  };
+}
+
+// Weighted log-likelihood without the constant factorial terms
+function logLikelihood(model: GoalModel, data: WeightedMatch[], rho: number = model.rho): number {
+  let total = 0;
+
+  for (const match of data) {
+    const { lambda, mu } = rates(model, match);
+    const adjustment = tau(match.x, match.y, lambda, mu, rho);
+    if (adjustment <= 0) return -Infinity;
+
+    total += match.w * (Math.log(adjustment) + match.x * Math.log(lambda) - lambda + match.y * Math.log(mu) - mu);
+  }
+
+  return total;
+}
+
+// The Fisher information of a strength is the same sum the Newton step uses
+// as curvature; with the prior that gives the variance at the optimum
+function posteriorVariances(model: GoalModel, data: WeightedMatch[]): void {
+  const attack = new Map<number, number>();
+  const defence = new Map<number, number>();
+  const add = (information: Map<number, number>, team: number, value: number) =>
+    information.set(team, (information.get(team) || 0) + value);
+
+  for (const match of data) {
+    const { lambda, mu } = rates(model, match);
+    add(attack, match.home, match.w * lambda);
+    add(attack, match.away, match.w * mu);
+    add(defence, match.away, match.w * lambda);
+    add(defence, match.home, match.w * mu);
+    model.played[match.home] = (model.played[match.home] || 0) + 1;
+    model.played[match.away] = (model.played[match.away] || 0) + 1;
+  }
+
+  attack.forEach((information, team) => { model.attackVariance[team] = 1 / (information + PRIOR_PRECISION); });
+  defence.forEach((information, team) => { model.defenceVariance[team] = 1 / (information + PRIOR_PRECISION); });
+}
+
+// One Newton step per parameter of a block, using the Poisson part of the
+// curvature. Parameters within a block never share a rate, so their steps do
+// not interfere.
+function newtonStep(model: GoalModel, data: WeightedMatch[], block: 'base' | 'homeAdvantage' | 'attack' | 'defence'): void {
+  const gradient = new Map<number, number>();
+  const curvature = new Map<number, number>();
+
+  const add = (key: number, g: number, h: number) => {
+    gradient.set(key, (gradient.get(key) || 0) + g);
+    curvature.set(key, (curvature.get(key) || 0) + h);
+  };
+
+  for (const match of data) {
+    const { lambda, mu } = rates(model, match);
+    const { dLambda, dMu } = scoreGradients(match, lambda, mu, model.rho);
+
+    switch (block) {
+      case 'base':
+        add(0, match.w * (dLambda + dMu), match.w * (lambda + mu));
+        break;
+      case 'homeAdvantage':
+        add(0, match.w * dLambda, match.w * lambda);
+        break;
+      case 'attack':
+        add(match.home, match.w * dLambda, match.w * lambda);
+        add(match.away, match.w * dMu, match.w * mu);
+        break;
+      case 'defence':
+        add(match.away, match.w * dLambda, match.w * lambda);
+        add(match.home, match.w * dMu, match.w * mu);
+        break;
+    }
+  }
+
+  if (block === 'base' || block === 'homeAdvantage') {
+    model[block] += clampStep(gradient.get(0) / curvature.get(0));
+    return;
+  }
+
+  const strengths = model[block];
+  for (const [team, g] of gradient) {
+    const value = strengths[team];
+    strengths[team] = value + clampStep((g - PRIOR_PRECISION * value) / (curvature.get(team) + PRIOR_PRECISION));
+  }
+}
+
+// Derivatives of one match's log-likelihood with respect to log(lambda) and log(mu)
+function scoreGradients(match: WeightedMatch, lambda: number, mu: number, rho: number): { dLambda: number; dMu: number } {
+  let dLambda = match.x - lambda;
+  let dMu = match.y - mu;
+
+  if (match.x === 0 && match.y === 0) {
+    const term = -lambda * mu * rho / (1 - lambda * mu * rho);
+    dLambda += term;
+    dMu += term;
+  } else if (match.x === 0 && match.y === 1) {
+    dLambda += lambda * rho / (1 + lambda * rho);
+  } else if (match.x === 1 && match.y === 0) {
+    dMu += mu * rho / (1 + mu * rho);
+  }
+
+  return { dLambda, dMu };
+}
+
+function clampStep(step: number): number {
+  if (!isFinite(step)) return 0;
+  return Math.max(-1, Math.min(1, step));
+}
+
+// Keeps attack and defence averaging zero so base carries the league's scoring level
+function centre(model: GoalModel): void {
+  for (const block of ['attack', 'defence'] as const) {
+    const values = Object.values(model[block]);
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+
+    for (const team of Object.keys(model[block])) {
+      model[block][Number(team)] -= mean;
+    }
+    model.base += mean;
+  }
+}
+
+function fitRho(model: GoalModel, data: WeightedMatch[]): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = -RHO_LIMIT;
+  let high = RHO_LIMIT;
+
+  let left = high - ratio * (high - low);
+  let right = low + ratio * (high - low);
+  let leftValue = logLikelihood(model, data, left);
+  let rightValue = logLikelihood(model, data, right);
+
+  while (high - low > 1e-5) {
+    if (leftValue >= rightValue) {
+      high = right;
+      right = left;
+      rightValue = leftValue;
+      left = high - ratio * (high - low);
+      leftValue = logLikelihood(model, data, left);
+    } else {
+      low = left;
+      left = right;
+      leftValue = rightValue;
+      right = low + ratio * (high - low);
+      rightValue = logLikelihood(model, data, right);
+    }
+  }
+
+  const rho = (low + high) / 2;
+  return logLikelihood(model, data, rho) > -Infinity ? rho : model.rho;
+}
@@ -0,0 +1,128 @@
+import { EloMatch, TeamRating, TeamRatingHistory } from '../types';
+
+export const INITIAL_RATING = 1500;
+export const K_FACTOR = 20;
+export const HOME_ADVANTAGE = 65;
+
+// Share of a cross-league result that also moves every team of the two
+// domestic leagues, so results in e.g. the Champions League calibrate the
+// leagues against each other and not just the clubs that played
+export const LEAGUE_SHARE = 0.25;
+
+export type RatingState = Pick<TeamRating, 'team_id' | 'league_id' | 'rating' | 'matches_played' | 'last_match_id' | 'last_match_date'>;
+export type RatingChange = Pick<TeamRatingHistory, 'team_id' | 'match_id' | 'date' | 'rating_before' | 'rating_after' | 'expected_score'>;
+
+export interface EloResult {
+  ratings: RatingState[];
+  history: RatingChange[];
+}
+
+interface TeamState {
+  // Rating relative to the team's domestic league
+  own: number;
+  matches: number;
+  lastMatchId: number | null;
+  lastMatchDate: string | null;
+  leagueMatches: Map<number, number>;
+}
+
+// Home side's expected score for a rating difference that already includes
+// home advantage
+export function expectedScore(ratingDifference: number): number {
+  return 1 / (1 + Math.pow(10, -ratingDifference / 400));
+}
+
+// World Football Elo weighting: a two-goal win counts 1.5 times, bigger wins
+// a little more for every extra goal
+export function marginMultiplier(goalDifference: number): number {
+  const margin = Math.abs(goalDifference);
+  if (margin <= 1) return 1;
+  if (margin === 2) return 1.5;
+  return (11 + margin) / 8;
+}
+
+// Replays every finished match in date order. A team's rating is its own
+// strength plus the strength of its domestic league; both sides of a domestic
+// match share the league part, so only cross-league matches move it. Matches
+// in cupLeagueIds count towards ratings but not towards a domestic league.
+export function computeElo(matches: EloMatch[], cupLeagueIds: number[] = []): EloResult {
+  const cups = new Set(cupLeagueIds.map(Number));
+  const teams = new Map<number, TeamState>();
+  const leagues = new Map<number, number>();
+  const history: RatingChange[] = [];
+
+  const stateFor = (teamId: number): TeamState => {
+    if (!teams.has(teamId)) {
+      teams.set(teamId, { own: 0, matches: 0, lastMatchId: null, lastMatchDate: null, leagueMatches: new Map() });
+    }
+    return teams.get(teamId);
+  };
+
+  const ratingOf = (team: TeamState): number => {
+    const league = domesticLeague(team);
+    return INITIAL_RATING + team.own + (league === null ? 0 : leagues.get(league) || 0);
+  };
+
+  const played = matches
+    .filter(match => match.home_goals !== null && match.away_goals !== null)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+
+  for (const match of played) {
+    const home = stateFor(match.home_team_id);
+    const away = stateFor(match.away_team_id);
+    const homeBefore = ratingOf(home);
+    const awayBefore = ratingOf(away);
+
+    const expected = expectedScore(homeBefore + HOME_ADVANTAGE - awayBefore);
+    const actual = match.home_goals > match.away_goals ? 1 : match.home_goals === match.away_goals ? 0.5 : 0;
+    const change = K_FACTOR * marginMultiplier(match.home_goals - match.away_goals) * (actual - expected);
+
+    home.own += change;
+    away.own -= change;
+
+    const homeLeague = domesticLeague(home);
+    const awayLeague = domesticLeague(away);
+    if (homeLeague !== null && awayLeague !== null && homeLeague !== awayLeague) {
+      leagues.set(homeLeague, (leagues.get(homeLeague) || 0) + change * LEAGUE_SHARE);
+      leagues.set(awayLeague, (leagues.get(awayLeague) || 0) - change * LEAGUE_SHARE);
+    }
+
+    history.push(
+      { team_id: match.home_team_id, match_id: match.id, date: match.date, rating_before: homeBefore, rating_after: ratingOf(home), expected_score: expected },
+      { team_id: match.away_team_id, match_id: match.id, date: match.date, rating_before: awayBefore, rating_after: ratingOf(away), expected_score: 1 - expected }
+    );
+
+    for (const team of [home, away]) {
+      team.matches++;
+      team.lastMatchId = match.id;
+      team.lastMatchDate = match.date;
+      if (!cups.has(Number(match.league_id))) {
+        team.leagueMatches.set(match.league_id, (team.leagueMatches.get(match.league_id) || 0) + 1);
+      }
+    }
+  }
+
+  const ratings = [...teams.entries()].map(([teamId, team]) => ({
+    team_id: teamId,
+    league_id: domesticLeague(team),
+    rating: ratingOf(team),
+    matches_played: team.matches,
+    last_match_id: team.lastMatchId,
+    last_match_date: team.lastMatchDate
+  }));
+
+  return { ratings, history };
+}
+
+// The non-cup league a team has played most of its matches in so far
+function domesticLeague(team: TeamState): number | null {
+  let league: number | null = null;
+  let most = 0;
+  for (const [leagueId, count] of team.leagueMatches) {
+    if (count > most) {
+      league = leagueId;
+      most = count;
+    }
+  }
+  return league;
+}
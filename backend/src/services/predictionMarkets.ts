@@ -0,0 +1,146 @@
+import { MarketOutcome, OddsMarket, PredictionMarket } from '../types';
+
+// Asian handicaps from -3.5 to +3.5 and goal lines from 0.5 to 5.5, both in
+// quarter steps
+export const ASIAN_HANDICAP_LINES = quarterLines(-14, 14);
+export const GOAL_LINES = quarterLines(2, 22);
+
+export type MarketPrice = Pick<PredictionMarket,
+  'market' | 'selection' | 'line' | 'probability' | 'half_win_probability' | 'push_probability' | 'half_loss_probability'>;
+
+// Every market we publish, priced off one scoreline matrix. Selections and
+// lines follow the odds table: handicap lines are from the selection's side.
+export function priceMarkets(matrix: number[][]): MarketPrice[] {
+  const selections: [OddsMarket, string, number | null][] = [
+    ['MATCH_WINNER', 'HOME', null],
+    ['MATCH_WINNER', 'DRAW', null],
+    ['MATCH_WINNER', 'AWAY', null],
+    ['DOUBLE_CHANCE', 'HOME_DRAW', null],
+    ['DOUBLE_CHANCE', 'DRAW_AWAY', null],
+    ['DOUBLE_CHANCE', 'HOME_AWAY', null],
+    ['BOTH_TEAMS_SCORE', 'YES', null],
+    ['BOTH_TEAMS_SCORE', 'NO', null]
+  ];
+
+  for (const line of GOAL_LINES) {
+    selections.push(['OVER_UNDER', 'OVER', line], ['OVER_UNDER', 'UNDER', line]);
+  }
+
+  for (const line of ASIAN_HANDICAP_LINES) {
+    selections.push(['ASIAN_HANDICAP', 'HOME', line], ['ASIAN_HANDICAP', 'AWAY', line]);
+  }
+
+  return selections.map(([market, selection, line]) => price(matrix, market, selection, line));
+}
+
+// Share of the stake won (1, 0.5), returned (0) or lost (-0.5, -1) by a
+// selection on a final score; null for selections we do not price
+export function settleSelection(market: OddsMarket, selection: string, line: number | null, home: number, away: number): number | null {
+  switch (market) {
+    case 'MATCH_WINNER':
+      if (selection === 'HOME') return outcome(home > away);
+      if (selection === 'DRAW') return outcome(home === away);
+      if (selection === 'AWAY') return outcome(home < away);
+      return null;
+    case 'DOUBLE_CHANCE':
+      if (selection === 'HOME_DRAW') return outcome(home >= away);
+      if (selection === 'DRAW_AWAY') return outcome(home <= away);
+      if (selection === 'HOME_AWAY') return outcome(home !== away);
+      return null;
+    case 'BOTH_TEAMS_SCORE':
+      if (selection === 'YES') return outcome(home > 0 && away > 0);
+      if (selection === 'NO') return outcome(home === 0 || away === 0);
+      return null;
+    case 'OVER_UNDER':
+      if (line === null) return null;
+      if (selection === 'OVER') return settleLine(home + away - line, line);
+      if (selection === 'UNDER') return settleLine(line - home - away, line);
+      return null;
+    case 'ASIAN_HANDICAP':
+      if (line === null) return null;
+      if (selection === 'HOME') return settleLine(home - away + line, line);
+      if (selection === 'AWAY') return settleLine(away - home + line, line);
+      return null;
+    default:
+      return null;
+  }
+}
+
+// Settles a bet won by a positive margin. Whole lines push on zero; quarter
+// lines split the stake over the two neighbouring lines, giving half wins
+// and half losses.
+export function settleLine(margin: number, line: number): number {
+  const parts = isQuarterLine(line) ? [margin - 0.25, margin + 0.25] : [margin];
+  return parts.reduce((sum, part) => sum + Math.sign(part), 0) / parts.length;
+}
+
+export function lossProbability(market: MarketPrice): number {
+  return Math.max(0, 1 - market.probability - market.half_win_probability - market.push_probability - market.half_loss_probability);
+}
+
+const OUTCOMES: Record<string, MarketOutcome> = { '1': 'HIT', '0.5': 'HALF_HIT', '0': 'PUSH', '-0.5': 'HALF_MISS', '-1': 'MISS' };
+
+// Stored name of a settleSelection() result
+export function marketOutcome(settlement: number): MarketOutcome {
+  return OUTCOMES[String(settlement)];
+}
+
+// Profit per unit staked at decimal odds for a settled selection
+export function settledProfit(settlement: number, price: number): number {
+  return settlement > 0 ? settlement * (price - 1) : settlement;
+}
+
+// Expected profit per unit staked at decimal odds
+export function expectedValue(market: MarketPrice, price: number): number {
+  return market.probability * (price - 1)
+    + market.half_win_probability * (price - 1) / 2
+    - market.half_loss_probability / 2
+    - lossProbability(market);
+}
+
+export function findMarket<T extends Pick<MarketPrice, 'market' | 'selection' | 'line'>>(markets: T[], market: OddsMarket, selection: string, line: number | null): T | null {
+  return markets.find(row =>
+    row.market === market &&
+    row.selection === selection &&
+    (row.line === null ? line === null : line !== null && Number(row.line) === Number(line))
+  ) || null;
+}
+
+function price(matrix: number[][], market: OddsMarket, selection: string, line: number | null): MarketPrice {
+  const row: MarketPrice = {
+    market,
+    selection,
+    line,
+    probability: 0,
+    half_win_probability: 0,
+    push_probability: 0,
+    half_loss_probability: 0
+  };
+
+  matrix.forEach((scores, x) => scores.forEach((p, y) => {
+    const result = settleSelection(market, selection, line, x, y);
+    if (result === 1) row.probability += p;
+    else if (result === 0.5) row.half_win_probability += p;
+    else if (result === 0) row.push_probability += p;
+    else if (result === -0.5) row.half_loss_probability += p;
+  }));
+
+  return row;
+}
+
+function outcome(won: boolean): number {
+  return won ? 1 : -1;
+}
+
+function isQuarterLine(line: number): boolean {
+  return Math.abs(line * 4) % 2 === 1;
+}
+
+function quarterLines(from: number, to: number): number[] {
+  const lines: number[] = [];
+  for (let quarters = from; quarters <= to; quarters++) {
+    // Avoid -0 for the level handicap
+    lines.push(quarters === 0 ? 0 : quarters / 4);
+  }
+  return lines;
+}
@@ -0,0 +1,131 @@
+import { AbsenceImpact, ExpectedGoals, GoalModel, PredictionModel, PredictorKind, TeamFormStats, XgStrengths } from '../types';
+import { applyAbsenceImpactToGoals } from './absenceImpact';
+import { expectedGoals, scorelineMatrix } from './dixonColes';
+import { expectedGoalsFromXg } from './xgStrength';
+
+// Teams need this many matches with xG (or shots on target) in their rolling
+// window before the xG predictor rates them
+export const MIN_XG_MATCHES = 5;
+
+// Goal supremacy per 100 Elo points; 100 points is roughly a 64% expected score
+export const ELO_GOALS_PER_100 = 0.4;
+
+const MIN_EXPECTED_GOALS = 0.1;
+
+// Everything the predictors read for one match, loaded once by PredictionService
+export interface PredictorInput {
+  homeTeamId: number;
+  awayTeamId: number;
+  goalModel: GoalModel;
+  xgStrengths: XgStrengths;
+  homeForm: TeamFormStats;
+  awayForm: TeamFormStats;
+  ratingDifference: number | null;
+  homeAbsences: AbsenceImpact;
+  awayAbsences: AbsenceImpact;
+}
+
+// A single-model predictor; null when it lacks the data for this match
+export interface Predictor {
+  kind: Exclude<PredictorKind, 'ensemble'>;
+  expectedGoals(input: PredictorInput): ExpectedGoals | null;
+}
+
+// Recent goals scored and conceded, the pre-model approach
+const heuristicPredictor: Predictor = {
+  kind: 'heuristic',
+  expectedGoals: ({ homeForm, awayForm }) => {
+    if (homeForm.recentForm.length === 0 || awayForm.recentForm.length === 0) return null;
+    return {
+      home: Math.max(MIN_EXPECTED_GOALS, (homeForm.averageGoalsScored + awayForm.averageGoalsConceded) / 2),
+      away: Math.max(MIN_EXPECTED_GOALS, (awayForm.averageGoalsScored + homeForm.averageGoalsConceded) / 2)
+    };
+  }
+};
+
+// Dixon-Coles attack and defence rates fitted on the league's results
+const poissonPredictor: Predictor = {
+  kind: 'poisson',
+  expectedGoals: ({ goalModel, homeTeamId, awayTeamId }) => expectedGoals(goalModel, homeTeamId, awayTeamId)
+};
+
+// Splits the league's average total goals by the Elo rating difference
+const eloPredictor: Predictor = {
+  kind: 'elo',
+  expectedGoals: ({ goalModel, ratingDifference }) => {
+    if (ratingDifference === null) return null;
+    const total = Math.exp(goalModel.base + goalModel.homeAdvantage) + Math.exp(goalModel.base);
+    const supremacy = ratingDifference / 100 * ELO_GOALS_PER_100;
+    return {
+      home: Math.max(MIN_EXPECTED_GOALS, (total + supremacy) / 2),
+      away: Math.max(MIN_EXPECTED_GOALS, (total - supremacy) / 2)
+    };
+  }
+};
+
+// Rolling xG for and against
+const xgPredictor: Predictor = {
+  kind: 'xg',
+  expectedGoals: ({ xgStrengths, homeTeamId, awayTeamId }) => {
+    const home = xgStrengths.teams[homeTeamId];
+    const away = xgStrengths.teams[awayTeamId];
+    if (!home || !away || home.matches < MIN_XG_MATCHES || away.matches < MIN_XG_MATCHES) return null;
+    return expectedGoalsFromXg(xgStrengths, homeTeamId, awayTeamId);
+  }
+};
+
+export const PREDICTORS: Record<Predictor['kind'], Predictor> = {
+  heuristic: heuristicPredictor,
+  poisson: poissonPredictor,
+  elo: eloPredictor,
+  xg: xgPredictor
+};
+
+// Scoreline matrix per model id. Single models go first, adjusted for
+// absences; ensembles then blend the ones their weights name, skipping
+// components without output. The goal model's rho is shared by all.
+export function runPredictors(models: PredictionModel[], input: PredictorInput): Map<number, number[][]> {
+  const matrices = new Map<number, number[][]>();
+  const byName = new Map<string, number[][]>();
+
+  for (const model of models.filter(model => model.kind !== 'ensemble')) {
+    const predictor = PREDICTORS[model.kind as Predictor['kind']];
+    const goals = predictor ? predictor.expectedGoals(input) : null;
+    if (!goals) continue;
+
+    const matrix = scorelineMatrix(applyAbsenceImpactToGoals(goals, input.homeAbsences, input.awayAbsences), input.goalModel.rho);
+    matrices.set(model.id, matrix);
+    byName.set(model.name, matrix);
+  }
+
+  for (const model of models.filter(model => model.kind === 'ensemble')) {
+    const components = Object.entries(model.config.weights || {})
+      .filter(([name, weight]) => byName.has(name) && weight > 0)
+      .map(([name, weight]) => ({ matrix: byName.get(name), weight }));
+
+    if (components.length === 0) continue;
+    matrices.set(model.id, blendMatrices(components));
+  }
+
+  return matrices;
+}
+
+// Weighted mixture of scoreline distributions
+export function blendMatrices(components: { matrix: number[][]; weight: number }[]): number[][] {
+  const total = components.reduce((sum, component) => sum + component.weight, 0);
+  const [first] = components;
+
+  return first.matrix.map((row, x) => row.map((_, y) =>
+    components.reduce((sum, component) => sum + component.matrix[x][y] * component.weight, 0) / total
+  ));
+}
+
+// Mean goals per side of a scoreline matrix
+export function matrixExpectedGoals(matrix: number[][]): ExpectedGoals {
+  const goals = { home: 0, away: 0 };
+  matrix.forEach((row, x) => row.forEach((p, y) => {
+    goals.home += x * p;
+    goals.away += y * p;
+  }));
+  return goals;
+}
@@ -0,0 +1,88 @@
+import { ExpectedGoals, MatchStatistics, XgMatch, XgStrengths, XgTeamStrength } from '../types';
+
+// Each team's strength comes from its most recent matches only
+export const ROLLING_MATCHES = 10;
+
+// Roughly three in ten shots on target are scored; stands in for xG when the
+// provider has none for a match
+export const SHOT_ON_TARGET_XG = 0.3;
+
+// Pulls teams with few matches in the window towards the league average
+const PRIOR_MATCHES = 3;
+
+// Used when a league has no matches with xG or shots to go on
+const DEFAULT_HOME_XG = 1.5;
+const DEFAULT_AWAY_XG = 1.2;
+
+const AVERAGE_TEAM: XgTeamStrength = { attack: 1, defence: 1, matches: 0 };
+
+// A team's xG for one match, falling back to the shots-on-target proxy
+export function statisticsXg(stats: Pick<MatchStatistics, 'expected_goals' | 'shots_on_goal'> | null | undefined): number | null {
+  if (!stats) return null;
+  if (stats.expected_goals !== null && stats.expected_goals !== undefined) return Number(stats.expected_goals);
+  if (stats.shots_on_goal !== null && stats.shots_on_goal !== undefined) return stats.shots_on_goal * SHOT_ON_TARGET_XG;
+  return null;
+}
+
+// Attack is xG created and defence xG conceded over a team's last
+// ROLLING_MATCHES matches before asOf, both relative to the league average at
+// the venue each match was played
+export function fitXgStrengths(matches: XgMatch[], asOf: Date = new Date()): XgStrengths {
+  const cutoff = asOf.toISOString();
+  const played = matches
+    .filter(match => match.home_xg !== null && match.away_xg !== null && match.date < cutoff)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const homeAverage = average(played.map(match => match.home_xg)) || DEFAULT_HOME_XG;
+  const awayAverage = average(played.map(match => match.away_xg)) || DEFAULT_AWAY_XG;
+
+  const samples = new Map<number, { attack: number[]; defence: number[] }>();
+  const addSample = (teamId: number, attack: number, defence: number) => {
+    if (!samples.has(teamId)) samples.set(teamId, { attack: [], defence: [] });
+    const team = samples.get(teamId);
+    if (team.attack.length >= ROLLING_MATCHES) return;
+    team.attack.push(attack);
+    team.defence.push(defence);
+  };
+
+  for (const match of played) {
+    addSample(match.home_team_id, match.home_xg / homeAverage, match.away_xg / awayAverage);
+    addSample(match.away_team_id, match.away_xg / awayAverage, match.home_xg / homeAverage);
+  }
+
+  const teams: Record<number, XgTeamStrength> = {};
+  for (const [teamId, team] of samples) {
+    teams[teamId] = {
+      attack: shrink(team.attack),
+      defence: shrink(team.defence),
+      matches: team.attack.length
+    };
+  }
+
+  return {
+    homeAverage,
+    awayAverage,
+    teams,
+    matches: played.length,
+    fittedAt: asOf.toISOString()
+  };
+}
+
+export function expectedGoalsFromXg(strengths: XgStrengths, homeTeamId: number, awayTeamId: number): ExpectedGoals {
+  const home = strengths.teams[homeTeamId] || AVERAGE_TEAM;
+  const away = strengths.teams[awayTeamId] || AVERAGE_TEAM;
+
+  return {
+    home: strengths.homeAverage * home.attack * away.defence,
+    away: strengths.awayAverage * away.attack * home.defence
+  };
+}
+
+function shrink(ratios: number[]): number {
+  return (ratios.reduce((sum, ratio) => sum + ratio, 0) + PRIOR_MATCHES) / (ratios.length + PRIOR_MATCHES);
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -24,6 +24,17 @@ export interface Team {
   updated_at: string;
 }
 
+export interface Season {
+  id: number;
+  league_id: number;
+  year: number;
+  start_date: string;
+  end_date: string;
+  current: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Venue {
   id: number;
   name: string;
@@ -55,10 +66,20 @@ export interface Match {
   away_score_penalty: number | null;
   status: 'SCHEDULED' | 'LIVE' | 'FINISHED' | 'POSTPONED' | 'CANCELLED';
   elapsed: number | null;
+  season: number | null;
+  // Provider round name, e.g. "Group A - 2" or "Quarter-finals"
+  round: string | null;
+  stage: CompetitionStage | null;
+  group_name: string | null;
+  matchday: number | null;
+  // 1 or 2 in two-legged knockout ties, null for single matches
+  leg: number | null;
   created_at: string;
   updated_at: string;
 }
 
+export type CompetitionStage = 'LEAGUE' | 'GROUP' | 'QUALIFYING' | 'KNOCKOUT';
+
 export interface MatchStatistics {
   id: number;
   match_id: number;
@@ -84,6 +105,115 @@ export interface MatchStatistics {
   updated_at: string;
 }
 
+export interface MatchEvent {
+  id: number;
+  match_id: number;
+  team_id: number | null;
+  sequence: number;
+  elapsed: number;
+  extra_time: number | null;
+  type: 'GOAL' | 'CARD' | 'SUBSTITUTION' | 'VAR' | 'OTHER';
+  detail: string | null;
+  player_name: string | null;
+  assist_name: string | null;
+  comments: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Player {
+  id: number;
+  name: string;
+  firstname: string | null;
+  lastname: string | null;
+  birth_date: string | null;
+  nationality: string | null;
+  photo: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A player's record for one team in one competition and season
+export interface PlayerSeasonStats {
+  id: number;
+  player_id: number;
+  team_id: number;
+  league_id: number;
+  season: number;
+  position: string | null;
+  appearances: number;
+  lineups: number;
+  minutes: number;
+  goals: number;
+  assists: number;
+  expected_goals: number | null;
+  yellow_cards: number;
+  red_cards: number;
+  rating: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A player ruled out of (or doubtful for) a specific match
+export interface Absence {
+  id: number;
+  match_id: number;
+  team_id: number;
+  player_id: number | null;
+  player_name: string;
+  status: 'MISSING' | 'QUESTIONABLE';
+  kind: 'INJURY' | 'SUSPENSION' | 'OTHER';
+  // Provider wording, e.g. "Hamstring Injury", "Red Card"
+  reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One team's announced line-up for a match
+export interface Lineup {
+  id: number;
+  match_id: number;
+  team_id: number;
+  formation: string | null;
+  coach_name: string | null;
+  coach_photo: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LineupPlayer {
+  id: number;
+  lineup_id: number;
+  player_id: number | null;
+  player_name: string;
+  number: number | null;
+  // G, D, M or F as announced for this match
+  position: string | null;
+  // "row:column" on the formation grid, starters only
+  grid: string | null;
+  starting: boolean;
+  sort_order: number;
+  created_at: string;
+}
+
+export type OddsMarket = 'MATCH_WINNER' | 'DOUBLE_CHANCE' | 'OVER_UNDER' | 'BOTH_TEAMS_SCORE' | 'ASIAN_HANDICAP' | 'CORRECT_SCORE';
+
+// One bookmaker price as captured at a point in time; rows are only added when
+// the price moves, so the table doubles as the price history
+export interface Odds {
+  id: number;
+  match_id: number;
+  bookmaker: string;
+  market: OddsMarket;
+  // HOME/DRAW/AWAY, HOME_DRAW/HOME_AWAY/DRAW_AWAY, OVER/UNDER, YES/NO, or a score like "2-1"
+  selection: string;
+  // Goal line or handicap, null for markets without one
+  line: number | null;
+  price: number;
+  captured_at: string;
+  created_at: string;
+}
+
 export interface Prediction {
   id: number;
   match_id: number;
@@ -91,14 +221,202 @@ export interface Prediction {
   draw_probability: number;
   away_win_probability: number;
   both_teams_score_probability: number;
-  over_2_5_goals_probability: number;
-  under_2_5_goals_probability: number;
   home_win_or_draw_probability: number;
   away_win_or_draw_probability: number;
-  home_handicap_1_5_probability: number;
-  away_handicap_1_5_probability: number;
+  // Home Elo rating plus home advantage minus away rating, null until both
+  // teams are rated
+  rating_difference: number | null;
+  // Mean of the breakdown's components that could be measured
   confidence_score: number;
-  prediction_date: string;
+  confidence_breakdown: ConfidenceBreakdown | null;
+  // Model that produced the row; each match has one row per model
+  model_id: number | null;
+  // Whether this is the output shown for the match (the league's published model)
+  published: boolean;
+  // Rows are immutable snapshots: a new one is added whenever the inputs hash
+  // changes, and the previous one is marked superseded
+  generated_at: string;
+  inputs_hash: string;
+  superseded_at: string | null;
+  // The snapshot that was current at kickoff
+  is_closing: boolean;
+  settled_at: string | null;
+  // Version of the model's calibration curves applied, null when uncalibrated
+  calibration_version: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What the confidence score is made of, each from 0 (no confidence) to 1
+export interface ConfidenceBreakdown {
+  // Matches the less experienced team played in the goal model's window,
+  // against a full season
+  sample_size: number;
+  // One minus the posterior standard deviation of the teams' strengths as a
+  // share of the prior's
+  strength_certainty: number;
+  // How close the individual predictors' home/draw/away probabilities are;
+  // null with fewer than two
+  model_agreement: number | null;
+  // Hit rate of the model's settled match winner picks whose other
+  // components averaged about the same; null until there are enough of them
+  historical_accuracy: number | null;
+  // Settled picks behind historical_accuracy
+  history_picks: number;
+}
+
+// Our price for one selection. Whole handicap and goal lines can push, quarter
+// lines can half win or half lose; whatever is left over is a full loss.
+export interface PredictionMarket {
+  id: number;
+  prediction_id: number;
+  market: OddsMarket;
+  // Same vocabulary as Odds; handicap lines are from the selection's side
+  selection: string;
+  line: number | null;
+  // After calibration; raw_probability is what the model itself said
+  probability: number;
+  raw_probability: number | null;
+  half_win_probability: number;
+  push_probability: number;
+  half_loss_probability: number;
+  // Null until the match is settled
+  outcome: MarketOutcome | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// How a selection settled: quarter lines can half hit or half miss
+export type MarketOutcome = 'HIT' | 'HALF_HIT' | 'PUSH' | 'HALF_MISS' | 'MISS';
+
+export type PredictorKind = 'heuristic' | 'poisson' | 'elo' | 'xg' | 'ensemble';
+
+// A registered predictor. name + version identifies the output it stores;
+// ensembles blend the active versions of other models by name.
+export interface PredictionModel {
+  id: number;
+  name: string;
+  version: string;
+  kind: PredictorKind;
+  config: PredictionModelConfig;
+  active: boolean;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PredictionModelConfig {
+  // Ensemble only: weight per component model name
+  weights?: Record<string, number>;
+  // How the model's probabilities are calibrated; isotonic when unset
+  calibration?: CalibrationMethod | 'none';
+}
+
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+// Isotonic curves are block means of predicted (x) and observed (y)
+// probability, interpolated linearly; Platt scaling is
+// sigmoid(a * logit(p) + b)
+export interface CalibrationParameters {
+  x?: number[];
+  y?: number[];
+  a?: number;
+  b?: number;
+}
+
+// A curve fitted on a model's settled closing predictions for one selection
+// of a market. league_id null is the curve across leagues, used where a league
+// has too few settled selections of its own. Each fit of a model is a new
+// version; only the latest is active.
+export interface PredictionCalibration {
+  id: number;
+  model_id: number;
+  league_id: number | null;
+  market: OddsMarket;
+  selection: string;
+  method: CalibrationMethod;
+  parameters: CalibrationParameters;
+  version: number;
+  samples: number;
+  // Reliability diagrams of the training selections before and after
+  reliability_before: CalibrationBucket[];
+  reliability_after: CalibrationBucket[];
+  active: boolean;
+  fitted_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// The model whose predictions are shown for a league
+export interface PublishedModel {
+  id: number;
+  league_id: number;
+  model_id: number;
+  published_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CorrectScore {
+  home: number;
+  away: number;
+  probability: number;
+}
+
+// Scoreline distribution behind a prediction. Goal buckets are keyed "0", "1",
+// ... with the last one open-ended ("6+" for totals, "5+" for a team); margins
+// are keyed "home_3+", "home_2", "home_1", "draw", "away_1", "away_2", "away_3+".
+export interface PredictionScorelines {
+  id: number;
+  prediction_id: number;
+  expected_home_goals: number;
+  expected_away_goals: number;
+  // Every score from 0-0 to 5-5
+  correct_scores: CorrectScore[];
+  other_score_probability: number;
+  total_goals: Record<string, number>;
+  home_goals: Record<string, number>;
+  away_goals: Record<string, number>;
+  winning_margin: Record<string, number>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProviderResponse {
+  id: number;
+  provider: string;
+  endpoint: string;
+  params: Record<string, string | number>;
+  params_key: string;
+  content_hash: string;
+  payload: any;
+  fetched_at: string;
+  last_seen_at: string;
+  created_at: string;
+}
+
+export type MappedEntity = 'league' | 'venue' | 'team' | 'match' | 'player';
+
+export interface ExternalIdMapping {
+  id: number;
+  entity_type: MappedEntity;
+  provider: string;
+  external_id: number;
+  internal_id: number;
+  created_at: string;
+}
+
+export interface BackfillCheckpoint {
+  id: number;
+  league_api_id: number;
+  season: number;
+  status: 'pending' | 'running' | 'paused' | 'completed' | 'failed';
+  stage: 'teams' | 'fixtures' | 'statistics' | 'done';
+  last_fixture_id: number | null;
+  fixtures_total: number;
+  fixtures_processed: number;
+  error: string | null;
+  completed_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -182,6 +500,227 @@ export interface HeadToHeadStats {
   over2_5Goals: number;
 }
 
+// Share of a team's output missing through absences, 0-1
+export interface AbsenceImpact {
+  // Share of the team's season goals scored by absent players
+  attack: number;
+  // Share of defender and goalkeeper minutes played by absent players
+  defence: number;
+  absentPlayers: number;
+}
+
+// Goal model types
+// Dixon–Coles model of one league: log(home goals) = base + homeAdvantage +
+// attack[home] + defence[away], log(away goals) = base + attack[away] +
+// defence[home]. Attack and defence are centred on zero (league average).
+export interface GoalModel {
+  base: number;
+  homeAdvantage: number;
+  // Low-score dependence; negative values make 0-0 and 1-1 more likely
+  rho: number;
+  attack: Record<number, number>;
+  defence: Record<number, number>;
+  // Laplace approximation of each strength's posterior variance; teams the
+  // model has not seen keep the prior's
+  attackVariance: Record<number, number>;
+  defenceVariance: Record<number, number>;
+  // Matches each team played in the fit, before time decay
+  played: Record<number, number>;
+  matches: number;
+  fittedAt: string;
+}
+
+export interface GoalModelMatch {
+  date: string;
+  home_team_id: number;
+  away_team_id: number;
+  home_goals: number | null;
+  away_goals: number | null;
+}
+
+// Current Elo rating of a team; league_id is the league it plays most of its
+// matches in, which cross-league results are calibrated against
+export interface TeamRating {
+  id: number;
+  team_id: number;
+  league_id: number | null;
+  rating: number;
+  matches_played: number;
+  last_match_id: number | null;
+  last_match_date: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A team's rating before and after one finished match
+export interface TeamRatingHistory {
+  id: number;
+  team_id: number;
+  match_id: number;
+  date: string;
+  rating_before: number;
+  rating_after: number;
+  // Expected score (win 1, draw 0.5) going into the match
+  expected_score: number;
+  created_at: string;
+}
+
+export interface TeamRatings {
+  team_id: number;
+  current: TeamRating | null;
+  // Most recent match first
+  history: TeamRatingHistory[];
+}
+
+export type EloMatch = Pick<Match, 'id' | 'date' | 'league_id' | 'home_team_id' | 'away_team_id' | 'home_goals' | 'away_goals'>;
+
+// Rolling expected-goals strength of the teams in one league. Attack and
+// defence are ratios to the league average at the same venue (1 = average).
+export interface XgStrengths {
+  homeAverage: number;
+  awayAverage: number;
+  teams: Record<number, XgTeamStrength>;
+  matches: number;
+  fittedAt: string;
+}
+
+export interface XgTeamStrength {
+  attack: number;
+  defence: number;
+  // Matches with xG (or a shots proxy) in the rolling window
+  matches: number;
+}
+
+// Per-team xG of one finished match, null when neither xG nor shots on
+// target were recorded
+export interface XgMatch {
+  date: string;
+  home_team_id: number;
+  away_team_id: number;
+  home_xg: number | null;
+  away_xg: number | null;
+}
+
+export interface ExpectedGoals {
+  home: number;
+  away: number;
+}
+
+// Markets derived from one scoreline probability matrix
+export interface ScorelineMarkets {
+  homeWin: number;
+  draw: number;
+  awayWin: number;
+  bothTeamsScore: number;
+}
+
+// Odds types
+export interface MatchOdds {
+  latest: Odds[];
+  history: Odds[];
+}
+
+// A selection priced above our probability. Edge is our probability minus the
+// bookmaker's margin-free probability; expected value is per unit staked
+export interface ValueBet {
+  match_id: number;
+  match: Pick<Match, 'id' | 'date'> & {
+    home_team: Pick<Team, 'id' | 'name' | 'logo'>;
+    away_team: Pick<Team, 'id' | 'name' | 'logo'>;
+    league: Pick<League, 'id' | 'name' | 'logo'>;
+  };
+  market: OddsMarket;
+  selection: string;
+  line: number | null;
+  bookmaker: string;
+  price: number;
+  captured_at: string;
+  model_probability: number;
+  fair_probability: number;
+  edge: number;
+  expected_value: number;
+}
+
+// Standings types
+// Criteria that separate teams level on points, applied in order. The
+// head_to_head_* criteria only count matches between the tied teams.
+export type Tiebreaker =
+  | 'goal_difference'
+  | 'goals_for'
+  | 'away_goals_for'
+  | 'wins'
+  | 'head_to_head_points'
+  | 'head_to_head_goal_difference'
+  | 'head_to_head_goals_for';
+
+export interface StandingRecord {
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goals_for: number;
+  goals_against: number;
+  goal_difference: number;
+  points: number;
+}
+
+export interface StandingRow extends StandingRecord {
+  position: number;
+  team: Pick<Team, 'id' | 'name' | 'logo'>;
+  home: StandingRecord;
+  away: StandingRecord;
+  // Results of the last five matches, most recent first
+  form: ('W' | 'D' | 'L')[];
+}
+
+export interface Standings {
+  league_id: number;
+  season: number;
+  as_of: string | null;
+  table: StandingRow[];
+}
+
+export interface GroupStandings {
+  league_id: number;
+  season: number;
+  groups: { name: string; table: StandingRow[] }[];
+}
+
+export type TieLeg = Pick<Match, 'id' | 'date' | 'leg' | 'status' | 'home_team_id' | 'away_team_id' | 'home_goals' | 'away_goals' | 'home_score_penalty' | 'away_score_penalty'>;
+
+// A knockout pairing over one or two legs. Scores are from the point of view
+// of home_team, the side at home in the first leg; goals include extra time.
+export interface KnockoutTie {
+  round: string;
+  home_team: Pick<Team, 'id' | 'name' | 'logo'>;
+  away_team: Pick<Team, 'id' | 'name' | 'logo'>;
+  legs: TieLeg[];
+  aggregate: { home: number; away: number } | null;
+  penalties: { home: number; away: number } | null;
+  winner_id: number | null;
+  status: 'SCHEDULED' | 'IN_PROGRESS' | 'FINISHED';
+}
+
+export interface Bracket {
+  league_id: number;
+  season: number;
+  rounds: { name: string; ties: KnockoutTie[] }[];
+}
+
+// Player types
+// A player's season for one team, summed over the competitions it played in
+export interface SquadMember {
+  player: Player;
+  position: string | null;
+  appearances: number;
+  minutes: number;
+  goals: number;
+  assists: number;
+  expected_goals: number | null;
+  yellow_cards: number;
+  red_cards: number;
+}
+
 // Filter types
 export interface PredictionFilters {
   league?: number;
@@ -200,6 +739,157 @@ export interface MatchFilters {
   dateTo?: string;
 }
 
+export interface PerformanceFilters {
+  league?: number;
+  market?: OddsMarket;
+  from?: string;
+  to?: string;
+}
+
+// What a sync fetched, and whether all of it was saved
+export interface SyncResult<T> {
+  data: T;
+  complete: boolean;
+}
+
+export interface ResponseReplayFilters {
+  provider?: string;
+  endpoint?: string;
+  from?: string;
+  to?: string;
+  ids?: number[];
+}
+
+export interface DuplicateMergeReport {
+  dryRun: boolean;
+  league: number;
+  venue: number;
+  team: number;
+  match: number;
+}
+
+// Performance types
+// Track record of the published models' closing predictions. A pick is the
+// most likely selection of a market (and line); hit rates count half hits and
+// half misses as half a pick and leave pushes out.
+export interface PerformanceSummary {
+  matches: number;
+  picks: number;
+  hit_rate: number | null;
+  brier_score: number | null;
+  markets: MarketPerformance[];
+  leagues: LeaguePerformance[];
+  calibration: CalibrationBucket[];
+  rolling_accuracy: RollingAccuracyPoint[];
+}
+
+export interface MarketPerformance {
+  market: OddsMarket;
+  picks: number;
+  hit_rate: number | null;
+  brier_score: number | null;
+}
+
+export interface LeaguePerformance {
+  league_id: number;
+  league_name: string;
+  matches: number;
+  picks: number;
+  hit_rate: number | null;
+  brier_score: number | null;
+}
+
+// Selections whose predicted probability fell in [from, to), against how
+// often they actually hit
+export interface CalibrationBucket {
+  from: number;
+  to: number;
+  selections: number;
+  predicted: number | null;
+  observed: number | null;
+}
+
+// Hit rate over the picks of the 50 matches up to and including this one
+export interface RollingAccuracyPoint {
+  match_id: number;
+  date: string;
+  hit_rate: number;
+}
+
+// Backfill types
+export interface BackfillOptions {
+  leagues?: number[];
+  fromSeason?: number;
+  toSeason?: number;
+  // Per-fixture statistics and event timelines, one request each
+  includeStatistics?: boolean;
+}
+
+export interface BackfillStatus {
+  running: boolean;
+  stopRequested: boolean;
+  current: { league: string; season: number } | null;
+  lastError: string | null;
+  checkpoints: BackfillCheckpoint[];
+}
+
+// Backtest types
+export type BacktestStatus = 'running' | 'completed' | 'failed';
+
+export interface BacktestOptions {
+  leagueId: number;
+  // Kickoff dates (inclusive) of the matches to replay
+  from: string;
+  to: string;
+  // Model names or name@version; defaults to every active model
+  models?: string[];
+  // Drop-format .csv/.json file of closing prices, read on the server
+  oddsFile?: string;
+  // Only bet this bookmaker's prices; otherwise the best closing price
+  bookmaker?: string;
+  minEdge?: number;
+}
+
+// One walk-forward replay of a league's history
+export interface Backtest {
+  id: number;
+  league_id: number;
+  date_from: string;
+  date_to: string;
+  models: string[];
+  odds_file: string | null;
+  bookmaker: string | null;
+  min_edge: number;
+  status: BacktestStatus;
+  matches: number;
+  summary: BacktestModelResult[] | null;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Scores are means over the predicted matches, on home/draw/away
+export interface BacktestModelResult {
+  model: string;
+  matches: number;
+  brier_score: number | null;
+  log_loss: number | null;
+  ranked_probability_score: number | null;
+  accuracy: number | null;
+  markets: BacktestMarketResult[];
+}
+
+// Level stakes of 1 on every selection whose best closing price is a value bet
+// at min_edge, settled on the final score
+export interface BacktestMarketResult {
+  market: OddsMarket;
+  bets: number;
+  profit: number;
+  roi: number | null;
+}
+
 // Configuration types
 export interface AppConfig {
   apiFootballKey: string;
@@ -210,6 +900,210 @@ export interface AppConfig {
   port: number;
 }
 
+// Data provider types
+export type MatchStatisticsValues = Partial<Omit<MatchStatistics, 'id' | 'match_id' | 'team_id' | 'created_at' | 'updated_at'>>;
+
+export interface ProviderSeason {
+  year: number;
+  start: string;
+  end: string;
+  current: boolean;
+}
+
+export interface ProviderLeague {
+  externalId: number;
+  name: string;
+  country: string;
+  logo: string;
+  flag: string;
+  seasons: ProviderSeason[];
+}
+
+export interface ProviderVenue {
+  externalId: number;
+  name: string;
+  city: string;
+  capacity: number;
+  surface: string;
+  image: string;
+}
+
+export interface ProviderTeam {
+  externalId: number;
+  name: string;
+  code: string;
+  country: string;
+  founded: number;
+  national: boolean;
+  logo: string;
+  venue: ProviderVenue | null;
+}
+
+export interface ProviderScore {
+  home: number | null;
+  away: number | null;
+}
+
+export interface ProviderTeamStatistics {
+  teamExternalId: number;
+  values: MatchStatisticsValues;
+}
+
+export interface ProviderFixtureEvent {
+  teamExternalId: number | null;
+  elapsed: number;
+  extraTime: number | null;
+  type: MatchEvent['type'];
+  // Provider wording, e.g. "Normal Goal", "Own Goal", "Red Card", "Substitution 1"
+  detail: string | null;
+  playerExternalId: number | null;
+  playerName: string | null;
+  // For substitutions the assist is the player coming on
+  assistExternalId: number | null;
+  assistName: string | null;
+  comments: string | null;
+}
+
+export interface ProviderLineupPlayer {
+  externalId: number | null;
+  name: string;
+  number: number | null;
+  position: string | null;
+  grid: string | null;
+}
+
+export interface ProviderLineup {
+  teamExternalId: number;
+  formation: string | null;
+  coach: { externalId: number | null; name: string; photo: string | null } | null;
+  startXI: ProviderLineupPlayer[];
+  substitutes: ProviderLineupPlayer[];
+}
+
+export interface ProviderPlayerStatistics {
+  teamExternalId: number;
+  leagueExternalId: number;
+  season: number;
+  position: string | null;
+  appearances: number;
+  lineups: number;
+  minutes: number;
+  goals: number;
+  assists: number;
+  expectedGoals: number | null;
+  yellowCards: number;
+  redCards: number;
+  rating: number | null;
+}
+
+export interface ProviderPlayer {
+  externalId: number;
+  name: string;
+  firstname: string | null;
+  lastname: string | null;
+  birthDate: string | null;
+  nationality: string | null;
+  photo: string | null;
+  statistics: ProviderPlayerStatistics[];
+}
+
+export interface ProviderAbsence {
+  teamExternalId: number;
+  playerExternalId: number | null;
+  playerName: string;
+  status: Absence['status'];
+  kind: Absence['kind'];
+  reason: string | null;
+}
+
+export interface ProviderOdds {
+  bookmaker: string;
+  market: OddsMarket;
+  selection: string;
+  line: number | null;
+  price: number;
+  capturedAt: string;
+}
+
+export interface ProviderFixture {
+  externalId: number;
+  date: string;
+  referee: string;
+  venueExternalId: number | null;
+  leagueExternalId: number;
+  season: number;
+  round: string;
+  stage: CompetitionStage | null;
+  group: string | null;
+  matchday: number | null;
+  // Only set when the round names the leg; otherwise worked out from the tie
+  leg: number | null;
+  homeTeamExternalId: number;
+  awayTeamExternalId: number;
+  goals: ProviderScore;
+  halftime: ProviderScore;
+  fulltime: ProviderScore;
+  extratime: ProviderScore;
+  penalty: ProviderScore;
+  status: Match['status'];
+  elapsed: number | null;
+  statistics?: ProviderTeamStatistics[];
+}
+
+export interface ProviderRequestOptions {
+  priority?: number;
+}
+
+// What each stored endpoint's response body parses into
+export interface ProviderEndpointData {
+  'leagues': ProviderLeague | null;
+  'teams': ProviderTeam[];
+  'fixtures': ProviderFixture[];
+  'fixtures/statistics': ProviderTeamStatistics[];
+  'fixtures/events': ProviderFixtureEvent[];
+  'fixtures/lineups': ProviderLineup[];
+  'injuries': ProviderAbsence[];
+  'odds': ProviderOdds[];
+  'players': ProviderPlayer[];
+}
+
+export type ProviderEndpoint = keyof ProviderEndpointData;
+
+export interface QuotaStatus {
+  provider: string;
+  day: string;
+  dailyLimit: number;
+  used: number;
+  remaining: number;
+  minuteLimit: number | null;
+  minuteRemaining: number | null;
+  queueDepth: number;
+}
+
+// A source of football data. DataService only talks to providers, so a league
+// can be switched between the live API and recorded files via LeagueConfig.provider.
+export interface FootballDataProvider {
+  readonly name: string;
+  // Without a season the provider returns the competition with all its seasons
+  getLeague(leagueId: number, season?: number, options?: ProviderRequestOptions): Promise<ProviderLeague | null>;
+  getTeams(leagueId: number, season: number, options?: ProviderRequestOptions): Promise<ProviderTeam[]>;
+  getFixtures(leagueId: number, season: number, fromDate: string, toDate: string, options?: ProviderRequestOptions): Promise<ProviderFixture[]>;
+  getFixtureStatistics(fixtureId: number, options?: ProviderRequestOptions): Promise<ProviderTeamStatistics[]>;
+  getFixtureEvents(fixtureId: number, options?: ProviderRequestOptions): Promise<ProviderFixtureEvent[]>;
+  // Empty until the line-ups are announced, usually about an hour before kickoff
+  getFixtureLineups(fixtureId: number, options?: ProviderRequestOptions): Promise<ProviderLineup[]>;
+  getFixtureAbsences(fixtureId: number, options?: ProviderRequestOptions): Promise<ProviderAbsence[]>;
+  // Pre-match prices, usually published one to two weeks before kickoff
+  getFixtureOdds(fixtureId: number, options?: ProviderRequestOptions): Promise<ProviderOdds[]>;
+  // Every player who appeared in the competition that season, with their statistics in it
+  getPlayers(leagueId: number, season: number, options?: ProviderRequestOptions): Promise<ProviderPlayer[]>;
+  // The response body as the provider sent it, which is what ResponseStore keeps
+  fetchResponse(endpoint: ProviderEndpoint, params: Record<string, string | number>, options?: ProviderRequestOptions): Promise<any>;
+  // Parses a body from fetchResponse, fresh or stored
+  parseResponse<E extends ProviderEndpoint>(endpoint: E, body: any): ProviderEndpointData[E];
+  getQuotaStatus?(): QuotaStatus;
+}
+
 // League configuration
 export interface LeagueConfig {
   id: number;
@@ -218,18 +1112,25 @@ export interface LeagueConfig {
   apiId: number;
   active: boolean;
   priority: number;
+  provider?: string;
+  seasonFormat: 'split' | 'calendar';
+  tiebreakers: Tiebreaker[];
+  // Group stages of cup competitions, when they differ from the league rules
+  groupTiebreakers?: Tiebreaker[];
+  // Cup competitions are never a team's domestic league
+  cup?: boolean;
 }
 
 export const SUPPORTED_LEAGUES: LeagueConfig[] = [
-  { id: 1, name: 'Premier League', country: 'England', apiId: 39, active: true, priority: 1 },
-  { id: 2, name: 'La Liga', country: 'Spain', apiId: 140, active: true, priority: 1 },
-  { id: 3, name: 'Serie A', country: 'Italy', apiId: 135, active: true, priority: 1 },
-  { id: 4, name: 'Bundesliga', country: 'Germany', apiId: 78, active: true, priority: 1 },
-  { id: 5, name: 'Ligue 1', country: 'France', apiId: 61, active: true, priority: 1 },
-  { id: 6, name: 'Brasileirão', country: 'Brazil', apiId: 71, active: true, priority: 2 },
-  { id: 7, name: 'UEFA Champions League', country: 'Europe', apiId: 2, active: true, priority: 1 },
-  { id: 8, name: 'Club World Cup', country: 'World', apiId: 73, active: true, priority: 3 },
-  { id: 9, name: 'Veikkausliiga', country: 'Finland', apiId: 106, active: true, priority: 3 },
-  { id: 10, name: 'Eliteserien', country: 'Norway', apiId: 103, active: true, priority: 3 },
-  { id: 11, name: 'Allsvenskan', country: 'Sweden', apiId: 113, active: true, priority: 3 }
+  { id: 1, name: 'Premier League', country: 'England', apiId: 39, active: true, priority: 1, seasonFormat: 'split', tiebreakers: ['goal_difference', 'goals_for', 'head_to_head_points'] },
+  { id: 2, name: 'La Liga', country: 'Spain', apiId: 140, active: true, priority: 1, seasonFormat: 'split', tiebreakers: ['head_to_head_points', 'head_to_head_goal_difference', 'goal_difference', 'goals_for'] },
+  { id: 3, name: 'Serie A', country: 'Italy', apiId: 135, active: true, priority: 1, seasonFormat: 'split', tiebreakers: ['head_to_head_points', 'head_to_head_goal_difference', 'goal_difference', 'goals_for'] },
+  { id: 4, name: 'Bundesliga', country: 'Germany', apiId: 78, active: true, priority: 1, seasonFormat: 'split', tiebreakers: ['goal_difference', 'goals_for', 'head_to_head_points', 'head_to_head_goal_difference'] },
+  { id: 5, name: 'Ligue 1', country: 'France', apiId: 61, active: true, priority: 1, seasonFormat: 'split', tiebreakers: ['goal_difference', 'head_to_head_points', 'head_to_head_goal_difference', 'goals_for'] },
+  { id: 6, name: 'Brasileirão', country: 'Brazil', apiId: 71, active: true, priority: 2, seasonFormat: 'calendar', tiebreakers: ['wins', 'goal_difference', 'goals_for', 'head_to_head_points'] },
+  { id: 7, name: 'UEFA Champions League', country: 'Europe', apiId: 2, active: true, priority: 1, seasonFormat: 'split', cup: true, tiebreakers: ['goal_difference', 'goals_for', 'away_goals_for', 'wins'], groupTiebreakers: ['head_to_head_points', 'head_to_head_goal_difference', 'head_to_head_goals_for', 'goal_difference', 'goals_for'] },
+  { id: 8, name: 'Club World Cup', country: 'World', apiId: 73, active: true, priority: 3, seasonFormat: 'calendar', cup: true, tiebreakers: ['goal_difference', 'goals_for', 'head_to_head_points'], groupTiebreakers: ['head_to_head_points', 'head_to_head_goal_difference', 'head_to_head_goals_for', 'goal_difference', 'goals_for'] },
+  { id: 9, name: 'Veikkausliiga', country: 'Finland', apiId: 106, active: true, priority: 3, seasonFormat: 'calendar', tiebreakers: ['goal_difference', 'goals_for', 'head_to_head_points'] },
+  { id: 10, name: 'Eliteserien', country: 'Norway', apiId: 103, active: true, priority: 3, seasonFormat: 'calendar', tiebreakers: ['goal_difference', 'goals_for', 'head_to_head_points'] },
+  { id: 11, name: 'Allsvenskan', country: 'Sweden', apiId: 113, active: true, priority: 3, seasonFormat: 'calendar', tiebreakers: ['goal_difference', 'goals_for', 'head_to_head_points'] }
 ]; 
\ No newline at end of file
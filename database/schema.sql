@@ -47,6 +47,12 @@ CREATE TABLE IF NOT EXISTS matches (
     referee VARCHAR(255),
     venue_id INTEGER REFERENCES venues(id),
     league_id INTEGER REFERENCES leagues(id),
+    season INTEGER,
+    round VARCHAR(255),
+    stage VARCHAR(20) CHECK (stage IN ('LEAGUE', 'GROUP', 'QUALIFYING', 'KNOCKOUT')),
+    group_name VARCHAR(50),
+    matchday INTEGER,
+    leg SMALLINT,
     home_team_id INTEGER REFERENCES teams(id),
     away_team_id INTEGER REFERENCES teams(id),
     home_goals INTEGER,
@@ -92,6 +98,31 @@ CREATE TABLE IF NOT EXISTS match_statistics (
     UNIQUE(match_id, team_id)
 );
 
+-- Create prediction_models table (registered predictors, one row per version)
+CREATE TABLE IF NOT EXISTS prediction_models (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(50) NOT NULL,
+    version VARCHAR(20) NOT NULL,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('heuristic', 'poisson', 'elo', 'xg', 'ensemble')),
+    config JSONB NOT NULL DEFAULT '{}',
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(name, version)
+);
+
+-- Create published_models table (the model shown for each league)
+CREATE TABLE IF NOT EXISTS published_models (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER REFERENCES leagues(id) ON DELETE CASCADE,
+    model_id INTEGER REFERENCES prediction_models(id),
+    published_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(league_id)
+);
+
 -- Create predictions table
 CREATE TABLE IF NOT EXISTS predictions (
     id SERIAL PRIMARY KEY,
@@ -100,17 +131,27 @@ CREATE TABLE IF NOT EXISTS predictions (
     draw_probability DECIMAL(5,4) NOT NULL,
     away_win_probability DECIMAL(5,4) NOT NULL,
     both_teams_score_probability DECIMAL(5,4) NOT NULL,
-    over_2_5_goals_probability DECIMAL(5,4) NOT NULL,
-    under_2_5_goals_probability DECIMAL(5,4) NOT NULL,
     home_win_or_draw_probability DECIMAL(5,4) NOT NULL,
     away_win_or_draw_probability DECIMAL(5,4) NOT NULL,
-    home_handicap_1_5_probability DECIMAL(5,4) NOT NULL,
-    away_handicap_1_5_probability DECIMAL(5,4) NOT NULL,
+    rating_difference DECIMAL(6,2),
     confidence_score DECIMAL(3,2) NOT NULL,
-    prediction_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- Components of confidence_score: sample size, strength certainty, model
+    -- agreement and historical accuracy
+    confidence_breakdown JSONB,
+    model_id INTEGER REFERENCES prediction_models(id),
+    published BOOLEAN NOT NULL DEFAULT FALSE,
+    generated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- SHA-256 of everything the model read; an unchanged hash adds no snapshot
+    inputs_hash VARCHAR(64) NOT NULL,
+    -- Set when a newer snapshot replaces this one; NULL marks the current one
+    superseded_at TIMESTAMP WITH TIME ZONE,
+    -- The snapshot that was current at kickoff
+    is_closing BOOLEAN NOT NULL DEFAULT FALSE,
+    settled_at TIMESTAMP WITH TIME ZONE,
+    -- Version of the model's prediction_calibrations applied, NULL when uncalibrated
+    calibration_version INTEGER,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    UNIQUE(match_id)
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Create user_predictions table for saved predictions
@@ -122,6 +163,320 @@ CREATE TABLE IF NOT EXISTS user_predictions (
     UNIQUE(user_id, prediction_id)
 );
 
+-- Create api_quota table for the daily provider request budget
+CREATE TABLE IF NOT EXISTS api_quota (
+    id SERIAL PRIMARY KEY,
+    provider VARCHAR(50) NOT NULL,
+    day DATE NOT NULL,
+    requests_used INTEGER NOT NULL DEFAULT 0,
+    daily_limit INTEGER NOT NULL,
+    requests_remaining INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(provider, day)
+);
+
+-- Create provider_responses table for the raw response cache and replay store
+CREATE TABLE IF NOT EXISTS provider_responses (
+    id BIGSERIAL PRIMARY KEY,
+    provider VARCHAR(50) NOT NULL,
+    endpoint VARCHAR(100) NOT NULL,
+    params JSONB NOT NULL,
+    params_key TEXT NOT NULL,
+    content_hash CHAR(64) NOT NULL,
+    payload JSONB,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create external_ids table mapping provider ids to our primary keys
+CREATE TABLE IF NOT EXISTS external_ids (
+    id SERIAL PRIMARY KEY,
+    entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('league', 'venue', 'team', 'match', 'player')),
+    provider VARCHAR(50) NOT NULL,
+    external_id BIGINT NOT NULL,
+    internal_id INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(entity_type, provider, external_id)
+);
+
+-- Create backfill_checkpoints table tracking historical season backfill progress
+CREATE TABLE IF NOT EXISTS backfill_checkpoints (
+    id SERIAL PRIMARY KEY,
+    league_api_id INTEGER NOT NULL,
+    season INTEGER NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'paused', 'completed', 'failed')),
+    stage VARCHAR(20) NOT NULL DEFAULT 'teams' CHECK (stage IN ('teams', 'fixtures', 'statistics', 'done')),
+    last_fixture_id BIGINT,
+    fixtures_total INTEGER NOT NULL DEFAULT 0,
+    fixtures_processed INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(league_api_id, season)
+);
+
+-- Create seasons table (per-competition seasons as reported by the provider)
+CREATE TABLE IF NOT EXISTS seasons (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER REFERENCES leagues(id) ON DELETE CASCADE,
+    year INTEGER NOT NULL,
+    start_date DATE,
+    end_date DATE,
+    current BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(league_id, year)
+);
+
+-- Create match_events table (goals, cards, substitutions and VAR decisions)
+CREATE TABLE IF NOT EXISTS match_events (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER REFERENCES matches(id) ON DELETE CASCADE,
+    team_id INTEGER REFERENCES teams(id),
+    sequence INTEGER NOT NULL,
+    elapsed INTEGER NOT NULL,
+    extra_time INTEGER,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('GOAL', 'CARD', 'SUBSTITUTION', 'VAR', 'OTHER')),
+    detail VARCHAR(100),
+    player_name VARCHAR(255),
+    assist_name VARCHAR(255),
+    comments TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(match_id, sequence)
+);
+
+-- Create players table
+CREATE TABLE IF NOT EXISTS players (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    firstname VARCHAR(255),
+    lastname VARCHAR(255),
+    birth_date DATE,
+    nationality VARCHAR(100),
+    photo VARCHAR(500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create lineups table (one announced line-up per team and match)
+CREATE TABLE IF NOT EXISTS lineups (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER REFERENCES matches(id) ON DELETE CASCADE,
+    team_id INTEGER REFERENCES teams(id),
+    formation VARCHAR(20),
+    coach_name VARCHAR(255),
+    coach_photo VARCHAR(500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(match_id, team_id)
+);
+
+-- Create lineup_players table (starting XI and substitutes)
+CREATE TABLE IF NOT EXISTS lineup_players (
+    id SERIAL PRIMARY KEY,
+    lineup_id INTEGER REFERENCES lineups(id) ON DELETE CASCADE,
+    player_id INTEGER REFERENCES players(id),
+    player_name VARCHAR(255) NOT NULL,
+    number INTEGER,
+    position VARCHAR(5),
+    grid VARCHAR(10),
+    starting BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create player_season_stats table (per player, team, competition and season)
+CREATE TABLE IF NOT EXISTS player_season_stats (
+    id SERIAL PRIMARY KEY,
+    player_id INTEGER REFERENCES players(id) ON DELETE CASCADE,
+    team_id INTEGER REFERENCES teams(id),
+    league_id INTEGER REFERENCES leagues(id),
+    season INTEGER NOT NULL,
+    position VARCHAR(50),
+    appearances INTEGER NOT NULL DEFAULT 0,
+    lineups INTEGER NOT NULL DEFAULT 0,
+    minutes INTEGER NOT NULL DEFAULT 0,
+    goals INTEGER NOT NULL DEFAULT 0,
+    assists INTEGER NOT NULL DEFAULT 0,
+    expected_goals DECIMAL(5,2),
+    yellow_cards INTEGER NOT NULL DEFAULT 0,
+    red_cards INTEGER NOT NULL DEFAULT 0,
+    rating DECIMAL(4,2),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(player_id, team_id, league_id, season)
+);
+
+-- Create absences table (injuries and suspensions per match)
+CREATE TABLE IF NOT EXISTS absences (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER REFERENCES matches(id) ON DELETE CASCADE,
+    team_id INTEGER REFERENCES teams(id),
+    player_id INTEGER REFERENCES players(id),
+    player_name VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('MISSING', 'QUESTIONABLE')),
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('INJURY', 'SUSPENSION', 'OTHER')),
+    reason VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create odds table (bookmaker prices; a new row whenever a price moves)
+CREATE TABLE IF NOT EXISTS odds (
+    id SERIAL PRIMARY KEY,
+    match_id INTEGER REFERENCES matches(id) ON DELETE CASCADE,
+    bookmaker VARCHAR(100) NOT NULL,
+    market VARCHAR(30) NOT NULL CHECK (market IN ('MATCH_WINNER', 'DOUBLE_CHANCE', 'OVER_UNDER', 'BOTH_TEAMS_SCORE', 'ASIAN_HANDICAP', 'CORRECT_SCORE')),
+    selection VARCHAR(20) NOT NULL,
+    line DECIMAL(5,2),
+    price DECIMAL(8,3) NOT NULL CHECK (price > 1),
+    captured_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (match_id, bookmaker, market, selection, line, captured_at)
+);
+
+-- Create prediction_scorelines table (the scoreline distribution behind a prediction)
+CREATE TABLE IF NOT EXISTS prediction_scorelines (
+    id SERIAL PRIMARY KEY,
+    prediction_id INTEGER REFERENCES predictions(id) ON DELETE CASCADE,
+    expected_home_goals DECIMAL(5,3) NOT NULL,
+    expected_away_goals DECIMAL(5,3) NOT NULL,
+    correct_scores JSONB NOT NULL,
+    other_score_probability DECIMAL(5,4) NOT NULL,
+    total_goals JSONB NOT NULL,
+    home_goals JSONB NOT NULL,
+    away_goals JSONB NOT NULL,
+    winning_margin JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(prediction_id)
+);
+
+-- Create prediction_markets table (one priced selection per market and line)
+CREATE TABLE IF NOT EXISTS prediction_markets (
+    id SERIAL PRIMARY KEY,
+    prediction_id INTEGER REFERENCES predictions(id) ON DELETE CASCADE,
+    market VARCHAR(30) NOT NULL CHECK (market IN ('MATCH_WINNER', 'DOUBLE_CHANCE', 'OVER_UNDER', 'BOTH_TEAMS_SCORE', 'ASIAN_HANDICAP', 'CORRECT_SCORE')),
+    selection VARCHAR(20) NOT NULL,
+    line DECIMAL(5,2),
+    probability DECIMAL(5,4) NOT NULL,
+    -- The model's own probability before calibration
+    raw_probability DECIMAL(5,4),
+    half_win_probability DECIMAL(5,4) NOT NULL DEFAULT 0,
+    push_probability DECIMAL(5,4) NOT NULL DEFAULT 0,
+    half_loss_probability DECIMAL(5,4) NOT NULL DEFAULT 0,
+    -- Filled in once the match is FINISHED
+    outcome VARCHAR(10) CHECK (outcome IN ('HIT', 'HALF_HIT', 'PUSH', 'HALF_MISS', 'MISS')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (prediction_id, market, selection, line)
+);
+
+-- Create team_ratings table (current Elo rating per team)
+CREATE TABLE IF NOT EXISTS team_ratings (
+    id SERIAL PRIMARY KEY,
+    team_id INTEGER REFERENCES teams(id) ON DELETE CASCADE,
+    league_id INTEGER REFERENCES leagues(id),
+    rating DECIMAL(7,2) NOT NULL,
+    matches_played INTEGER NOT NULL DEFAULT 0,
+    last_match_id INTEGER REFERENCES matches(id) ON DELETE SET NULL,
+    last_match_date TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(team_id)
+);
+
+-- Create team_rating_history table (Elo rating before and after each match)
+CREATE TABLE IF NOT EXISTS team_rating_history (
+    id SERIAL PRIMARY KEY,
+    team_id INTEGER REFERENCES teams(id) ON DELETE CASCADE,
+    match_id INTEGER REFERENCES matches(id) ON DELETE CASCADE,
+    date TIMESTAMP WITH TIME ZONE NOT NULL,
+    rating_before DECIMAL(7,2) NOT NULL,
+    rating_after DECIMAL(7,2) NOT NULL,
+    expected_score DECIMAL(5,4) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(team_id, match_id)
+);
+
+-- Walk-forward backtests; summary holds the scores and ROI per model
+CREATE TABLE IF NOT EXISTS backtests (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER REFERENCES leagues(id),
+    date_from DATE NOT NULL,
+    date_to DATE NOT NULL,
+    models TEXT[] NOT NULL DEFAULT '{}',
+    odds_file TEXT,
+    bookmaker VARCHAR(100),
+    min_edge DECIMAL(5,4) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    matches INTEGER NOT NULL DEFAULT 0,
+    summary JSONB,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create prediction_calibrations table (one curve per model, league and selection)
+CREATE TABLE IF NOT EXISTS prediction_calibrations (
+    id SERIAL PRIMARY KEY,
+    model_id INTEGER REFERENCES prediction_models(id) ON DELETE CASCADE,
+    -- NULL for the curve fitted across every league
+    league_id INTEGER REFERENCES leagues(id) ON DELETE CASCADE,
+    market VARCHAR(30) NOT NULL,
+    selection VARCHAR(20) NOT NULL,
+    method VARCHAR(20) NOT NULL CHECK (method IN ('isotonic', 'platt')),
+    parameters JSONB NOT NULL,
+    version INTEGER NOT NULL,
+    samples INTEGER NOT NULL,
+    reliability_before JSONB NOT NULL DEFAULT '[]',
+    reliability_after JSONB NOT NULL DEFAULT '[]',
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    fitted_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (model_id, version, league_id, market, selection)
+);
+
+-- Upgrade matches and predictions tables created by an earlier version of
+-- this schema (CREATE TABLE IF NOT EXISTS leaves them as they were)
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS season INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS round VARCHAR(255);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS stage VARCHAR(20) CHECK (stage IN ('LEAGUE', 'GROUP', 'QUALIFYING', 'KNOCKOUT'));
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS group_name VARCHAR(50);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS matchday INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS leg SMALLINT;
+
+-- Predictions are now snapshots per model, so a match has many of them
+ALTER TABLE predictions DROP CONSTRAINT IF EXISTS predictions_match_id_key;
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS rating_difference DECIMAL(6,2);
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS confidence_breakdown JSONB;
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS model_id INTEGER REFERENCES prediction_models(id);
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS published BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS generated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS inputs_hash VARCHAR(64);
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS superseded_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS is_closing BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS settled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS calibration_version INTEGER;
+-- Earlier predictions have no model and stay unpublished history
+UPDATE predictions SET generated_at = created_at WHERE generated_at IS NULL;
+UPDATE predictions SET inputs_hash = '' WHERE inputs_hash IS NULL;
+ALTER TABLE predictions ALTER COLUMN generated_at SET NOT NULL;
+ALTER TABLE predictions ALTER COLUMN inputs_hash SET NOT NULL;
+-- Over/under and handicap prices moved to prediction_markets
+ALTER TABLE predictions DROP COLUMN IF EXISTS over_2_5_goals_probability;
+ALTER TABLE predictions DROP COLUMN IF EXISTS under_2_5_goals_probability;
+ALTER TABLE predictions DROP COLUMN IF EXISTS home_handicap_1_5_probability;
+ALTER TABLE predictions DROP COLUMN IF EXISTS away_handicap_1_5_probability;
+ALTER TABLE predictions DROP COLUMN IF EXISTS prediction_date;
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_matches_date ON matches(date);
 CREATE INDEX IF NOT EXISTS idx_matches_status ON matches(status);
@@ -129,9 +484,33 @@ CREATE INDEX IF NOT EXISTS idx_matches_league_id ON matches(league_id);
 CREATE INDEX IF NOT EXISTS idx_matches_home_team_id ON matches(home_team_id);
 CREATE INDEX IF NOT EXISTS idx_matches_away_team_id ON matches(away_team_id);
 CREATE INDEX IF NOT EXISTS idx_predictions_match_id ON predictions(match_id);
+CREATE INDEX IF NOT EXISTS idx_predictions_published ON predictions(match_id) WHERE published AND superseded_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_predictions_current ON predictions(match_id, model_id) NULLS NOT DISTINCT WHERE superseded_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_predictions_closing ON predictions(match_id, model_id) NULLS NOT DISTINCT WHERE is_closing;
+CREATE INDEX IF NOT EXISTS idx_predictions_unsettled ON predictions(match_id) WHERE settled_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_predictions_confidence_score ON predictions(confidence_score);
-CREATE INDEX IF NOT EXISTS idx_predictions_prediction_date ON predictions(prediction_date);
+CREATE INDEX IF NOT EXISTS idx_predictions_generated_at ON predictions(generated_at);
 CREATE INDEX IF NOT EXISTS idx_user_predictions_user_id ON user_predictions(user_id);
+CREATE INDEX IF NOT EXISTS idx_provider_responses_lookup ON provider_responses(provider, endpoint, params_key, fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_provider_responses_fetched_at ON provider_responses(fetched_at);
+CREATE INDEX IF NOT EXISTS idx_external_ids_internal ON external_ids(entity_type, internal_id);
+CREATE INDEX IF NOT EXISTS idx_seasons_league_dates ON seasons(league_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_matches_league_season ON matches(league_id, season);
+CREATE INDEX IF NOT EXISTS idx_matches_league_season_stage ON matches(league_id, season, stage);
+CREATE INDEX IF NOT EXISTS idx_match_events_match_id ON match_events(match_id, elapsed);
+CREATE INDEX IF NOT EXISTS idx_match_events_team_type ON match_events(team_id, type);
+CREATE INDEX IF NOT EXISTS idx_lineups_match_id ON lineups(match_id);
+CREATE INDEX IF NOT EXISTS idx_lineup_players_lineup_id ON lineup_players(lineup_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_lineup_players_player_id ON lineup_players(player_id);
+CREATE INDEX IF NOT EXISTS idx_player_season_stats_team ON player_season_stats(team_id, season);
+CREATE INDEX IF NOT EXISTS idx_player_season_stats_league_goals ON player_season_stats(league_id, season, goals DESC);
+CREATE INDEX IF NOT EXISTS idx_absences_match_team ON absences(match_id, team_id);
+CREATE INDEX IF NOT EXISTS idx_absences_player_id ON absences(player_id);
+CREATE INDEX IF NOT EXISTS idx_odds_match_captured ON odds(match_id, captured_at);
+CREATE INDEX IF NOT EXISTS idx_team_ratings_league_rating ON team_ratings(league_id, rating DESC);
+CREATE INDEX IF NOT EXISTS idx_team_rating_history_team_date ON team_rating_history(team_id, date);
+CREATE INDEX IF NOT EXISTS idx_backtests_league_id ON backtests(league_id);
+CREATE INDEX IF NOT EXISTS idx_prediction_calibrations_active ON prediction_calibrations(model_id) WHERE active;
 
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -149,6 +528,21 @@ CREATE TRIGGER update_teams_updated_at BEFORE UPDATE ON teams FOR EACH ROW EXECU
 CREATE TRIGGER update_matches_updated_at BEFORE UPDATE ON matches FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_match_statistics_updated_at BEFORE UPDATE ON match_statistics FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_predictions_updated_at BEFORE UPDATE ON predictions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_api_quota_updated_at BEFORE UPDATE ON api_quota FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_backfill_checkpoints_updated_at BEFORE UPDATE ON backfill_checkpoints FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_seasons_updated_at BEFORE UPDATE ON seasons FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_match_events_updated_at BEFORE UPDATE ON match_events FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_players_updated_at BEFORE UPDATE ON players FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_lineups_updated_at BEFORE UPDATE ON lineups FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_player_season_stats_updated_at BEFORE UPDATE ON player_season_stats FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_absences_updated_at BEFORE UPDATE ON absences FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_prediction_scorelines_updated_at BEFORE UPDATE ON prediction_scorelines FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_prediction_markets_updated_at BEFORE UPDATE ON prediction_markets FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_team_ratings_updated_at BEFORE UPDATE ON team_ratings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_prediction_models_updated_at BEFORE UPDATE ON prediction_models FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_published_models_updated_at BEFORE UPDATE ON published_models FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_backtests_updated_at BEFORE UPDATE ON backtests FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_prediction_calibrations_updated_at BEFORE UPDATE ON prediction_calibrations FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 -- Enable Row Level Security (RLS)
 ALTER TABLE leagues ENABLE ROW LEVEL SECURITY;
@@ -158,6 +552,26 @@ ALTER TABLE matches ENABLE ROW LEVEL SECURITY;
 ALTER TABLE match_statistics ENABLE ROW LEVEL SECURITY;
 ALTER TABLE predictions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_predictions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_quota ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provider_responses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE external_ids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE backfill_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE match_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lineups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lineup_players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_season_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE absences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE odds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prediction_scorelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prediction_markets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_rating_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prediction_models ENABLE ROW LEVEL SECURITY;
+ALTER TABLE published_models ENABLE ROW LEVEL SECURITY;
+ALTER TABLE backtests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prediction_calibrations ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies
 -- Public read access for all tables except user_predictions
@@ -167,6 +581,26 @@ CREATE POLICY "Public read access" ON teams FOR SELECT USING (true);
 CREATE POLICY "Public read access" ON matches FOR SELECT USING (true);
 CREATE POLICY "Public read access" ON match_statistics FOR SELECT USING (true);
 CREATE POLICY "Public read access" ON predictions FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON api_quota FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON provider_responses FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON external_ids FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON backfill_checkpoints FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON seasons FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON match_events FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON players FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON lineups FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON lineup_players FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON player_season_stats FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON absences FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON odds FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON prediction_scorelines FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON prediction_markets FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON team_ratings FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON team_rating_history FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON prediction_models FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON published_models FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON backtests FOR SELECT USING (true);
+CREATE POLICY "Public read access" ON prediction_calibrations FOR SELECT USING (true);
 
 -- User-specific access for user_predictions
 CREATE POLICY "Users can view their own saved predictions" ON user_predictions FOR SELECT USING (auth.uid() = user_id);
@@ -180,6 +614,26 @@ CREATE POLICY "Insert access" ON teams FOR INSERT WITH CHECK (true);
 CREATE POLICY "Insert access" ON matches FOR INSERT WITH CHECK (true);
 CREATE POLICY "Insert access" ON match_statistics FOR INSERT WITH CHECK (true);
 CREATE POLICY "Insert access" ON predictions FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON api_quota FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON provider_responses FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON external_ids FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON backfill_checkpoints FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON seasons FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON match_events FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON players FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON lineups FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON lineup_players FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON player_season_stats FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON absences FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON odds FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON prediction_scorelines FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON prediction_markets FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON team_ratings FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON team_rating_history FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON prediction_models FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON published_models FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON backtests FOR INSERT WITH CHECK (true);
+CREATE POLICY "Insert access" ON prediction_calibrations FOR INSERT WITH CHECK (true);
 
 -- Update access for data updates
 CREATE POLICY "Update access" ON leagues FOR UPDATE USING (true);
@@ -188,6 +642,26 @@ CREATE POLICY "Update access" ON teams FOR UPDATE USING (true);
 CREATE POLICY "Update access" ON matches FOR UPDATE USING (true);
 CREATE POLICY "Update access" ON match_statistics FOR UPDATE USING (true);
 CREATE POLICY "Update access" ON predictions FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON api_quota FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON provider_responses FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON external_ids FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON backfill_checkpoints FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON seasons FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON match_events FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON players FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON lineups FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON lineup_players FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON player_season_stats FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON absences FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON odds FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON prediction_scorelines FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON prediction_markets FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON team_ratings FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON team_rating_history FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON prediction_models FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON published_models FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON backtests FOR UPDATE USING (true);
+CREATE POLICY "Update access" ON prediction_calibrations FOR UPDATE USING (true);
 
 -- Create a view for match details with team and league information
 CREATE OR REPLACE VIEW match_details AS
@@ -9,6 +9,7 @@ import Predictions from './pages/Predictions';
 import Matches from './pages/Matches';
 import Teams from './pages/Teams';
 import Leagues from './pages/Leagues';
+import TrackRecord from './pages/TrackRecord';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Profile from './pages/Profile';
@@ -28,6 +29,7 @@ function App() {
                 <Route path="/matches" element={<Matches />} />
                 <Route path="/teams" element={<Teams />} />
                 <Route path="/leagues" element={<Leagues />} />
+                <Route path="/track-record" element={<TrackRecord />} />
                 <Route path="/login" element={<Login />} />
                 <Route path="/register" element={<Register />} />
                 <Route path="/profile" element={<Profile />} />
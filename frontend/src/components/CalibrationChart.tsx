@@ -0,0 +1,75 @@
+import React from 'react';
+
+export interface CalibrationBucket {
+  from: number;
+  to: number;
+  selections: number;
+  predicted: number | null;
+  observed: number | null;
+}
+
+interface CalibrationChartProps {
+  buckets: CalibrationBucket[];
+}
+
+const SIZE = 300;
+const PADDING = 36;
+const PLOT = SIZE - PADDING * 2;
+
+const x = (value: number) => PADDING + value * PLOT;
+const y = (value: number) => SIZE - PADDING - value * PLOT;
+
+// Predicted probability against how often those selections hit; a perfectly
+// calibrated model sits on the diagonal. Dot size follows the bucket's sample.
+const CalibrationChart: React.FC<CalibrationChartProps> = ({ buckets }) => {
+  const filled = buckets.filter(bucket => bucket.predicted !== null && bucket.observed !== null);
+  const largest = Math.max(1, ...filled.map(bucket => bucket.selections));
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full max-w-sm">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={x(0)} x2={x(1)} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+          <text x={PADDING - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+            {Math.round(tick * 100)}%
+          </text>
+          <text x={x(tick)} y={SIZE - PADDING + 14} textAnchor="middle" fontSize="10" fill="#6b7280">
+            {Math.round(tick * 100)}%
+          </text>
+        </g>
+      ))}
+
+      <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(1)} stroke="#9ca3af" strokeDasharray="4 4" />
+
+      <polyline
+        fill="none"
+        stroke="#2563eb"
+        strokeWidth="2"
+        points={filled.map(bucket => `${x(bucket.predicted as number)},${y(bucket.observed as number)}`).join(' ')}
+      />
+
+      {filled.map(bucket => (
+        <circle
+          key={bucket.from}
+          cx={x(bucket.predicted as number)}
+          cy={y(bucket.observed as number)}
+          r={3 + 5 * Math.sqrt(bucket.selections / largest)}
+          fill="#2563eb"
+          fillOpacity="0.8"
+        >
+          <title>
+            {`${Math.round(bucket.from * 100)}-${Math.round(bucket.to * 100)}%: predicted ${((bucket.predicted as number) * 100).toFixed(1)}%, hit ${((bucket.observed as number) * 100).toFixed(1)}% of ${bucket.selections}`}
+          </title>
+        </circle>
+      ))}
+
+      <text x={SIZE / 2} y={SIZE - 4} textAnchor="middle" fontSize="11" fill="#374151">Predicted</text>
+      <text x={10} y={SIZE / 2} textAnchor="middle" fontSize="11" fill="#374151" transform={`rotate(-90 10 ${SIZE / 2})`}>
+        Observed
+      </text>
+    </svg>
+  );
+};
+
+export default CalibrationChart;
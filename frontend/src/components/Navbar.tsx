@@ -10,7 +10,8 @@ import {
   TrendingUp,
   Calendar,
   Users,
-  Trophy
+  Trophy,
+  Award
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -25,6 +26,7 @@ const Navbar: React.FC = () => {
     { name: 'Matches', href: '/matches', icon: Calendar },
     { name: 'Teams', href: '/teams', icon: Users },
     { name: 'Leagues', href: '/leagues', icon: Trophy },
+    { name: 'Track Record', href: '/track-record', icon: Award },
   ];
 
   const handleSignOut = async () => {
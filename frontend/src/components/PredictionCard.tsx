@@ -2,6 +2,11 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import { Heart, Calendar, Target, TrendingUp } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { ConfidenceBreakdown, CorrectScore } from '../contexts/PredictionsContext';
+
+interface PredictionScorelines {
+  correct_scores: CorrectScore[];
+}
 
 interface Prediction {
   id: number;
@@ -10,14 +15,13 @@ interface Prediction {
   draw_probability: number;
   away_win_probability: number;
   both_teams_score_probability: number;
-  over_2_5_goals_probability: number;
-  under_2_5_goals_probability: number;
   home_win_or_draw_probability: number;
   away_win_or_draw_probability: number;
-  home_handicap_1_5_probability: number;
-  away_handicap_1_5_probability: number;
   confidence_score: number;
-  prediction_date: string;
+  confidence_breakdown?: ConfidenceBreakdown | null;
+  generated_at: string;
+  // One-to-one embed; older API clients return it as a single-item array
+  scorelines?: PredictionScorelines | PredictionScorelines[] | null;
   match: {
     id: number;
     date: string;
@@ -53,12 +57,37 @@ const PredictionCard: React.FC<PredictionCardProps> = ({ prediction }) => {
     return 'Draw';
   };
 
+  const getTopScores = (): CorrectScore[] => {
+    const scorelines = Array.isArray(prediction.scorelines) ? prediction.scorelines[0] : prediction.scorelines;
+    if (!scorelines) return [];
+
+    return [...scorelines.correct_scores]
+      .sort((a, b) => b.probability - a.probability)
+      .slice(0, 3);
+  };
+
+  const topScores = getTopScores();
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return 'text-green-600 bg-green-100';
     if (confidence >= 0.6) return 'text-yellow-600 bg-yellow-100';
     return 'text-red-600 bg-red-100';
   };
 
+  // Tooltip listing what the confidence score is made of
+  const getConfidenceBreakdown = () => {
+    const breakdown = prediction.confidence_breakdown;
+    if (!breakdown) return undefined;
+
+    const percent = (value: number | null) => value === null ? 'n/a' : `${Math.round(value * 100)}%`;
+    return [
+      `Data behind the team strengths: ${percent(breakdown.sample_size)}`,
+      `Certainty of the team strengths: ${percent(breakdown.strength_certainty)}`,
+      `Agreement between models: ${percent(breakdown.model_agreement)}`,
+      `Past hit rate at this level: ${percent(breakdown.historical_accuracy)} of ${breakdown.history_picks} picks`
+    ].join('\n');
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -84,7 +113,10 @@ const PredictionCard: React.FC<PredictionCardProps> = ({ prediction }) => {
               {formatDate(prediction.match.date)}
             </span>
           </div>
-          <div className={`px-2 py-1 rounded-full text-xs font-medium ${getConfidenceColor(prediction.confidence_score)}`}>
+          <div
+            className={`px-2 py-1 rounded-full text-xs font-medium ${getConfidenceColor(prediction.confidence_score)}`}
+            title={getConfidenceBreakdown()}
+          >
             {Math.round(prediction.confidence_score * 100)}% confidence
           </div>
         </div>
@@ -167,6 +199,21 @@ const PredictionCard: React.FC<PredictionCardProps> = ({ prediction }) => {
             <div className="text-gray-900">{Math.round(prediction.away_win_probability * 100)}%</div>
           </div>
         </div>
+
+        {/* Most likely scores */}
+        {topScores.length > 0 && (
+          <div className="mt-4 pt-3 border-t border-gray-100">
+            <div className="text-xs font-medium text-gray-700 mb-2">Most likely scores</div>
+            <div className="grid grid-cols-3 gap-2 text-xs">
+              {topScores.map((score) => (
+                <div key={`${score.home}-${score.away}`} className="text-center">
+                  <div className="font-semibold text-gray-900">{score.home}-{score.away}</div>
+                  <div className="text-gray-500">{Math.round(score.probability * 100)}%</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Footer */}
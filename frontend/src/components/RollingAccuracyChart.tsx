@@ -0,0 +1,56 @@
+import React from 'react';
+import { format } from 'date-fns';
+
+export interface RollingAccuracyPoint {
+  match_id: number;
+  date: string;
+  hit_rate: number;
+}
+
+interface RollingAccuracyChartProps {
+  points: RollingAccuracyPoint[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = 36;
+
+// Hit rate over the last 50 matches, one point per settled match
+const RollingAccuracyChart: React.FC<RollingAccuracyChartProps> = ({ points }) => {
+  if (points.length < 2) {
+    return <p className="text-sm text-gray-500">Not enough settled matches yet.</p>;
+  }
+
+  const x = (index: number) => PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (value: number) => HEIGHT - PADDING - value * (HEIGHT - PADDING * 2);
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={PADDING} x2={WIDTH - PADDING} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+          <text x={PADDING - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+            {Math.round(tick * 100)}%
+          </text>
+        </g>
+      ))}
+
+      <polyline
+        fill="none"
+        stroke="#16a34a"
+        strokeWidth="2"
+        points={points.map((point, index) => `${x(index)},${y(point.hit_rate)}`).join(' ')}
+      />
+
+      <text x={PADDING} y={HEIGHT - 8} fontSize="10" fill="#6b7280">
+        {format(new Date(points[0].date), 'd MMM yyyy')}
+      </text>
+      <text x={WIDTH - PADDING} y={HEIGHT - 8} textAnchor="end" fontSize="10" fill="#6b7280">
+        {format(new Date(points[points.length - 1].date), 'd MMM yyyy')}
+      </text>
+    </svg>
+  );
+};
+
+export default RollingAccuracyChart;
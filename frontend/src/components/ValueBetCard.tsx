@@ -0,0 +1,148 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Calendar, Percent } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { ValueBet } from '../contexts/PredictionsContext';
+
+interface ValueBetCardProps {
+  valueBet: ValueBet;
+}
+
+const MARKET_LABELS: Record<string, string> = {
+  MATCH_WINNER: 'Match Winner',
+  DOUBLE_CHANCE: 'Double Chance',
+  OVER_UNDER: 'Over/Under',
+  BOTH_TEAMS_SCORE: 'Both Teams Score',
+  ASIAN_HANDICAP: 'Asian Handicap',
+  CORRECT_SCORE: 'Correct Score'
+};
+
+const ValueBetCard: React.FC<ValueBetCardProps> = ({ valueBet }) => {
+  const { match } = valueBet;
+
+  const getSelectionLabel = () => {
+    const names: Record<string, string> = {
+      HOME: match.home_team.name,
+      AWAY: match.away_team.name,
+      DRAW: 'Draw',
+      OVER: 'Over',
+      UNDER: 'Under',
+      YES: 'Yes',
+      NO: 'No'
+    };
+    // Double chance selections combine two outcomes, e.g. HOME_DRAW
+    const selection = valueBet.selection
+      .split('_')
+      .map(part => names[part] || part)
+      .join(' or ');
+
+    if (valueBet.line === null) return selection;
+    const line = valueBet.line > 0 && valueBet.market === 'ASIAN_HANDICAP' ? `+${valueBet.line}` : `${valueBet.line}`;
+    return `${selection} ${line}`;
+  };
+
+  const getEdgeColor = (edge: number) => {
+    if (edge >= 0.1) return 'text-green-600 bg-green-100';
+    if (edge >= 0.05) return 'text-yellow-600 bg-yellow-100';
+    return 'text-gray-600 bg-gray-100';
+  };
+
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow duration-300 overflow-hidden"
+    >
+      {/* Header */}
+      <div className="p-4 border-b border-gray-100">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center space-x-2">
+            <Calendar className="h-4 w-4 text-gray-400" />
+            <span className="text-sm text-gray-500">
+              {formatDate(match.date)}
+            </span>
+          </div>
+          <div className={`px-2 py-1 rounded-full text-xs font-medium ${getEdgeColor(valueBet.edge)}`}>
+            +{formatPercent(valueBet.edge)} edge
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {match.league.logo && (
+            <img
+              src={match.league.logo}
+              alt={match.league.name}
+              className="h-4 w-4 rounded-full"
+            />
+          )}
+          <span className="text-sm font-medium text-gray-700">
+            {match.league.name}
+          </span>
+        </div>
+      </div>
+
+      <div className="p-4">
+        <div className="font-medium text-gray-900 mb-4 truncate">
+          {match.home_team.name} vs {match.away_team.name}
+        </div>
+
+        {/* Selection */}
+        <div className="bg-gray-50 rounded-lg p-3 mb-4">
+          <div className="flex items-center space-x-2 mb-2">
+            <Percent className="h-4 w-4 text-blue-600" />
+            <span className="text-sm font-medium text-gray-700">
+              {MARKET_LABELS[valueBet.market] || valueBet.market}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-gray-900">{getSelectionLabel()}</span>
+            <span className="font-semibold text-gray-900">
+              {valueBet.price.toFixed(2)}
+              <span className="ml-1 text-xs font-normal text-gray-500">{valueBet.bookmaker}</span>
+            </span>
+          </div>
+        </div>
+
+        {/* Probabilities */}
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <div className="text-center">
+            <div className="font-medium text-gray-700">Model</div>
+            <div className="text-gray-900">{formatPercent(valueBet.model_probability)}</div>
+          </div>
+          <div className="text-center">
+            <div className="font-medium text-gray-700">Fair</div>
+            <div className="text-gray-900">{formatPercent(valueBet.fair_probability)}</div>
+          </div>
+          <div className="text-center">
+            <div className="font-medium text-gray-700">EV</div>
+            <div className="text-gray-900">{formatPercent(valueBet.expected_value)}</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="px-4 py-3 bg-gray-50 border-t border-gray-100">
+        <Link
+          to={`/matches/${match.id}`}
+          className="text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          View Match Details
+        </Link>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ValueBetCard;
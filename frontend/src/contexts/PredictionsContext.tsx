@@ -3,6 +3,25 @@ import axios from 'axios';
 import toast from 'react-hot-toast';
 import { config } from '../config';
 
+export interface CorrectScore {
+  home: number;
+  away: number;
+  probability: number;
+}
+
+// Components of the confidence score, each from 0 to 1
+export interface ConfidenceBreakdown {
+  sample_size: number;
+  strength_certainty: number;
+  model_agreement: number | null;
+  historical_accuracy: number | null;
+  history_picks: number;
+}
+
+interface PredictionScorelines {
+  correct_scores: CorrectScore[];
+}
+
 interface Prediction {
   id: number;
   match_id: number;
@@ -10,14 +29,13 @@ interface Prediction {
   draw_probability: number;
   away_win_probability: number;
   both_teams_score_probability: number;
-  over_2_5_goals_probability: number;
-  under_2_5_goals_probability: number;
   home_win_or_draw_probability: number;
   away_win_or_draw_probability: number;
-  home_handicap_1_5_probability: number;
-  away_handicap_1_5_probability: number;
   confidence_score: number;
-  prediction_date: string;
+  confidence_breakdown?: ConfidenceBreakdown | null;
+  generated_at: string;
+  // One-to-one embed; older API clients return it as a single-item array
+  scorelines?: PredictionScorelines | PredictionScorelines[] | null;
   match: {
     id: number;
     date: string;
@@ -39,6 +57,21 @@ interface Prediction {
   };
 }
 
+export interface ValueBet {
+  match_id: number;
+  match: Prediction['match'];
+  market: string;
+  selection: string;
+  line: number | null;
+  bookmaker: string;
+  price: number;
+  captured_at: string;
+  model_probability: number;
+  fair_probability: number;
+  edge: number;
+  expected_value: number;
+}
+
 interface PredictionsContextType {
   predictions: Prediction[];
   loading: boolean;
@@ -47,6 +80,8 @@ interface PredictionsContextType {
   fetchTodayPredictions: () => Promise<void>;
   fetchTomorrowPredictions: () => Promise<void>;
   fetchHighConfidencePredictions: () => Promise<void>;
+  valueBets: ValueBet[];
+  fetchValueBets: (minEdge?: number) => Promise<void>;
   savePrediction: (predictionId: number) => Promise<void>;
   savedPredictions: Prediction[];
 }
@@ -56,6 +91,7 @@ const PredictionsContext = createContext<PredictionsContextType | undefined>(und
 export const PredictionsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [predictions, setPredictions] = useState<Prediction[]>([]);
   const [savedPredictions, setSavedPredictions] = useState<Prediction[]>([]);
+  const [valueBets, setValueBets] = useState<ValueBet[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -150,6 +186,30 @@ export const PredictionsProvider: React.FC<{ children: React.ReactNode }> = ({ c
     }
   };
 
+  const fetchValueBets = async (minEdge?: number) => {
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const params = new URLSearchParams();
+      if (minEdge !== undefined) params.append('minEdge', minEdge.toString());
+
+      const response = await axios.get(`${config.apiUrl}/predictions/value-bets?${params}`);
+      
+      if (response.data.success) {
+        setValueBets(response.data.data || []);
+      } else {
+        throw new Error(response.data.error || 'Failed to fetch value bets');
+      }
+    } catch (err: any) {
+      const errorMessage = err.response?.data?.error || err.message || 'Failed to fetch value bets';
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const savePrediction = async (predictionId: number) => {
     try {
       const response = await axios.post(`${config.apiUrl}/auth/save-prediction`, {
@@ -195,6 +255,8 @@ export const PredictionsProvider: React.FC<{ children: React.ReactNode }> = ({ c
     fetchTodayPredictions,
     fetchTomorrowPredictions,
     fetchHighConfidencePredictions,
+    valueBets,
+    fetchValueBets,
     savePrediction,
     savedPredictions
   };
@@ -6,10 +6,12 @@ import {
   Star, 
   TrendingUp,
   ArrowUpDown,
-  Search
+  Search,
+  Percent
 } from 'lucide-react';
 import { usePredictions } from '../contexts/PredictionsContext';
 import PredictionCard from '../components/PredictionCard';
+import ValueBetCard from '../components/ValueBetCard';
 
 const Predictions: React.FC = () => {
   const { 
@@ -20,6 +22,8 @@ const Predictions: React.FC = () => {
     fetchTodayPredictions, 
     fetchTomorrowPredictions,
     fetchHighConfidencePredictions,
+    valueBets,
+    fetchValueBets,
     savePrediction 
   } = usePredictions();
 
@@ -32,7 +36,8 @@ const Predictions: React.FC = () => {
   });
 
   const [sortBy, setSortBy] = useState('confidence');
-  const [view, setView] = useState<'today' | 'tomorrow' | 'all' | 'high-confidence'>('today');
+  const [view, setView] = useState<'today' | 'tomorrow' | 'all' | 'high-confidence' | 'value'>('today');
+  const [minEdge, setMinEdge] = useState('0.03');
 
   useEffect(() => {
     switch (view) {
@@ -48,8 +53,11 @@ const Predictions: React.FC = () => {
       case 'all':
         fetchPredictions(filters);
         break;
+      case 'value':
+        fetchValueBets(minEdge ? parseFloat(minEdge) : undefined);
+        break;
     }
-  }, [view, filters, fetchTodayPredictions, fetchTomorrowPredictions, fetchHighConfidencePredictions, fetchPredictions]);
+  }, [view, filters, minEdge, fetchTodayPredictions, fetchTomorrowPredictions, fetchHighConfidencePredictions, fetchPredictions, fetchValueBets]);
 
   const handleFilterChange = (key: string, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
@@ -82,7 +90,8 @@ const Predictions: React.FC = () => {
     { key: 'today', label: 'Today', icon: Calendar },
     { key: 'tomorrow', label: 'Tomorrow', icon: Calendar },
     { key: 'high-confidence', label: 'High Confidence', icon: Star },
-    { key: 'all', label: 'All Predictions', icon: TrendingUp }
+    { key: 'all', label: 'All Predictions', icon: TrendingUp },
+    { key: 'value', label: 'Value', icon: Percent }
   ];
 
   return (
@@ -209,66 +218,122 @@ const Predictions: React.FC = () => {
         </motion.div>
       )}
 
-      {/* Sort Options */}
-      <div className="flex justify-between items-center">
-        <div className="flex items-center space-x-4">
-          <span className="text-sm font-medium text-gray-700">Sort by:</span>
-          <select
-            value={sortBy}
-            onChange={(e) => setSortBy(e.target.value)}
-            className="input w-auto"
-          >
-            <option value="confidence">Confidence</option>
-            <option value="date">Date</option>
-            <option value="home-win">Home Win Probability</option>
-            <option value="away-win">Away Win Probability</option>
-          </select>
-        </div>
+      {view === 'value' ? (
+        <>
+          {/* Value Bets */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-4">
+              <span className="text-sm font-medium text-gray-700">Min edge:</span>
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.01"
+                value={minEdge}
+                onChange={(e) => setMinEdge(e.target.value)}
+                className="input w-24"
+                placeholder="0.03"
+              />
+            </div>
 
-        <div className="text-sm text-gray-600">
-          {loading ? 'Loading...' : `${sortedPredictions.length} predictions`}
-        </div>
-      </div>
+            <div className="text-sm text-gray-600">
+              {loading ? 'Loading...' : `${valueBets.length} value bets`}
+            </div>
+          </div>
 
-      {/* Predictions Grid */}
-      {loading ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {[1, 2, 3, 4, 5, 6].map((i) => (
-            <div key={i} className="card animate-pulse">
-              <div className="h-4 bg-gray-200 rounded mb-4"></div>
-              <div className="h-4 bg-gray-200 rounded mb-2"></div>
-              <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+          {loading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="card animate-pulse">
+                  <div className="h-4 bg-gray-200 rounded mb-4"></div>
+                  <div className="h-4 bg-gray-200 rounded mb-2"></div>
+                  <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
-      ) : error ? (
-        <div className="card text-center py-12">
-          <p className="text-red-600 text-lg">{error}</p>
-        </div>
-      ) : sortedPredictions.length > 0 ? (
-        <motion.div
-          initial={{ opacity: 0 }}
-          animate={{ opacity: 1 }}
-          className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
-        >
-          {sortedPredictions.map((prediction, index) => (
+          ) : error ? (
+            <div className="card text-center py-12">
+              <p className="text-red-600 text-lg">{error}</p>
+            </div>
+          ) : valueBets.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {valueBets.map((valueBet) => (
+                <ValueBetCard
+                  key={`${valueBet.match_id}-${valueBet.market}-${valueBet.selection}-${valueBet.line}`}
+                  valueBet={valueBet}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="card text-center py-12">
+              <p className="text-gray-500 text-lg">No value bets at this edge</p>
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          {/* Sort Options */}
+          <div className="flex justify-between items-center">
+            <div className="flex items-center space-x-4">
+              <span className="text-sm font-medium text-gray-700">Sort by:</span>
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value)}
+                className="input w-auto"
+              >
+                <option value="confidence">Confidence</option>
+                <option value="date">Date</option>
+                <option value="home-win">Home Win Probability</option>
+                <option value="away-win">Away Win Probability</option>
+              </select>
+            </div>
+
+            <div className="text-sm text-gray-600">
+              {loading ? 'Loading...' : `${sortedPredictions.length} predictions`}
+            </div>
+          </div>
+
+          {/* Predictions Grid */}
+          {loading ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {[1, 2, 3, 4, 5, 6].map((i) => (
+                <div key={i} className="card animate-pulse">
+                  <div className="h-4 bg-gray-200 rounded mb-4"></div>
+                  <div className="h-4 bg-gray-200 rounded mb-2"></div>
+                  <div className="h-4 bg-gray-200 rounded w-3/4"></div>
+                </div>
+              ))}
+            </div>
+          ) : error ? (
+            <div className="card text-center py-12">
+              <p className="text-red-600 text-lg">{error}</p>
+            </div>
+          ) : sortedPredictions.length > 0 ? (
             <motion.div
-              key={prediction.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.3, delay: index * 0.1 }}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6"
             >
-              <PredictionCard 
-                prediction={prediction} 
-                onSave={handleSavePrediction}
-              />
+              {sortedPredictions.map((prediction, index) => (
+                <motion.div
+                  key={prediction.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: index * 0.1 }}
+                >
+                  <PredictionCard 
+                    prediction={prediction} 
+                    onSave={handleSavePrediction}
+                  />
+                </motion.div>
+              ))}
             </motion.div>
-          ))}
-        </motion.div>
-      ) : (
-        <div className="card text-center py-12">
-          <p className="text-gray-500 text-lg">No predictions available</p>
-        </div>
+          ) : (
+            <div className="card text-center py-12">
+              <p className="text-gray-500 text-lg">No predictions available</p>
+            </div>
+          )}
+        </>
       )}
 
       {/* Load More Button */}
@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Award, Target, Activity, BarChart3 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { config } from '../config';
+import CalibrationChart, { CalibrationBucket } from '../components/CalibrationChart';
+import RollingAccuracyChart, { RollingAccuracyPoint } from '../components/RollingAccuracyChart';
+
+interface MarketPerformance {
+  market: string;
+  picks: number;
+  hit_rate: number | null;
+  brier_score: number | null;
+}
+
+interface LeaguePerformance {
+  league_id: number;
+  league_name: string;
+  matches: number;
+  picks: number;
+  hit_rate: number | null;
+  brier_score: number | null;
+}
+
+interface Performance {
+  matches: number;
+  picks: number;
+  hit_rate: number | null;
+  brier_score: number | null;
+  markets: MarketPerformance[];
+  leagues: LeaguePerformance[];
+  calibration: CalibrationBucket[];
+  rolling_accuracy: RollingAccuracyPoint[];
+}
+
+interface League {
+  id: number;
+  name: string;
+}
+
+const MARKETS = [
+  { value: '', label: 'All markets' },
+  { value: 'MATCH_WINNER', label: 'Match winner' },
+  { value: 'DOUBLE_CHANCE', label: 'Double chance' },
+  { value: 'OVER_UNDER', label: 'Over/under' },
+  { value: 'BOTH_TEAMS_SCORE', label: 'Both teams to score' },
+  { value: 'ASIAN_HANDICAP', label: 'Asian handicap' }
+];
+
+const marketLabel = (market: string) => MARKETS.find(option => option.value === market)?.label || market;
+
+const percent = (value: number | null) => value === null ? '–' : `${(value * 100).toFixed(1)}%`;
+
+const score = (value: number | null) => value === null ? '–' : value.toFixed(3);
+
+// How our published predictions fared: each match is scored on the
+// prediction we had at kickoff
+const TrackRecord: React.FC = () => {
+  const [performance, setPerformance] = useState<Performance | null>(null);
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState({
+    league: '',
+    market: '',
+    from: '',
+    to: ''
+  });
+
+  useEffect(() => {
+    fetchLeagues();
+  }, []);
+
+  const fetchPerformance = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.append(key, value);
+      });
+
+      const response = await fetch(`${config.apiUrl}/predictions/performance?${params}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setPerformance(data.data);
+      } else {
+        toast.error('Failed to fetch track record');
+      }
+    } catch (error) {
+      console.error('Error fetching track record:', error);
+      toast.error('Failed to fetch track record');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchPerformance();
+  }, [fetchPerformance]);
+
+  const fetchLeagues = async () => {
+    try {
+      const response = await fetch(`${config.apiUrl}/leagues`);
+      const data = await response.json();
+
+      if (data.success) {
+        setLeagues(data.data || []);
+      }
+    } catch (error) {
+      console.error('Error fetching leagues:', error);
+    }
+  };
+
+  const handleFilterChange = (key: string, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-2">
+        <Award className="h-8 w-8 text-blue-600" />
+        <h1 className="text-3xl font-bold text-gray-900">Track Record</h1>
+      </div>
+      <p className="text-gray-600">
+        Every finished match is scored on the prediction we published before kickoff.
+      </p>
+
+      <div className="card grid grid-cols-1 md:grid-cols-4 gap-4">
+        <select
+          value={filters.league}
+          onChange={(e) => handleFilterChange('league', e.target.value)}
+          className="input"
+        >
+          <option value="">All leagues</option>
+          {leagues.map(league => (
+            <option key={league.id} value={league.id}>{league.name}</option>
+          ))}
+        </select>
+        <select
+          value={filters.market}
+          onChange={(e) => handleFilterChange('market', e.target.value)}
+          className="input"
+        >
+          {MARKETS.map(market => (
+            <option key={market.value} value={market.value}>{market.label}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => handleFilterChange('from', e.target.value)}
+          className="input"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => handleFilterChange('to', e.target.value)}
+          className="input"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center min-h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : !performance || performance.matches === 0 ? (
+        <div className="text-center py-12">
+          <Target className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No settled predictions yet</h3>
+          <p className="text-gray-500">Results will appear here once predicted matches have finished</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="card">
+              <p className="text-sm text-gray-500">Matches</p>
+              <p className="text-2xl font-bold text-gray-900">{performance.matches}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-500">Picks</p>
+              <p className="text-2xl font-bold text-gray-900">{Math.round(performance.picks)}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-500">Hit rate (main lines)</p>
+              <p className="text-2xl font-bold text-success-600">{percent(performance.hit_rate)}</p>
+            </div>
+            <div className="card">
+              <p className="text-sm text-gray-500">Brier score (lower is better)</p>
+              <p className="text-2xl font-bold text-gray-900">{score(performance.brier_score)}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="card">
+              <div className="flex items-center space-x-2 mb-4">
+                <Target className="h-5 w-5 text-blue-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Calibration</h2>
+              </div>
+              <CalibrationChart buckets={performance.calibration} />
+              <p className="text-xs text-gray-500 mt-2">
+                Selections grouped by predicted probability; points on the dashed line mean
+                they hit as often as we said.
+              </p>
+            </div>
+
+            <div className="card">
+              <div className="flex items-center space-x-2 mb-4">
+                <Activity className="h-5 w-5 text-green-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Rolling accuracy</h2>
+              </div>
+              <RollingAccuracyChart points={performance.rolling_accuracy} />
+              <p className="text-xs text-gray-500 mt-2">Hit rate of our picks over the last 50 matches.</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="card overflow-x-auto">
+              <div className="flex items-center space-x-2 mb-4">
+                <BarChart3 className="h-5 w-5 text-blue-600" />
+                <h2 className="text-lg font-semibold text-gray-900">By market</h2>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2">Market</th>
+                    <th className="py-2 text-right">Picks</th>
+                    <th className="py-2 text-right">Hit rate</th>
+                    <th className="py-2 text-right">Brier</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {performance.markets.map(market => (
+                    <tr key={market.market} className="border-b border-gray-100">
+                      <td className="py-2">{marketLabel(market.market)}</td>
+                      <td className="py-2 text-right">{Math.round(market.picks)}</td>
+                      <td className="py-2 text-right">{percent(market.hit_rate)}</td>
+                      <td className="py-2 text-right">{score(market.brier_score)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="card overflow-x-auto">
+              <div className="flex items-center space-x-2 mb-4">
+                <Award className="h-5 w-5 text-blue-600" />
+                <h2 className="text-lg font-semibold text-gray-900">By league</h2>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2">League</th>
+                    <th className="py-2 text-right">Matches</th>
+                    <th className="py-2 text-right">Hit rate</th>
+                    <th className="py-2 text-right">Brier</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {performance.leagues.map(league => (
+                    <tr key={league.league_id} className="border-b border-gray-100">
+                      <td className="py-2">{league.league_name}</td>
+                      <td className="py-2 text-right">{league.matches}</td>
+                      <td className="py-2 text-right">
+                        <div className="flex items-center justify-end space-x-2">
+                          <div className="w-16 h-2 bg-gray-200 rounded-full">
+                            <div
+                              className="h-2 bg-success-500 rounded-full"
+                              style={{ width: `${(league.hit_rate || 0) * 100}%` }}
+                            />
+                          </div>
+                          <span>{percent(league.hit_rate)}</span>
+                        </div>
+                      </td>
+                      <td className="py-2 text-right">{score(league.brier_score)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TrackRecord;